@@ -50,18 +50,44 @@ const config: WebperfConfig = {
    */
   defaultRuns: 5,
   
+  /**
+   * Optional: Overrides installed on every measured page load
+   * Script and storage are injected before any page script; cookies are set before navigation
+   * Runs where they were not in effect are not counted
+   */
+  // overrides: {
+  //   localStorage: { 'my-feature-flag': 'true' },
+  //   cookies: [{ name: 'consent', value: 'accepted' }],
+  //   verify: async (page) => page.evaluate(() => document.body.dataset.flag === 'on'),
+  // },
+  
   /**
    * Optional: Custom function to apply overrides before measurements
-   * This is called after navigating to the URL, before running Lighthouse
-   * Use for any pre-measurement setup (feature flags, local storage, etc.)
+   * This is called on the measured page before Lighthouse navigates to the URL
+   * Use for any other pre-measurement setup
    */
   // applyOverrides: async (page) => {
-  //   await page.evaluate(() => {
+  //   await page.evaluateOnNewDocument(() => {
   //     // Example: Set a feature flag
   //     localStorage.setItem('my-feature-flag', 'true');
   //   });
   // },
   
+  /**
+   * Optional: Check after each run that applyOverrides took effect
+   * Runs where it returns false are not counted; without it, results are saved as not verified
+   */
+  // verifyOverrides: async (page) => page.evaluate(() => localStorage.getItem('my-feature-flag') === 'true'),
+  
+  /**
+   * Optional: Named override variants for experiments
+   * Select one with --variant, or compare them all with the experiment command
+   */
+  // variants: {
+  //   off: { description: 'Flag off' },
+  //   on: { description: 'Flag on', overrides: { localStorage: { 'my-feature-flag': 'true' } } },
+  // },
+  
   /**
    * Optional: Returns a script string to print for manual override application
    * Users can copy-paste this into browser console
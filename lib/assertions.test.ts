@@ -0,0 +1,127 @@
+import type { AssertionConfig, BatchResult, ComparisonResult, MeasurementResult } from './types.js';
+import { evaluateAssertions, printAssertionResults, resolveAssertions } from './assertions.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock logger
+vi.mock('./logger.js', () => ({
+  default: {
+    log: vi.fn(),
+    newline: vi.fn(),
+    green: (s: string) => s,
+    red: (s: string) => s,
+    yellow: (s: string) => s,
+  },
+}));
+
+describe('assertions', () => {
+  const metrics: MeasurementResult = { score: 88, fcp: 1200, lcp: 2700, tbt: 150, cls: 0.05, si: 1800 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('resolveAssertions', () => {
+    it('should merge scenario thresholds over the defaults per metric', () => {
+      const defaults: AssertionConfig = { score: { min: 85 }, lcp: { max: 2500, maxRegressionPercent: 5 }, maxRegressionPercent: 10 };
+
+      expect(resolveAssertions(defaults, { lcp: { max: 4000 }, cls: { max: 0.1 } })).toEqual({
+        score: { min: 85 },
+        lcp: { max: 4000, maxRegressionPercent: 5 },
+        cls: { max: 0.1 },
+        maxRegressionPercent: 10,
+      });
+    });
+
+    it('should return nothing without assertions', () => {
+      expect(resolveAssertions(undefined, undefined)).toBeUndefined();
+      expect(resolveAssertions(undefined, { score: { min: 90 } })).toEqual({ score: { min: 90 } });
+    });
+  });
+
+  describe('evaluateAssertions', () => {
+    it('should check min and max thresholds', () => {
+      const outcomes = evaluateAssertions({ score: { min: 85 }, lcp: { max: 2500 }, cls: { max: 0.1 } }, metrics);
+
+      expect(outcomes).toEqual([
+        { key: 'score', assertion: 'score >= 85', actual: 88, passed: true },
+        { key: 'lcp', assertion: 'lcp <= 2500', actual: 2700, passed: false },
+        { key: 'cls', assertion: 'cls <= 0.1', actual: 0.05, passed: true },
+      ]);
+    });
+
+    it('should fail thresholds when the scenario or metric was not measured', () => {
+      expect(evaluateAssertions({ score: { min: 85 } })).toEqual([{ key: 'score', assertion: 'score >= 85', passed: false }]);
+      expect(evaluateAssertions({ ttfb: { max: 600 } }, metrics)[0].passed).toBe(false);
+    });
+
+    it('should fail significant regressions against the baseline beyond the limit', () => {
+      const baseline: ComparisonResult[] = [
+        { metric: 'Performance Score', key: 'score', before: 100, after: 88, diff: -12, percentChange: -12, improved: false, significant: true },
+        { metric: 'LCP (ms)', key: 'lcp', before: 2500, after: 2700, diff: 200, percentChange: 8, improved: false, significant: true },
+        { metric: 'TBT (ms)', key: 'tbt', before: 100, after: 150, diff: 50, percentChange: 50, improved: false, significant: false },
+      ];
+
+      const outcomes = evaluateAssertions({ lcp: { maxRegressionPercent: 5 }, maxRegressionPercent: 10 }, metrics, baseline);
+
+      expect(outcomes).toEqual([
+        { key: 'score', assertion: 'score regression <= 10%', actual: 12, passed: false },
+        { key: 'lcp', assertion: 'lcp regression <= 5%', actual: 8, passed: false },
+        { key: 'tbt', assertion: 'tbt regression <= 10%', actual: 50, passed: true },
+      ]);
+    });
+
+    it('should fail any significant worsening from a baseline of 0', () => {
+      const baseline: ComparisonResult[] = [
+        { metric: 'TBT (ms)', key: 'tbt', before: 0, after: 500, diff: 500, percentChange: null, improved: false, significant: true },
+        { metric: 'CLS', key: 'cls', before: 0, after: 0.3, diff: 0.3, percentChange: null, improved: false, significant: false },
+        { metric: 'Performance Score', key: 'score', before: 0, after: 40, diff: 40, percentChange: null, improved: true, significant: true },
+      ];
+
+      expect(evaluateAssertions({ maxRegressionPercent: 10 }, metrics, baseline)).toEqual([
+        { key: 'tbt', assertion: 'tbt regression <= 10% from 0', actual: 500, passed: false },
+        { key: 'cls', assertion: 'cls regression <= 10% from 0', actual: 0.3, passed: true },
+        { key: 'score', assertion: 'score regression <= 10% from 0', actual: -40, passed: true },
+      ]);
+    });
+
+    it('should skip regression assertions without a baseline', () => {
+      expect(evaluateAssertions({ maxRegressionPercent: 10 }, metrics)).toEqual([]);
+    });
+  });
+
+  describe('printAssertionResults', () => {
+    it('should print a pass/fail row per assertion and count failures', async () => {
+      const results: BatchResult['results'] = [
+        {
+          scenario: { id: 'homepage', note: '', url: 'https://example.com' },
+          assertions: [
+            { key: 'score', assertion: 'score >= 85', actual: 88, passed: true },
+            { key: 'lcp', assertion: 'lcp regression <= 5%', actual: 8, passed: false },
+            { key: 'tbt', assertion: 'tbt regression <= 10% from 0', actual: 500, passed: false },
+          ],
+        },
+        { scenario: { id: 'blog', note: '', url: 'https://example.com/blog' }, error: 'Navigation timeout', assertions: [{ key: 'score', assertion: 'score >= 85', passed: false }] },
+        { scenario: { id: 'shop', note: '', url: 'https://example.com/shop' } },
+      ];
+
+      const logger = await import('./logger.js');
+
+      expect(printAssertionResults(results)).toBe(3);
+
+      const logLines = vi.mocked(logger.default.log).mock.calls.map(call => String(call[0]));
+      expect(logLines.some(line => line.includes('homepage') && line.includes('score >= 85') && line.includes('88') && line.includes('PASS'))).toBe(true);
+      expect(logLines.some(line => line.includes('lcp regression <= 5%') && line.includes('+8.0%') && line.includes('FAIL'))).toBe(true);
+      expect(logLines.some(line => line.includes('tbt regression <= 10% from 0') && line.includes('+500') && line.includes('FAIL'))).toBe(true);
+      expect(logLines.some(line => line.includes('blog') && line.includes('not measured') && line.includes('FAIL'))).toBe(true);
+      expect(logLines.some(line => line.includes('shop'))).toBe(false);
+      expect(logLines).toContain('  3 of 4 assertions failed');
+    });
+
+    it('should print nothing without assertions', async () => {
+      const logger = await import('./logger.js');
+
+      expect(printAssertionResults([{ scenario: { id: 'shop', note: '', url: 'https://example.com/shop' } }])).toBe(0);
+      expect(logger.default.log).not.toHaveBeenCalled();
+    });
+  });
+});
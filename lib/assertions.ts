@@ -0,0 +1,125 @@
+/**
+ * Performance assertions for batch scenarios
+ * Thresholds on the headline metrics and on regressions against the scenario's baseline
+ */
+
+import type { AssertionConfig, AssertionOutcome, BatchResult, ComparisonResult, MeasurementResult } from './types.js';
+import { METRICS, getMetricDefinition } from './metrics.js';
+import logger from './logger.js';
+
+/**
+ * Merge a scenario's assertions over the defaults from settings
+ * Thresholds of the same metric are merged, so a scenario can override only max and keep the default min
+ */
+export function resolveAssertions(defaults?: AssertionConfig, scenario?: AssertionConfig): AssertionConfig | undefined {
+  if (!defaults && !scenario) return undefined;
+
+  const merged: AssertionConfig = { ...defaults, ...scenario };
+  for (const { key } of METRICS) {
+    if (defaults?.[key] && scenario?.[key]) {
+      merged[key] = { ...defaults[key], ...scenario[key] };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Check assertions against a scenario's headline metrics and its comparison with the baseline
+ * Without metrics (the scenario failed), every min/max assertion fails
+ * Regression assertions are only checked when there is a baseline, and only fail on significant regressions
+ */
+export function evaluateAssertions(
+  assertions: AssertionConfig,
+  metrics?: MeasurementResult,
+  baseline?: ComparisonResult[]
+): AssertionOutcome[] {
+  const outcomes: AssertionOutcome[] = [];
+
+  for (const { key } of METRICS) {
+    const threshold = assertions[key];
+    const value = metrics?.[key];
+    const actual = value !== undefined ? { actual: value } : {};
+
+    if (threshold?.min !== undefined) {
+      outcomes.push({ key, assertion: `${key} >= ${threshold.min}`, ...actual, passed: value !== undefined && value >= threshold.min });
+    }
+    if (threshold?.max !== undefined) {
+      outcomes.push({ key, assertion: `${key} <= ${threshold.max}`, ...actual, passed: value !== undefined && value <= threshold.max });
+    }
+  }
+
+  for (const comp of baseline || []) {
+    const maxRegression = assertions[comp.key]?.maxRegressionPercent ?? assertions.maxRegressionPercent;
+    if (maxRegression === undefined) continue;
+
+    // Positive when worse, whichever direction is better for the metric
+    const worse = (change: number) => (getMetricDefinition(comp.key).higherIsBetter ? -change : change);
+
+    // From a baseline of 0 there is no percentage: any significant worsening is over the limit
+    if (comp.percentChange === null) {
+      const worsening = worse(comp.diff);
+      outcomes.push({
+        key: comp.key,
+        assertion: `${comp.key} regression <= ${maxRegression}% from 0`,
+        actual: worsening,
+        passed: worsening <= 0 || comp.significant === false,
+      });
+      continue;
+    }
+
+    const regression = worse(comp.percentChange);
+    outcomes.push({
+      key: comp.key,
+      assertion: `${comp.key} regression <= ${maxRegression}%`,
+      actual: regression,
+      passed: regression <= maxRegression || comp.significant === false,
+    });
+  }
+
+  return outcomes;
+}
+
+/**
+ * Format an assertion's measured value in the units thresholds are given in (bytes stay bytes)
+ */
+function formatActual(outcome: AssertionOutcome): string {
+  if (outcome.actual === undefined) return 'not measured';
+  // Worsening from a baseline of 0, in the metric's units
+  if (outcome.assertion.endsWith('from 0')) {
+    return `${outcome.actual > 0 ? '+' : ''}${outcome.actual.toFixed(getMetricDefinition(outcome.key).decimals)}`;
+  }
+  if (outcome.assertion.includes('regression')) {
+    return `${outcome.actual > 0 ? '+' : ''}${outcome.actual.toFixed(1)}%`;
+  }
+  return outcome.actual.toFixed(getMetricDefinition(outcome.key).decimals);
+}
+
+/**
+ * Print a pass/fail table for every scenario with assertions
+ * @returns Number of failed assertions
+ */
+export function printAssertionResults(results: BatchResult['results']): number {
+  const checked = results.filter(r => r.assertions && r.assertions.length > 0);
+  if (checked.length === 0) return 0;
+
+  logger.newline();
+  logger.log(logger.yellow('Assertions:'));
+
+  let failed = 0;
+  for (const result of checked) {
+    result.assertions!.forEach((outcome, i) => {
+      const scenario = i === 0 ? result.scenario.id : '';
+      const status = outcome.passed ? logger.green('PASS') : logger.red('FAIL');
+      logger.log(`  ${scenario.padEnd(24)} ${outcome.assertion.padEnd(28)} ${formatActual(outcome).padStart(12)}  ${status}`);
+      if (!outcome.passed) failed++;
+    });
+  }
+
+  const total = checked.reduce((sum, r) => sum + r.assertions!.length, 0);
+  logger.newline();
+  logger.log(failed > 0
+    ? logger.red(`  ${failed} of ${total} assertions failed`)
+    : logger.green(`  All ${total} assertions passed`));
+
+  return failed;
+}
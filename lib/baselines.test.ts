@@ -0,0 +1,134 @@
+import type { BaselineRegistry, MeasurementSummary } from './types.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+// Mock fs module
+vi.mock('fs', async () => {
+  const actual = await vi.importActual('fs');
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+    mkdirSync: vi.fn(),
+    readFileSync: vi.fn(),
+    writeFileSync: vi.fn(),
+  };
+});
+
+// Mock settings module
+vi.mock('./settings.js', () => ({
+  getResultsPath: vi.fn(() => '/mock/results'),
+}));
+
+// Mock results module
+vi.mock('./results.js', () => ({
+  loadSummary: vi.fn(),
+}));
+
+// Mock logger
+vi.mock('./logger.js', () => ({
+  default: {
+    log: vi.fn(),
+    logWarn: vi.fn(),
+    logError: vi.fn(),
+    newline: vi.fn(),
+    dim: (s: string) => s,
+    cyan: (s: string) => s,
+    yellow: (s: string) => s,
+  },
+}));
+
+describe('baselines', () => {
+  const registry: BaselineRegistry = {
+    homepage: { result: '2024-01-15T10-30-00', timestamp: '2024-01-15T10-30-00', url: 'https://example.com', setAt: '2024-01-15T12:00:00.000Z' },
+    'https://example.com/shop': { result: '2024-01-15T11-00-00', timestamp: '2024-01-15T11-00-00', url: 'https://example.com/shop', setAt: '2024-01-15T12:00:00.000Z' },
+  };
+
+  const writtenRegistry = () => JSON.parse(vi.mocked(writeFileSync).mock.calls[0][1] as string);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(existsSync).mockReturnValue(true);
+    vi.mocked(readFileSync).mockReturnValue(JSON.stringify(registry));
+  });
+
+  describe('loadBaselines', () => {
+    it('should read baselines.json in the results directory', async () => {
+      const { loadBaselines } = await import('./baselines.js');
+
+      expect(loadBaselines()).toEqual(registry);
+      expect(readFileSync).toHaveBeenCalledWith('/mock/results/baselines.json', 'utf-8');
+    });
+
+    it('should return no baselines when the file is missing', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      const { loadBaselines } = await import('./baselines.js');
+
+      expect(loadBaselines()).toEqual({});
+    });
+  });
+
+  describe('setBaseline', () => {
+    it('should add the baseline with the result\'s details', async () => {
+      const { loadSummary } = await import('./results.js');
+      vi.mocked(loadSummary).mockReturnValue({
+        url: 'https://example.com/blog',
+        timestamp: '2024-01-16T09-00-00',
+        note: 'release 1.2',
+      } as MeasurementSummary);
+
+      const { setBaseline } = await import('./baselines.js');
+
+      const baseline = setBaseline('blog', '2024-01-16T09-00-00');
+
+      expect(baseline).toMatchObject({ result: '2024-01-16T09-00-00', url: 'https://example.com/blog', note: 'release 1.2' });
+      expect(vi.mocked(writeFileSync).mock.calls[0][0]).toBe('/mock/results/baselines.json');
+      expect(Object.keys(writtenRegistry())).toEqual(['homepage', 'https://example.com/shop', 'blog']);
+    });
+
+    it('should not set a baseline for a missing result', async () => {
+      const { loadSummary } = await import('./results.js');
+      vi.mocked(loadSummary).mockReturnValue(null);
+
+      const { setBaseline } = await import('./baselines.js');
+      const logger = await import('./logger.js');
+
+      expect(setBaseline('blog', 'missing')).toBeNull();
+      expect(logger.default.logError).toHaveBeenCalledWith('Could not load results from: missing');
+      expect(writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('clearBaseline', () => {
+    it('should remove one baseline', async () => {
+      const { clearBaseline } = await import('./baselines.js');
+
+      expect(clearBaseline('homepage')).toBe(1);
+      expect(Object.keys(writtenRegistry())).toEqual(['https://example.com/shop']);
+    });
+
+    it('should remove every baseline without a key', async () => {
+      const { clearBaseline } = await import('./baselines.js');
+
+      expect(clearBaseline()).toBe(2);
+      expect(writtenRegistry()).toEqual({});
+    });
+
+    it('should leave the file alone for unknown keys', async () => {
+      const { clearBaseline } = await import('./baselines.js');
+
+      expect(clearBaseline('missing')).toBe(0);
+      expect(writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findBaseline', () => {
+    it('should use the first key that has a baseline', async () => {
+      const { findBaseline } = await import('./baselines.js');
+
+      expect(findBaseline('shop', 'https://example.com/shop')?.key).toBe('https://example.com/shop');
+      expect(findBaseline('homepage', 'https://example.com')?.baseline.result).toBe('2024-01-15T10-30-00');
+      expect(findBaseline(undefined, 'https://example.com/blog')).toBeNull();
+    });
+  });
+});
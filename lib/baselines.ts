@@ -0,0 +1,128 @@
+/**
+ * Baseline registry
+ * Reference results per scenario ID or URL, which measure and batch compare against
+ */
+
+import type { Baseline, BaselineRegistry } from './types.js';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { getResultsPath } from './settings.js';
+import { loadSummary } from './results.js';
+import logger from './logger.js';
+
+/**
+ * Get the baseline registry path (baselines.json in the results directory)
+ */
+export function getBaselinesPath(): string {
+  return join(getResultsPath(), 'baselines.json');
+}
+
+/**
+ * Load all baselines (empty when none were set)
+ */
+export function loadBaselines(): BaselineRegistry {
+  const baselinesPath = getBaselinesPath();
+
+  try {
+    if (existsSync(baselinesPath)) {
+      return JSON.parse(readFileSync(baselinesPath, 'utf-8'));
+    }
+  } catch {
+    logger.logWarn(`Could not read baselines from: ${baselinesPath}`);
+  }
+
+  return {};
+}
+
+/**
+ * Write the baseline registry
+ */
+function saveBaselines(baselines: BaselineRegistry): void {
+  const baselinesPath = getBaselinesPath();
+  const baselinesDir = dirname(baselinesPath);
+
+  if (!existsSync(baselinesDir)) {
+    mkdirSync(baselinesDir, { recursive: true });
+  }
+
+  writeFileSync(baselinesPath, JSON.stringify(baselines, null, 2));
+}
+
+/**
+ * Register a result as the baseline for a scenario ID or URL, replacing any previous one
+ * Logs an error and returns null when the result cannot be loaded
+ */
+export function setBaseline(key: string, result: string): Baseline | null {
+  const summary = loadSummary(result);
+  if (!summary) {
+    logger.logError(`Could not load results from: ${result}`);
+    return null;
+  }
+
+  const baseline: Baseline = {
+    result,
+    timestamp: summary.timestamp,
+    url: summary.url,
+    ...(summary.note && { note: summary.note }),
+    setAt: new Date().toISOString(),
+  };
+  saveBaselines({ ...loadBaselines(), [key]: baseline });
+
+  return baseline;
+}
+
+/**
+ * Remove the baseline for a key, or every baseline without one
+ * @returns Number of baselines removed
+ */
+export function clearBaseline(key?: string): number {
+  const baselines = loadBaselines();
+
+  if (!key) {
+    const count = Object.keys(baselines).length;
+    if (count > 0) saveBaselines({});
+    return count;
+  }
+
+  if (!baselines[key]) return 0;
+  const { [key]: _removed, ...rest } = baselines;
+  saveBaselines(rest);
+  return 1;
+}
+
+/**
+ * Find the baseline for the first key that has one (e.g., scenario ID, then URL)
+ */
+export function findBaseline(...keys: Array<string | undefined>): { key: string; baseline: Baseline } | null {
+  const baselines = loadBaselines();
+
+  for (const key of keys) {
+    if (key && baselines[key]) {
+      return { key, baseline: baselines[key] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Print all baselines
+ */
+export function printBaselines(): void {
+  const entries = Object.entries(loadBaselines());
+
+  if (entries.length === 0) {
+    logger.logWarn('No baselines set.');
+    logger.log(logger.dim('  Set one with: npx tsx perf.ts baseline set <scenarioId|url> <resultId>'));
+    return;
+  }
+
+  logger.log(logger.cyan('Baselines:'));
+  logger.log(logger.dim(`  Location: ${getBaselinesPath()}`));
+  logger.newline();
+
+  for (const [key, baseline] of entries) {
+    logger.log(`  ${logger.yellow(key)}`);
+    logger.log(`    ${baseline.result}${baseline.note ? ` ("${baseline.note}")` : ''} ${logger.dim(`- ${baseline.url}, set ${baseline.setAt}`)}`);
+  }
+}
@@ -0,0 +1,92 @@
+import { DEFAULT_DEVICE, DEVICE_PROFILES, formatDevice, getLighthouseEmulation, isSameDevice, resolveDeviceProfile } from './devices.js';
+import { describe, expect, it } from 'vitest';
+
+describe('devices', () => {
+  describe('resolveDeviceProfile', () => {
+    it('should default to the desktop profile', () => {
+      const profile = resolveDeviceProfile();
+      expect(profile.name).toBe(DEFAULT_DEVICE);
+      expect(profile.formFactor).toBe('desktop');
+      expect(profile.viewport).toBeUndefined();
+    });
+
+    it('should resolve named profiles', () => {
+      const profile = resolveDeviceProfile('moto-g-power');
+      expect(profile).toBe(DEVICE_PROFILES['moto-g-power']);
+      expect(profile.formFactor).toBe('mobile');
+      expect(profile.viewport?.width).toBe(412);
+    });
+
+    it('should throw for unknown profile names', () => {
+      expect(() => resolveDeviceProfile('nokia-3310')).toThrow('Unknown device profile: nokia-3310');
+    });
+
+    it('should name custom profiles "custom" by default', () => {
+      const profile = resolveDeviceProfile({
+        formFactor: 'mobile',
+        viewport: { width: 360, height: 640, deviceScaleFactor: 2, mobile: true },
+        userAgent: 'TestAgent/1.0',
+      });
+      expect(profile.name).toBe('custom');
+      expect(profile.viewport?.deviceScaleFactor).toBe(2);
+      expect(profile.userAgent).toBe('TestAgent/1.0');
+    });
+
+    it('should keep the name of named custom profiles', () => {
+      const profile = resolveDeviceProfile({ name: 'kiosk', formFactor: 'desktop' });
+      expect(profile.name).toBe('kiosk');
+    });
+  });
+
+  describe('getLighthouseEmulation', () => {
+    it('should disable screen emulation for the native desktop profile', () => {
+      const flags = getLighthouseEmulation(DEVICE_PROFILES.desktop);
+      expect(flags).toEqual({
+        formFactor: 'desktop',
+        screenEmulation: { disabled: true },
+        emulatedUserAgent: false,
+      });
+    });
+
+    it('should pass viewport and user agent for mobile profiles', () => {
+      const flags = getLighthouseEmulation(DEVICE_PROFILES['iphone-class']);
+      expect(flags.formFactor).toBe('mobile');
+      expect(flags.screenEmulation).toEqual({
+        disabled: false,
+        width: 390,
+        height: 844,
+        deviceScaleFactor: 3,
+        mobile: true,
+      });
+      expect(flags.emulatedUserAgent).toContain('iPhone');
+    });
+  });
+
+  describe('isSameDevice', () => {
+    it('should treat missing profiles as desktop', () => {
+      expect(isSameDevice(undefined, DEVICE_PROFILES.desktop)).toBe(true);
+      expect(isSameDevice(undefined, undefined)).toBe(true);
+    });
+
+    it('should detect different profiles', () => {
+      expect(isSameDevice(DEVICE_PROFILES.desktop, DEVICE_PROFILES['moto-g-power'])).toBe(false);
+    });
+
+    it('should compare custom profiles by their settings', () => {
+      const a = resolveDeviceProfile({ formFactor: 'mobile', viewport: { width: 360, height: 640, deviceScaleFactor: 2, mobile: true } });
+      const b = resolveDeviceProfile({ formFactor: 'mobile', viewport: { width: 375, height: 640, deviceScaleFactor: 2, mobile: true } });
+      expect(isSameDevice(a, { ...a })).toBe(true);
+      expect(isSameDevice(a, b)).toBe(false);
+    });
+  });
+
+  describe('formatDevice', () => {
+    it('should describe viewport and pixel ratio', () => {
+      expect(formatDevice(DEVICE_PROFILES['moto-g-power'])).toBe('moto-g-power (412x823 @1.75x)');
+    });
+
+    it('should describe native viewport profiles', () => {
+      expect(formatDevice(undefined)).toBe('desktop (native viewport)');
+    });
+  });
+});
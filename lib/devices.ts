@@ -0,0 +1,114 @@
+/**
+ * Device emulation profiles
+ * Named profiles follow Lighthouse's own emulation presets where one exists
+ */
+
+import type { DeviceProfile, DeviceSetting } from './types.js';
+
+/**
+ * Default profile - matches how measurements were taken before profiles existed
+ */
+export const DEFAULT_DEVICE = 'desktop';
+
+/**
+ * Built-in device profiles
+ */
+export const DEVICE_PROFILES: Record<string, DeviceProfile> = {
+  // Native headless viewport, no emulation
+  desktop: {
+    name: 'desktop',
+    formFactor: 'desktop',
+  },
+  // Lighthouse's desktop preset
+  'desktop-1350': {
+    name: 'desktop-1350',
+    formFactor: 'desktop',
+    viewport: { width: 1350, height: 940, deviceScaleFactor: 1, mobile: false },
+    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36',
+  },
+  // Lighthouse's default mobile device
+  'moto-g-power': {
+    name: 'moto-g-power',
+    formFactor: 'mobile',
+    viewport: { width: 412, height: 823, deviceScaleFactor: 1.75, mobile: true },
+    userAgent: 'Mozilla/5.0 (Linux; Android 11; moto g power (2022)) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Mobile Safari/537.36',
+  },
+  // Recent iPhone viewport and user agent
+  'iphone-class': {
+    name: 'iphone-class',
+    formFactor: 'mobile',
+    viewport: { width: 390, height: 844, deviceScaleFactor: 3, mobile: true },
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+  },
+};
+
+/**
+ * Resolve a device setting (name or custom profile) to a full profile
+ * @throws Error if a named profile does not exist
+ */
+export function resolveDeviceProfile(setting?: DeviceSetting): DeviceProfile {
+  if (!setting) {
+    return DEVICE_PROFILES[DEFAULT_DEVICE];
+  }
+
+  if (typeof setting === 'string') {
+    const profile = DEVICE_PROFILES[setting];
+    if (!profile) {
+      throw new Error(`Unknown device profile: ${setting} (available: ${Object.keys(DEVICE_PROFILES).join(', ')})`);
+    }
+    return profile;
+  }
+
+  return { ...setting, name: setting.name || 'custom' };
+}
+
+/**
+ * Build the Lighthouse emulation flags for a device profile
+ */
+export function getLighthouseEmulation(profile: DeviceProfile): {
+  formFactor: 'mobile' | 'desktop';
+  screenEmulation: { disabled: true } | {
+    disabled: false;
+    width: number;
+    height: number;
+    deviceScaleFactor: number;
+    mobile: boolean;
+  };
+  emulatedUserAgent: string | false;
+} {
+  return {
+    formFactor: profile.formFactor,
+    screenEmulation: profile.viewport
+      ? { disabled: false, ...profile.viewport }
+      : { disabled: true },
+    emulatedUserAgent: profile.userAgent || false,
+  };
+}
+
+/**
+ * Check whether two summaries were measured with the same device profile
+ * Older summaries without a profile were always measured as desktop
+ */
+export function isSameDevice(a?: DeviceProfile, b?: DeviceProfile): boolean {
+  const left = a || DEVICE_PROFILES[DEFAULT_DEVICE];
+  const right = b || DEVICE_PROFILES[DEFAULT_DEVICE];
+  return left.name === right.name
+    && left.formFactor === right.formFactor
+    && left.userAgent === right.userAgent
+    && left.viewport?.width === right.viewport?.width
+    && left.viewport?.height === right.viewport?.height
+    && left.viewport?.deviceScaleFactor === right.viewport?.deviceScaleFactor
+    && left.viewport?.mobile === right.viewport?.mobile;
+}
+
+/**
+ * Short human-readable profile description (e.g., "moto-g-power (412x823 @1.75x)")
+ */
+export function formatDevice(profile?: DeviceProfile): string {
+  const resolved = profile || DEVICE_PROFILES[DEFAULT_DEVICE];
+  if (!resolved.viewport) {
+    return `${resolved.name} (native viewport)`;
+  }
+  const { width, height, deviceScaleFactor } = resolved.viewport;
+  return `${resolved.name} (${width}x${height} @${deviceScaleFactor}x)`;
+}
@@ -0,0 +1,106 @@
+import type { ComparisonReport } from './types.js';
+import { COMPARE_FORMATS, changeOutcome, formatComparison, formatPValue, inferCompareFormat } from './formats.js';
+import { describe, expect, it } from 'vitest';
+
+describe('formats', () => {
+  const report: ComparisonReport = {
+    before: { result: '2024-01-15T10-30-00', timestamp: '2024-01-15T10-30-00', url: 'https://example.com', runs: 5, note: 'main' },
+    after: { result: '2024-01-15T11-00-00', timestamp: '2024-01-15T11-00-00', url: 'https://example.com', runs: 5, note: 'a, "b" | c' },
+    aggregate: 'median',
+    comparisons: [
+      { metric: 'Performance Score', key: 'score', before: 80, after: 80, diff: 0, percentChange: 0, improved: false, pValue: 1, significant: false },
+      { metric: 'LCP (ms)', key: 'lcp', before: 2550, after: 2050, diff: -500, percentChange: -19.6078, improved: true, pValue: 0.0119, significant: true },
+      { metric: 'TBT (ms)', key: 'tbt', before: 150, after: 155, diff: 5, percentChange: 3.3333, improved: false, pValue: 0.4, significant: false },
+      { metric: 'Total Bytes (KB)', key: 'totalBytes', before: 512000, after: 614400, diff: 102400, percentChange: 20, improved: false, pValue: 0.0004, significant: true },
+    ],
+    significance: { alpha: 0.05, minEffectPercent: 1 },
+    warnings: ['Different throttling: default vs slow-4g'],
+  };
+
+  describe('changeOutcome', () => {
+    it('should tell unchanged, non-significant, improved and regressed metrics apart', () => {
+      expect(report.comparisons.map(changeOutcome)).toEqual(['unchanged', 'improved', 'not-significant', 'regressed']);
+      expect(changeOutcome({ ...report.comparisons[2], significant: undefined })).toBe('regressed');
+    });
+  });
+
+  describe('formatPValue', () => {
+    it('should show small p-values as a bound', () => {
+      expect(formatPValue(0.0004)).toBe('p<0.001');
+      expect(formatPValue(0.0119)).toBe('p=0.012');
+    });
+  });
+
+  describe('inferCompareFormat', () => {
+    it('should infer the format from the extension', () => {
+      expect(inferCompareFormat('out/comparison.JSON')).toBe('json');
+      expect(inferCompareFormat('comparison.csv')).toBe('csv');
+      expect(inferCompareFormat('comparison.md')).toBe('markdown');
+      expect(inferCompareFormat('comparison.txt')).toBe('markdown');
+    });
+
+    it('should only infer accepted formats', () => {
+      for (const file of ['a.json', 'a.csv', 'a.md']) {
+        expect(COMPARE_FORMATS).toContain(inferCompareFormat(file));
+      }
+    });
+  });
+
+  describe('formatComparison', () => {
+    it('should round-trip the report as JSON', () => {
+      expect(JSON.parse(formatComparison(report, 'json'))).toEqual(report);
+    });
+
+    it('should render a Markdown table with a result per metric', () => {
+      const markdown = formatComparison(report, 'markdown');
+      const lines = markdown.split('\n');
+
+      expect(lines[0]).toBe('### Performance comparison (Median)');
+      expect(markdown).toContain('> ⚠️ Different throttling: default vs slow-4g');
+      expect(markdown).toContain('**After:** `2024-01-15T11-00-00` (https://example.com, 5 runs, a, "b" \\| c)');
+      expect(lines).toContain('| Metric | Before | After | Change | p-value | Result |');
+      expect(lines).toContain('| Performance Score | 80 | 80 | 0 | p=1.000 | unchanged |');
+      expect(lines).toContain('| LCP (ms) | 2550 | 2050 | -500 (-19.6%) | p=0.012 | ✓ improved |');
+      expect(lines).toContain('| TBT (ms) | 150 | 155 | +5 (+3.3%) | p=0.400 | no significant change |');
+      expect(lines).toContain('| Total Bytes (KB) | 500 | 600 | +100 (+20.0%) | p<0.001 | ✗ regressed |');
+      expect(markdown).toContain('changes count at p < 0.05 and at least 1%');
+    });
+
+    it('should leave out the p-value column without per-run data', () => {
+      const markdown = formatComparison({
+        ...report,
+        comparisons: report.comparisons.map(({ pValue: _p, significant: _s, ...comp }) => comp),
+        significance: undefined,
+      }, 'markdown');
+
+      expect(markdown).toContain('| Metric | Before | After | Change | Result |');
+      expect(markdown).toContain('| TBT (ms) | 150 | 155 | +5 (+3.3%) | ✗ regressed |');
+      expect(markdown).not.toContain('Mann-Whitney');
+    });
+
+    it('should render CSV with raw values', () => {
+      const lines = formatComparison(report, 'csv').trim().split('\n');
+
+      expect(lines[0]).toBe('metric,key,before,after,diff,percent_change,p_value,significant,improved,outcome');
+      expect(lines[2]).toBe('LCP (ms),lcp,2550,2050,-500,-19.6078,0.0119,true,true,improved');
+      expect(lines[4]).toBe('Total Bytes (KB),totalBytes,512000,614400,102400,20,0.0004,true,false,regressed');
+    });
+
+    it('should quote CSV fields and leave missing values empty', () => {
+      const csv = formatComparison({
+        ...report,
+        comparisons: [{ metric: 'Score, mobile', key: 'score', before: 80, after: 90, diff: 10, percentChange: 12.5, improved: true }],
+      }, 'csv');
+
+      expect(csv.trim().split('\n')[1]).toBe('"Score, mobile",score,80,90,10,12.5,,,true,improved');
+    });
+
+    it('should show only the difference from a before value of 0', () => {
+      const fromZero = { ...report, comparisons: [{ metric: 'TBT (ms)', key: 'tbt' as const, before: 0, after: 200, diff: 200, percentChange: null, improved: false }] };
+
+      expect(formatComparison(fromZero, 'markdown')).toContain('| TBT (ms) | 0 | 200 | +200 | ✗ regressed |');
+      expect(formatComparison(fromZero, 'csv').trim().split('\n')[1]).toBe('TBT (ms),tbt,0,200,200,,,,false,regressed');
+      expect(JSON.parse(formatComparison(fromZero, 'json')).comparisons[0].percentChange).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Machine-readable output formats for comparisons
+ * Plain text without ANSI colors, for PR comments and scripts
+ */
+
+import type { CompareFormat, ComparisonReport, ComparisonResult, ComparisonSide, MetricKey } from './types.js';
+import { formatMetricValue } from './metrics.js';
+import { aggregateLabel } from './stats.js';
+
+/**
+ * Formats accepted by compare --format
+ */
+export const COMPARE_FORMATS: CompareFormat[] = ['text', 'json', 'markdown', 'csv'];
+
+/**
+ * Format a p-value for display
+ */
+export function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? 'p<0.001' : `p=${pValue.toFixed(3)}`;
+}
+
+/**
+ * Relative change for display ("+5.0%"), or the difference itself when there is no percentage (a before value of 0)
+ */
+export function formatRelativeChange(key: MetricKey, diff: number, percentChange: number | null): string {
+  const sign = diff > 0 ? '+' : '';
+  return percentChange === null ? `${sign}${formatMetricValue(key, diff)}` : `${sign}${percentChange.toFixed(1)}%`;
+}
+
+/**
+ * Change for display: the difference and its relative change ("+120 (+5.0%)"), or only the difference from a before value of 0
+ */
+export function formatChange(key: MetricKey, diff: number, percentChange: number | null): string {
+  const sign = diff > 0 ? '+' : '';
+  const absolute = `${sign}${formatMetricValue(key, diff)}`;
+  return percentChange === null ? absolute : `${absolute} (${sign}${percentChange.toFixed(1)}%)`;
+}
+
+/**
+ * Outcome of a compared metric
+ */
+export function changeOutcome(comp: ComparisonResult): 'improved' | 'regressed' | 'not-significant' | 'unchanged' {
+  if (comp.diff === 0) return 'unchanged';
+  if (comp.significant === false) return 'not-significant';
+  return comp.improved ? 'improved' : 'regressed';
+}
+
+/**
+ * Outcome of a compared metric, in words
+ */
+function describeChange(comp: ComparisonResult): string {
+  const labels = { improved: '✓ improved', regressed: '✗ regressed', 'not-significant': 'no significant change', unchanged: 'unchanged' };
+  return labels[changeOutcome(comp)];
+}
+
+/**
+ * Infer the format from an output file's extension (Markdown unless .json or .csv)
+ */
+export function inferCompareFormat(file: string): CompareFormat {
+  const lower = file.toLowerCase();
+  if (lower.endsWith('.json')) return 'json';
+  if (lower.endsWith('.csv')) return 'csv';
+  return 'markdown';
+}
+
+/**
+ * Comparison report as pretty-printed JSON
+ */
+export function formatComparisonJson(report: ComparisonReport): string {
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/**
+ * Escape a value for a Markdown table cell
+ */
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+/**
+ * Describe one side of a comparison for the Markdown header
+ */
+function describeSide(side: ComparisonSide): string {
+  const details = [side.url, `${side.runs} run${side.runs === 1 ? '' : 's'}`];
+  if (side.variant) details.push(`variant ${side.variant}`);
+  if (side.note) details.push(side.note);
+  return `\`${side.result}\` (${escapeMarkdown(details.join(', '))})`;
+}
+
+/**
+ * Comparison report as a Markdown table, e.g. for a PR comment
+ */
+export function formatComparisonMarkdown(report: ComparisonReport): string {
+  const tested = report.comparisons.some(c => c.pValue !== undefined);
+  const lines = [
+    `### Performance comparison (${aggregateLabel(report.aggregate)})`,
+    '',
+    `**Before:** ${describeSide(report.before)}  `,
+    `**After:** ${describeSide(report.after)}`,
+    '',
+  ];
+
+  for (const warning of report.warnings) {
+    lines.push(`> ⚠️ ${escapeMarkdown(warning)}`, '');
+  }
+
+  lines.push(
+    `| Metric | Before | After | Change |${tested ? ' p-value |' : ''} Result |`,
+    `| :--- | ---: | ---: | ---: |${tested ? ' ---: |' : ''} :--- |`
+  );
+  for (const comp of report.comparisons) {
+    const change = comp.diff === 0 ? '0' : formatChange(comp.key, comp.diff, comp.percentChange);
+    const pValue = comp.pValue === undefined ? '' : formatPValue(comp.pValue);
+    lines.push(
+      `| ${escapeMarkdown(comp.metric)} | ${formatMetricValue(comp.key, comp.before)} | ${formatMetricValue(comp.key, comp.after)} | ${change} |`
+        + `${tested ? ` ${pValue} |` : ''} ${describeChange(comp)} |`
+    );
+  }
+
+  if (report.significance) {
+    lines.push(
+      '',
+      `<sub>Mann-Whitney U test over ${report.before.runs} vs ${report.after.runs} runs; `
+        + `changes count at p < ${report.significance.alpha} and at least ${report.significance.minEffectPercent}%</sub>`
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Quote a CSV field when needed
+ */
+export function csvField(value: string | number | boolean | null | undefined): string {
+  if (value === undefined || value === null) return '';
+  const str = String(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Comparison report as CSV, one row per metric with raw (unrounded) values
+ */
+export function formatComparisonCsv(report: ComparisonReport): string {
+  const header = ['metric', 'key', 'before', 'after', 'diff', 'percent_change', 'p_value', 'significant', 'improved', 'outcome'];
+  const rows = report.comparisons.map(comp => [
+    comp.metric,
+    comp.key,
+    comp.before,
+    comp.after,
+    comp.diff,
+    comp.percentChange,
+    comp.pValue,
+    comp.significant,
+    comp.improved,
+    changeOutcome(comp),
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Render a comparison report in a machine-readable format
+ */
+export function formatComparison(report: ComparisonReport, format: Exclude<CompareFormat, 'text'>): string {
+  switch (format) {
+    case 'json':
+      return formatComparisonJson(report);
+    case 'markdown':
+      return formatComparisonMarkdown(report);
+    case 'csv':
+      return formatComparisonCsv(report);
+  }
+}
@@ -0,0 +1,208 @@
+import type { MeasurementSummary } from './types.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { existsSync, readFileSync, readdirSync } from 'fs';
+
+// Mock fs module
+vi.mock('fs', async () => {
+  const actual = await vi.importActual('fs');
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+    readFileSync: vi.fn(),
+    readdirSync: vi.fn(),
+  };
+});
+
+// Mock settings module
+vi.mock('./settings.js', () => ({
+  getResultsPath: vi.fn(() => '/mock/results'),
+  getJsonlLogPath: vi.fn(() => '/mock/results/measurements.jsonl'),
+}));
+
+// Mock results module
+vi.mock('./results.js', () => ({
+  loadSummary: vi.fn(),
+  loadPairedResult: vi.fn(),
+}));
+
+describe('history', () => {
+  const summaryAt = (timestamp: string, score: number): MeasurementSummary => ({
+    url: 'https://example.com',
+    runs: 3,
+    timestamp,
+    note: 'main',
+    overridesApplied: false,
+    averages: { score, fcp: 1200, lcp: 2500, tbt: 150, cls: 0.05, si: 1800 },
+    range: { minScore: score, maxScore: score },
+    rawScores: [score],
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(existsSync).mockReturnValue(true);
+  });
+
+  describe('readJsonl', () => {
+    it('should skip empty and malformed lines', async () => {
+      vi.mocked(readFileSync).mockReturnValue('{"a":1}\nnot json\n\n{"a":2}\n');
+
+      const { readJsonl } = await import('./history.js');
+
+      expect(readJsonl('/mock/results/measurements.jsonl')).toEqual([{ a: 1 }, { a: 2 }]);
+    });
+
+    it('should return nothing for a missing file', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      const { readJsonl } = await import('./history.js');
+
+      expect(readJsonl('/mock/results/missing.jsonl')).toEqual([]);
+      expect(readFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should list summaries and paired results, newest first', async () => {
+      vi.mocked(readdirSync).mockReturnValue(['2024-01-15T10-30-00', 'scenarios', '2024-01-15T11-00-00--ab'] as any);
+      vi.mocked(existsSync).mockImplementation(path => {
+        const p = String(path);
+        return p === '/mock/results' || p.endsWith('10-30-00/summary.json') || p.endsWith('--ab/paired.json');
+      });
+      const { loadPairedResult, loadSummary } = await import('./results.js');
+      vi.mocked(loadSummary).mockReturnValue(summaryAt('2024-01-15T10-30-00', 85));
+      vi.mocked(loadPairedResult).mockReturnValue({
+        timestamp: '2024-01-15T11-00-00',
+        validPairs: 5,
+        a: { url: 'https://example.com' },
+        b: { url: 'https://staging.example.com' },
+      } as any);
+
+      const { listSessions } = await import('./history.js');
+
+      expect(listSessions()).toEqual([
+        { id: '2024-01-15T11-00-00--ab', type: 'paired', timestamp: '2024-01-15T11-00-00', url: 'https://example.com vs https://staging.example.com', runs: 5 },
+        { id: '2024-01-15T10-30-00', type: 'summary', timestamp: '2024-01-15T10-30-00', url: 'https://example.com', note: 'main', runs: 3, score: 85 },
+      ]);
+    });
+  });
+
+  describe('listBatches', () => {
+    it('should read batches from the batch log, newest first', async () => {
+      vi.mocked(readFileSync).mockReturnValue('{"type":"batch","batchId":"a"}\n{"type":"batch","batchId":"b"}\n');
+
+      const { listBatches } = await import('./history.js');
+
+      expect(listBatches().map(b => b.batchId)).toEqual(['b', 'a']);
+      expect(readFileSync).toHaveBeenCalledWith('/mock/results/measurements.batch.jsonl', 'utf-8');
+    });
+  });
+
+  describe('loadScenarioHistory', () => {
+    it('should read the scenario log with headline metrics', async () => {
+      vi.mocked(readFileSync).mockReturnValue([
+        JSON.stringify({ ...summaryAt('2024-01-15T10-30-00', 80), loggedAt: '2024-01-15T10:31:00.000Z', scenarioId: 'Home Page' }),
+        JSON.stringify(summaryAt('2024-01-16T10-30-00', 90)),
+      ].join('\n'));
+
+      const { loadScenarioHistory } = await import('./history.js');
+
+      const history = loadScenarioHistory('Home Page');
+
+      expect(readFileSync).toHaveBeenCalledWith('/mock/results/scenarios/home-page.jsonl', 'utf-8');
+      expect(history[0]).toEqual({
+        timestamp: '2024-01-15T10-30-00',
+        loggedAt: '2024-01-15T10:31:00.000Z',
+        url: 'https://example.com',
+        note: 'main',
+        scenarioId: 'Home Page',
+        runs: 3,
+        overridesApplied: false,
+        metrics: { score: 80, fcp: 1200, lcp: 2500, tbt: 150, cls: 0.05, si: 1800 },
+      });
+      expect(history[1].metrics.score).toBe(90);
+    });
+  });
+
+  describe('loadUrlHistory', () => {
+    it('should read the URL\'s measurements from the main log', async () => {
+      vi.mocked(readFileSync).mockReturnValue([
+        JSON.stringify(summaryAt('2024-01-15T10-30-00', 80)),
+        JSON.stringify({ ...summaryAt('2024-01-15T11-00-00', 70), url: 'https://example.com/shop' }),
+        JSON.stringify(summaryAt('2024-01-16T10-30-00', 90)),
+      ].join('\n'));
+
+      const { loadUrlHistory } = await import('./history.js');
+
+      const history = loadUrlHistory('https://example.com');
+
+      expect(readFileSync).toHaveBeenCalledWith('/mock/results/measurements.jsonl', 'utf-8');
+      expect(history.map(e => e.metrics.score)).toEqual([80, 90]);
+    });
+  });
+
+  describe('findHistory', () => {
+    it('should read URLs from the main log', async () => {
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(summaryAt('2024-01-15T10-30-00', 80)));
+
+      const { findHistory } = await import('./history.js');
+
+      expect(findHistory('https://example.com')?.source).toBe('url');
+      expect(readFileSync).toHaveBeenCalledWith('/mock/results/measurements.jsonl', 'utf-8');
+    });
+
+    it('should prefer a scenario log over a tag log', async () => {
+      vi.mocked(existsSync).mockImplementation(path => String(path).includes('/tags/'));
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(summaryAt('2024-01-15T10-30-00', 80)));
+
+      const { findHistory } = await import('./history.js');
+
+      expect(findHistory('Critical')?.source).toBe('tag');
+
+      vi.mocked(existsSync).mockReturnValue(true);
+      expect(findHistory('Critical')?.source).toBe('scenario');
+      expect(readFileSync).toHaveBeenLastCalledWith('/mock/results/scenarios/critical.jsonl', 'utf-8');
+    });
+
+    it('should return null without a log', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      const { findHistory } = await import('./history.js');
+
+      expect(findHistory('unknown')).toBeNull();
+    });
+  });
+
+  describe('getResultId', () => {
+    it('should name results like saveResults, with tags and scenario', async () => {
+      const { getResultId } = await import('./history.js');
+      const entry = { timestamp: '2024-01-15T10-30-00', url: 'https://example.com', runs: 1, metrics: summaryAt('x', 80).averages };
+
+      expect(getResultId(entry)).toBe('2024-01-15T10-30-00');
+      expect(getResultId({ ...entry, tags: ['production', 'critical'], scenarioId: 'homepage' }))
+        .toBe('production-critical--homepage--2024-01-15T10-30-00');
+    });
+  });
+
+  describe('getEntryTime', () => {
+    it('should use loggedAt, or the UTC session timestamp', async () => {
+      const { getEntryTime } = await import('./history.js');
+      const entry = { timestamp: '2024-01-15T10-30-00', url: 'https://example.com', runs: 1, metrics: summaryAt('x', 80).averages };
+
+      expect(getEntryTime(entry).toISOString()).toBe('2024-01-15T10:30:00.000Z');
+      expect(getEntryTime({ ...entry, loggedAt: '2024-01-15T10:31:05.000Z' }).toISOString()).toBe('2024-01-15T10:31:05.000Z');
+    });
+  });
+
+  describe('parseSince', () => {
+    it('should parse dates and ages', async () => {
+      const { parseSince } = await import('./history.js');
+      const now = new Date('2024-01-15T12:00:00.000Z');
+
+      expect(parseSince('2024-01-10', now)?.toISOString()).toBe('2024-01-10T00:00:00.000Z');
+      expect(parseSince('7d', now)?.toISOString()).toBe('2024-01-08T12:00:00.000Z');
+      expect(parseSince('12h', now)?.toISOString()).toBe('2024-01-15T00:00:00.000Z');
+      expect(parseSince('2w', now)?.toISOString()).toBe('2024-01-01T12:00:00.000Z');
+      expect(parseSince('yesterday', now)).toBeNull();
+    });
+  });
+});
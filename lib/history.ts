@@ -0,0 +1,212 @@
+/**
+ * Read access to saved sessions and JSONL logs
+ * Used by the hub and other views over past results
+ */
+
+import type { Aggregate, BatchResult, HistoryEntry, HistorySource, MeasurementSummary, SessionInfo } from './types.js';
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { getJsonlLogPath, getResultsPath } from './settings.js';
+import { getHeadlineMetrics } from './stats.js';
+import { join } from 'path';
+import { loadPairedResult, loadSummary } from './results.js';
+
+/**
+ * Log file of a scenario or tag, named like saveResults names them
+ */
+function getHistoryLogPath(source: 'scenario' | 'tag', name: string): string {
+  const safeName = name.replace(/[^a-zA-Z0-9-_]/g, '-').toLowerCase();
+  return join(getResultsPath(), source === 'scenario' ? 'scenarios' : 'tags', `${safeName}.jsonl`);
+}
+
+/**
+ * Every parseable line of a JSONL file (empty when the file is missing)
+ */
+export function readJsonl<T>(path: string): T[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const entries: T[] = [];
+  for (const line of readFileSync(path, 'utf-8').split('\n').filter(Boolean)) {
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Ignore malformed lines
+    }
+  }
+  return entries;
+}
+
+/**
+ * Saved sessions in the results directory, newest first
+ * @param aggregate - Which aggregate the score shows (default: mean)
+ */
+export function listSessions(aggregate: Aggregate = 'mean'): SessionInfo[] {
+  const resultsDir = getResultsPath();
+  if (!existsSync(resultsDir)) {
+    return [];
+  }
+
+  const sessions: SessionInfo[] = [];
+  for (const id of readdirSync(resultsDir).sort().reverse()) {
+    const summary = existsSync(join(resultsDir, id, 'summary.json')) ? loadSummary(id) : null;
+    if (summary) {
+      sessions.push({
+        id,
+        type: 'summary',
+        timestamp: summary.timestamp,
+        url: summary.url,
+        ...(summary.note && { note: summary.note }),
+        runs: summary.runs,
+        score: getHeadlineMetrics(summary, aggregate).score,
+        ...(summary.variant && { variant: summary.variant }),
+      });
+      continue;
+    }
+
+    const paired = existsSync(join(resultsDir, id, 'paired.json')) ? loadPairedResult(id) : null;
+    if (paired) {
+      sessions.push({
+        id,
+        type: 'paired',
+        timestamp: paired.timestamp,
+        url: paired.a.url === paired.b.url ? paired.a.url : `${paired.a.url} vs ${paired.b.url}`,
+        ...(paired.note && { note: paired.note }),
+        runs: paired.validPairs,
+      });
+    }
+  }
+  return sessions;
+}
+
+/**
+ * Batches from the batch JSONL log (measurements.batch.jsonl), newest first
+ */
+export function listBatches(): BatchResult[] {
+  const batchLogPath = getJsonlLogPath().replace('.jsonl', '.batch.jsonl');
+  return readJsonl<BatchResult & { type?: string }>(batchLogPath)
+    .filter(entry => entry.type === 'batch')
+    .reverse();
+}
+
+/**
+ * Scenario logs in the results directory (scenarios/*.jsonl) with their number of measurements
+ */
+export function listScenarioLogs(): Array<{ id: string; measurements: number }> {
+  const scenariosDir = join(getResultsPath(), 'scenarios');
+  if (!existsSync(scenariosDir)) {
+    return [];
+  }
+
+  return readdirSync(scenariosDir)
+    .filter(file => file.endsWith('.jsonl'))
+    .sort()
+    .map(file => ({
+      id: file.replace('.jsonl', ''),
+      measurements: readJsonl(join(scenariosDir, file)).length,
+    }));
+}
+
+/**
+ * A logged measurement with its headline metrics
+ */
+export function toHistoryEntry(
+  logged: MeasurementSummary & { loggedAt?: string; scenarioId?: string; tags?: string[] },
+  aggregate: Aggregate = 'mean'
+): HistoryEntry {
+  return {
+    timestamp: logged.timestamp,
+    ...(logged.loggedAt && { loggedAt: logged.loggedAt }),
+    url: logged.url,
+    ...(logged.note && { note: logged.note }),
+    ...(logged.scenarioId && { scenarioId: logged.scenarioId }),
+    ...(logged.tags && { tags: logged.tags }),
+    runs: logged.runs,
+    ...(logged.overridesApplied !== undefined && { overridesApplied: logged.overridesApplied }),
+    ...(logged.variant && { variant: logged.variant }),
+    metrics: getHeadlineMetrics(logged, aggregate),
+  };
+}
+
+/**
+ * A scenario's measurements from its log (scenarios/<id>.jsonl), oldest first
+ * @param scenarioId - Scenario ID, or the log's file name without .jsonl
+ * @param aggregate - Which aggregate the metrics show (default: mean)
+ */
+export function loadScenarioHistory(scenarioId: string, aggregate: Aggregate = 'mean'): HistoryEntry[] {
+  return readJsonl<MeasurementSummary>(getHistoryLogPath('scenario', scenarioId)).map(logged => toHistoryEntry(logged, aggregate));
+}
+
+/**
+ * A tag's measurements from its log (tags/<tag>.jsonl), oldest first
+ * @param aggregate - Which aggregate the metrics show (default: mean)
+ */
+export function loadTagHistory(tag: string, aggregate: Aggregate = 'mean'): HistoryEntry[] {
+  return readJsonl<MeasurementSummary>(getHistoryLogPath('tag', tag)).map(logged => toHistoryEntry(logged, aggregate));
+}
+
+/**
+ * Measurements of a URL from the main log (measurements.jsonl), oldest first
+ * @param aggregate - Which aggregate the metrics show (default: mean)
+ */
+export function loadUrlHistory(url: string, aggregate: Aggregate = 'mean'): HistoryEntry[] {
+  return readJsonl<MeasurementSummary>(getJsonlLogPath())
+    .filter(logged => logged.url === url)
+    .map(logged => toHistoryEntry(logged, aggregate));
+}
+
+/**
+ * The history of a scenario ID, tag or URL, oldest first
+ * URLs are read from the main log; otherwise a scenario log is preferred over a tag log of the same name
+ * @returns null when there is no log for the target
+ */
+export function findHistory(
+  target: string,
+  aggregate: Aggregate = 'mean'
+): { source: HistorySource; entries: HistoryEntry[] } | null {
+  if (/^https?:\/\//.test(target)) {
+    return { source: 'url', entries: loadUrlHistory(target, aggregate) };
+  }
+  if (existsSync(getHistoryLogPath('scenario', target))) {
+    return { source: 'scenario', entries: loadScenarioHistory(target, aggregate) };
+  }
+  if (existsSync(getHistoryLogPath('tag', target))) {
+    return { source: 'tag', entries: loadTagHistory(target, aggregate) };
+  }
+  return null;
+}
+
+/**
+ * Result directory of a logged measurement, named like saveResults names it
+ */
+export function getResultId(entry: HistoryEntry): string {
+  return entry.tags && entry.tags.length > 0
+    ? `${entry.tags.join('-')}--${entry.scenarioId || 'adhoc'}--${entry.timestamp}`
+    : entry.timestamp;
+}
+
+/**
+ * When a history entry was measured
+ * Older entries without loggedAt fall back to their timestamp (e.g., 2024-01-15T10-30-00)
+ */
+export function getEntryTime(entry: HistoryEntry): Date {
+  if (entry.loggedAt) {
+    return new Date(entry.loggedAt);
+  }
+  const match = entry.timestamp.match(/^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})/);
+  return new Date(match ? `${match[1]}T${match[2]}:${match[3]}:${match[4]}Z` : entry.timestamp);
+}
+
+/**
+ * Parse a --since value: a date (2024-01-15, ISO timestamp) or an age like 7d, 12h or 30m
+ * @returns null when the value is neither
+ */
+export function parseSince(value: string, now: Date = new Date()): Date | null {
+  const age = value.match(/^(\d+)([mhdw])$/);
+  if (age) {
+    const minutes = { m: 1, h: 60, d: 60 * 24, w: 60 * 24 * 7 }[age[2] as 'm' | 'h' | 'd' | 'w'];
+    return new Date(now.getTime() - parseInt(age[1], 10) * minutes * 60 * 1000);
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
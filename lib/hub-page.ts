@@ -0,0 +1,189 @@
+/**
+ * The hub's single-page UI
+ * Plain HTML, CSS and JavaScript reading the hub's JSON API - no external assets
+ */
+
+import { METRICS } from './metrics.js';
+
+/**
+ * Page styles, shared with the static HTML reports
+ */
+export const PAGE_STYLES = `
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+  header { background: #24292f; color: #fff; padding: 12px 24px; }
+  header a { color: #fff; text-decoration: none; font-weight: 600; }
+  main { max-width: 1100px; margin: 0 auto; padding: 16px 24px; }
+  section { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 12px 16px; margin-bottom: 16px; }
+  h2 { font-size: 16px; margin: 0 0 8px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #eaeef2; white-space: nowrap; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .good { color: #1a7f37; } .warn { color: #9a6700; } .bad { color: #cf222e; } .muted { color: #656d76; }
+  .charts { display: grid; grid-template-columns: repeat(auto-fill, minmax(320px, 1fr)); gap: 12px; }
+  .chart h3 { font-size: 13px; margin: 0 0 4px; }
+  svg { width: 100%; height: 140px; background: #fbfcfd; border: 1px solid #eaeef2; }
+  button { font: inherit; padding: 4px 12px; }
+`;
+
+// Expects METRIC_DEFINITIONS (METRICS from lib/metrics.ts) to be defined before it
+const SCRIPT = `
+  const app = document.getElementById('app');
+  const esc = value => String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+  const api = async path => {
+    const res = await fetch('/api/' + path);
+    if (!res.ok) throw new Error((await res.json()).error || res.statusText);
+    return res.json();
+  };
+  const scoreClass = score => score === undefined ? 'muted' : score >= 90 ? 'good' : score >= 50 ? 'warn' : 'bad';
+  const METRICS = Object.fromEntries(METRIC_DEFINITIONS.map(m => [m.key, m]));
+  // Rounded like formatMetricValue, bytes shown as KB
+  const fmt = (key, value) => {
+    if (value === undefined) return '-';
+    const { unit, decimals } = METRICS[key];
+    const display = unit === 'KB' ? value / 1024 : value;
+    return (decimals > 0 ? display.toFixed(decimals) : String(Math.round(display))) + (unit === 'KB' ? ' KB' : '');
+  };
+  const present = rows => METRIC_DEFINITIONS.map(m => m.key).filter(key => rows.some(row => typeof row[key] === 'number'));
+
+  function chart(title, points) {
+    if (points.length === 0) return '';
+    const w = 320, h = 140, pad = 24;
+    const values = points.map(p => p.value);
+    const min = Math.min(...values), max = Math.max(...values), span = max - min || 1;
+    const x = i => points.length === 1 ? w / 2 : pad + (i * (w - 2 * pad)) / (points.length - 1);
+    const y = v => h - pad - ((v - min) * (h - 2 * pad)) / span;
+    const line = points.map((p, i) => (i ? 'L' : 'M') + x(i).toFixed(1) + ' ' + y(p.value).toFixed(1)).join(' ');
+    const dots = points.map((p, i) => '<circle cx="' + x(i).toFixed(1) + '" cy="' + y(p.value).toFixed(1) + '" r="3" fill="#0969da"><title>' + esc(p.label) + ': ' + esc(p.display) + '</title></circle>').join('');
+    return '<div class="chart"><h3>' + esc(title) + '</h3><svg viewBox="0 0 ' + w + ' ' + h + '" preserveAspectRatio="none">'
+      + '<text x="2" y="12" font-size="10" fill="#656d76">' + esc(points[0].format(max)) + '</text>'
+      + '<text x="2" y="' + (h - 4) + '" font-size="10" fill="#656d76">' + esc(points[0].format(min)) + '</text>'
+      + '<path d="' + line + '" fill="none" stroke="#0969da" stroke-width="1.5"/>' + dots + '</svg></div>';
+  }
+
+  async function home() {
+    const [sessions, batches, scenarios] = await Promise.all([api('sessions'), api('batches'), api('scenarios')]);
+    app.innerHTML =
+      '<section><h2>Sessions</h2><p class="muted">Select two sessions to compare them.</p>'
+      + '<button id="compare" disabled>Compare selected</button><table><tr><th></th><th>Session</th><th>URL</th><th>Note</th><th class="num">Runs</th><th class="num">Score</th></tr>'
+      + sessions.map(s => '<tr><td>' + (s.type === 'summary' ? '<input type="checkbox" value="' + esc(s.id) + '">' : '') + '</td>'
+        + '<td><a href="#/session/' + encodeURIComponent(s.id) + '">' + esc(s.id) + '</a>' + (s.type === 'paired' ? ' <span class="muted">(A/B)</span>' : '') + '</td>'
+        + '<td>' + esc(s.url) + '</td><td>' + esc(s.note || '') + (s.variant ? ' <span class="muted">[' + esc(s.variant) + ']</span>' : '') + '</td>'
+        + '<td class="num">' + s.runs + '</td><td class="num ' + scoreClass(s.score) + '">' + (s.score === undefined ? '-' : Math.round(s.score)) + '</td></tr>').join('')
+      + '</table></section>'
+      + '<section><h2>Batches</h2><table><tr><th>Batch</th><th>Scenarios</th><th class="num">Failed</th><th class="num">Duration</th></tr>'
+      + batches.map(b => '<tr><td>' + esc(b.batchId) + (b.tags && b.tags.length ? ' <span class="muted">' + esc(b.tags.join(', ')) + '</span>' : '') + '</td><td>'
+        + b.results.map(r => '<a href="#/scenario/' + encodeURIComponent(r.id) + '" class="' + (r.error ? 'bad' : scoreClass(r.score)) + '" title="' + esc(r.error || '') + '">'
+          + esc(r.id) + ' ' + (r.error ? 'failed' : r.score === undefined ? '-' : Math.round(r.score)) + '</a>').join(', ')
+        + '</td><td class="num ' + (b.failed ? 'bad' : '') + '">' + b.failed + '</td><td class="num">' + (b.duration / 1000).toFixed(1) + 's</td></tr>').join('')
+      + '</table></section>'
+      + '<section><h2>Scenario History</h2><table><tr><th>Scenario</th><th class="num">Measurements</th></tr>'
+      + scenarios.map(s => '<tr><td><a href="#/scenario/' + encodeURIComponent(s.id) + '">' + esc(s.id) + '</a></td><td class="num">' + s.measurements + '</td></tr>').join('')
+      + '</table></section>';
+
+    const button = document.getElementById('compare');
+    const selected = () => [...app.querySelectorAll('input[type=checkbox]:checked')].map(el => el.value);
+    // The sessions section is rendered on every visit, so its listener goes with it
+    button.closest('section').addEventListener('change', () => { button.disabled = selected().length !== 2; });
+    // Oldest selected session is the "before" side
+    button.addEventListener('click', () => {
+      const [after, before] = selected();
+      location.hash = '#/compare/' + encodeURIComponent(before) + '/' + encodeURIComponent(after);
+    });
+  }
+
+  async function session(id) {
+    const result = await api('sessions/' + encodeURIComponent(id));
+    if (result.type === 'paired') {
+      app.innerHTML = '<section><h2>A/B ' + esc(id) + '</h2><p>' + esc(result.a.label) + ' vs ' + esc(result.b.label) + ' - ' + result.validPairs + ' pairs, verdict: <b>' + esc(result.verdict) + '</b></p>'
+        + '<table><tr><th>Metric</th><th class="num">A</th><th class="num">B</th><th class="num">B - A</th><th class="num">95% CI</th><th>Verdict</th></tr>'
+        + result.deltas.map(d => '<tr><td>' + esc(d.metric) + '</td><td class="num">' + fmt(d.key, d.a) + '</td><td class="num">' + fmt(d.key, d.b) + '</td>'
+          + '<td class="num">' + fmt(d.key, d.meanDelta) + '</td><td class="num">[' + fmt(d.key, d.ciLow) + ', ' + fmt(d.key, d.ciHigh) + ']</td>'
+          + '<td class="' + (d.verdict === 'improved' ? 'good' : d.verdict === 'regressed' ? 'bad' : 'muted') + '">' + esc(d.verdict) + '</td></tr>').join('')
+        + '</table></section>';
+      return;
+    }
+
+    const runs = (result.runResults || []).filter(r => r.metrics);
+    const keys = present([result.averages]);
+    app.innerHTML = '<section><h2>' + esc(id) + '</h2><p>' + esc(result.url) + (result.note ? ' - ' + esc(result.note) : '') + '<br><span class="muted">'
+      + result.runs + ' runs' + (result.device ? ', ' + esc(result.device.name) : '') + (result.throttling ? ', ' + esc(result.throttling.name || result.throttling.method) : '')
+      + (result.variant ? ', variant ' + esc(result.variant) : '') + '</span></p>'
+      + '<table><tr><th>Metric</th><th class="num">Mean</th><th class="num">Median</th><th class="num">P75</th><th class="num">Min</th><th class="num">Max</th></tr>'
+      + keys.map(key => {
+        const s = result.stats && result.stats[key];
+        return '<tr><td>' + esc(METRICS[key].label) + '</td><td class="num">' + fmt(key, result.averages[key]) + '</td>'
+          + ['median', 'p75', 'min', 'max'].map(stat => '<td class="num">' + (s ? fmt(key, s[stat]) : '-') + '</td>').join('') + '</tr>';
+      }).join('')
+      + '</table></section>'
+      + (runs.length ? '<section><h2>Runs</h2><table><tr><th>Run</th>' + keys.map(k => '<th class="num">' + esc(METRICS[k].short) + '</th>').join('') + '</tr>'
+        + runs.map(r => '<tr><td>' + r.run + '</td>' + keys.map(k => '<td class="num">' + fmt(k, r.metrics[k]) + '</td>').join('') + '</tr>').join('') + '</table></section>' : '')
+      + (result.reports && result.reports.length ? '<section><h2>Lighthouse Reports</h2>'
+        + result.reports.map(r => '<a href="/files/' + encodeURIComponent(id) + '/' + encodeURIComponent(r.html) + '" target="_blank">Run ' + r.run + '</a>').join(' &middot; ') + '</section>' : '');
+  }
+
+  async function scenario(id) {
+    const [history, sessions] = await Promise.all([api('scenarios/' + encodeURIComponent(id)), api('sessions')]);
+    const byTimestamp = new Map(sessions.map(s => [s.timestamp, s.id]));
+    const keys = present(history.map(h => h.metrics));
+    app.innerHTML = '<section><h2>' + esc(id) + '</h2><div class="charts">'
+      + keys.map(key => chart(METRICS[key].label, history.map(h => ({ value: h.metrics[key], label: h.timestamp, display: fmt(key, h.metrics[key]), format: v => fmt(key, v) })))).join('')
+      + '</div></section><section><h2>Measurements</h2><table><tr><th>Session</th><th>Note</th>' + keys.map(k => '<th class="num">' + esc(METRICS[k].short) + '</th>').join('') + '</tr>'
+      + history.slice().reverse().map(h => {
+        const sessionId = byTimestamp.get(h.timestamp);
+        return '<tr><td>' + (sessionId ? '<a href="#/session/' + encodeURIComponent(sessionId) + '">' + esc(h.timestamp) + '</a>' : esc(h.timestamp)) + '</td><td>' + esc(h.note || '') + '</td>'
+          + keys.map(k => '<td class="num">' + fmt(k, h.metrics[k]) + '</td>').join('') + '</tr>';
+      }).join('')
+      + '</table></section>';
+  }
+
+  async function compare(before, after) {
+    const report = await api('compare?a=' + encodeURIComponent(before) + '&b=' + encodeURIComponent(after));
+    const outcome = c => c.diff === 0 ? ['unchanged', 'muted'] : c.significant === false ? ['no significant change', 'muted'] : c.improved ? ['improved', 'good'] : ['regressed', 'bad'];
+    app.innerHTML = '<section><h2>Comparison</h2><p><b>Before:</b> <a href="#/session/' + encodeURIComponent(before) + '">' + esc(before) + '</a> (' + esc(report.before.url) + ')<br>'
+      + '<b>After:</b> <a href="#/session/' + encodeURIComponent(after) + '">' + esc(after) + '</a> (' + esc(report.after.url) + ')</p>'
+      + report.warnings.map(w => '<p class="warn">' + esc(w) + '</p>').join('')
+      + '<table><tr><th>Metric</th><th class="num">Before</th><th class="num">After</th><th class="num">Change</th><th class="num">p-value</th><th>Result</th></tr>'
+      + report.comparisons.map(c => {
+        const [text, cls] = outcome(c);
+        return '<tr><td>' + esc(c.metric) + '</td><td class="num">' + fmt(c.key, c.before) + '</td><td class="num">' + fmt(c.key, c.after) + '</td>'
+          + '<td class="num ' + cls + '">' + (c.diff > 0 ? '+' : '') + (c.percentChange === null ? fmt(c.key, c.diff) : c.percentChange.toFixed(1) + '%') + '</td>'
+          + '<td class="num">' + (c.pValue === undefined ? '-' : c.pValue.toFixed(3)) + '</td><td class="' + cls + '">' + text + '</td></tr>';
+      }).join('')
+      + '</table></section>';
+  }
+
+  async function route() {
+    const [, view, ...params] = location.hash.replace(/^#/, '').split('/').map(decodeURIComponent);
+    try {
+      if (view === 'session') await session(params[0]);
+      else if (view === 'scenario') await scenario(params[0]);
+      else if (view === 'compare') await compare(params[0], params[1]);
+      else await home();
+    } catch (e) {
+      app.innerHTML = '<section class="bad">' + esc(e.message) + '</section>';
+    }
+  }
+
+  window.addEventListener('hashchange', route);
+  route();
+`;
+
+/**
+ * Render the hub page
+ */
+export function renderHubPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Webperf Hub</title>
+<style>${PAGE_STYLES}</style>
+</head>
+<body>
+<header><a href="#/">Webperf Hub</a></header>
+<main id="app">Loading...</main>
+<script>const METRIC_DEFINITIONS = ${JSON.stringify(METRICS).replace(/</g, '\\u003c')};${SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,121 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Mock settings module
+vi.mock('./settings.js', () => ({
+  getResultsPath: vi.fn(() => '/mock/results'),
+}));
+
+// Mock history module
+vi.mock('./history.js', () => ({
+  listSessions: vi.fn(() => []),
+  listBatches: vi.fn(() => []),
+  listScenarioLogs: vi.fn(() => []),
+  loadScenarioHistory: vi.fn(() => []),
+}));
+
+// Mock results module
+vi.mock('./results.js', () => ({
+  buildComparisonReport: vi.fn(),
+  loadPairedResult: vi.fn(),
+  loadSummary: vi.fn(),
+}));
+
+describe('hub', () => {
+  /**
+   * Run a request through the handler and capture the response
+   */
+  async function request(url: string, method = 'GET') {
+    const { createHubHandler } = await import('./hub.js');
+    const response = { status: 0, headers: {} as Record<string, string>, body: '' };
+    const res = {
+      writeHead: (status: number, headers: Record<string, string>) => {
+        response.status = status;
+        response.headers = headers;
+      },
+      end: (body: string | Buffer) => {
+        response.body = String(body);
+      },
+    } as unknown as ServerResponse;
+
+    createHubHandler()({ url, method } as IncomingMessage, res);
+    return response;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should serve the dashboard page', async () => {
+    const response = await request('/');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['Content-Type']).toContain('text/html');
+    expect(response.body).toContain('<!DOCTYPE html>');
+  });
+
+  it('should give the page the metric definitions', async () => {
+    const { METRICS } = await import('./metrics.js');
+    const response = await request('/');
+
+    const definitions = response.body.match(/const METRIC_DEFINITIONS = (.*?);/)![1];
+    expect(JSON.parse(definitions)).toEqual(METRICS);
+  });
+
+  it('should list sessions as JSON', async () => {
+    const { listSessions } = await import('./history.js');
+    vi.mocked(listSessions).mockReturnValue([
+      { id: '2024-01-15T10-30-00', type: 'summary', timestamp: '2024-01-15T10-30-00', url: 'https://example.com', runs: 3, score: 85 },
+    ]);
+
+    const response = await request('/api/sessions');
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body)).toHaveLength(1);
+    expect(listSessions).toHaveBeenCalledWith('mean');
+  });
+
+  it('should return 404 for a missing session', async () => {
+    const { loadPairedResult, loadSummary } = await import('./results.js');
+    vi.mocked(loadSummary).mockReturnValue(null);
+    vi.mocked(loadPairedResult).mockReturnValue(null);
+
+    const response = await request('/api/sessions/2024-01-15T10-30-00');
+
+    expect(response.status).toBe(404);
+    expect(JSON.parse(response.body).error).toBe('Session not found: 2024-01-15T10-30-00');
+  });
+
+  it('should compare two sessions', async () => {
+    const { buildComparisonReport } = await import('./results.js');
+    vi.mocked(buildComparisonReport).mockReturnValue({ comparisons: [] } as any);
+
+    const response = await request('/api/compare?a=before&b=after');
+
+    expect(response.status).toBe(200);
+    expect(buildComparisonReport).toHaveBeenCalledWith('before', 'after', 'mean', undefined);
+  });
+
+  it('should reject paths outside the results directory', async () => {
+    const { buildComparisonReport } = await import('./results.js');
+
+    expect((await request('/files/..%2F..%2Fetc/passwd')).status).toBe(404);
+    expect((await request('/api/compare?a=../x&b=after')).status).toBe(404);
+    expect(buildComparisonReport).not.toHaveBeenCalled();
+  });
+
+  it('should only answer GET requests', async () => {
+    expect((await request('/api/sessions', 'POST')).status).toBe(405);
+  });
+
+  it('should return 404 for unknown routes', async () => {
+    expect((await request('/api/unknown')).status).toBe(404);
+  });
+
+  it('should answer malformed paths with 400 instead of throwing', async () => {
+    const response = await request('/api/sessions/%E0%A4%A');
+
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.body).error).toBe('Malformed path: /api/sessions/%E0%A4%A');
+  });
+});
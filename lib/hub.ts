@@ -0,0 +1,155 @@
+/**
+ * Local results dashboard (hub command)
+ * A small HTTP server over the results directory - sessions, batches, scenario history and comparisons
+ */
+
+import type { Aggregate, SignificanceConfig } from './types.js';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { extname, join, resolve, sep } from 'path';
+import { listBatches, listScenarioLogs, listSessions, loadScenarioHistory } from './history.js';
+import { buildComparisonReport, loadPairedResult, loadSummary } from './results.js';
+import { createServer } from 'http';
+import { getHeadlineMetrics } from './stats.js';
+import { getResultsPath } from './settings.js';
+import { renderHubPage } from './hub-page.js';
+
+/**
+ * Default hub port
+ */
+export const DEFAULT_HUB_PORT = 4700;
+
+/**
+ * Options for the hub server
+ */
+export interface HubOptions {
+  port?: number;
+  /** Interface to listen on (default: 127.0.0.1, only reachable from this machine) */
+  host?: string;
+  /** Which aggregate scores and metrics show (default: mean) */
+  aggregate?: Aggregate;
+  significance?: SignificanceConfig;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+};
+
+/**
+ * Session directories and scenario IDs are single path segments
+ */
+function isSafeSegment(value: string): boolean {
+  return /^[\w.-]+$/.test(value) && value !== '.' && value !== '..';
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': CONTENT_TYPES['.json'] });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Serve a file from a session directory (e.g., a saved Lighthouse report)
+ */
+function sendSessionFile(res: ServerResponse, sessionId: string, file: string): void {
+  const resultsDir = resolve(getResultsPath());
+  const filePath = resolve(resultsDir, sessionId, file);
+
+  // Stay inside the session directory
+  if (!isSafeSegment(sessionId) || !filePath.startsWith(join(resultsDir, sessionId) + sep)
+    || !existsSync(filePath) || !statSync(filePath).isFile()) {
+    sendJson(res, 404, { error: `File not found: ${sessionId}/${file}` });
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(filePath)] || 'application/octet-stream' });
+  res.end(readFileSync(filePath));
+}
+
+/**
+ * Create the hub's request handler
+ * Every response is read from the results directory on request, so new results show up on reload
+ */
+export function createHubHandler(options: HubOptions = {}): (req: IncomingMessage, res: ServerResponse) => void {
+  const aggregate = options.aggregate || 'mean';
+
+  return (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: 'Only GET is supported' });
+      return;
+    }
+
+    let segments: string[];
+    try {
+      segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch {
+      sendJson(res, 400, { error: `Malformed path: ${url.pathname}` });
+      return;
+    }
+    const [area, ...rest] = segments;
+    const [resource, id] = area === 'api' ? rest : [];
+
+    try {
+      if (!area) {
+        res.writeHead(200, { 'Content-Type': CONTENT_TYPES['.html'] });
+        res.end(renderHubPage());
+      } else if (area === 'files' && rest.length >= 2) {
+        sendSessionFile(res, rest[0], rest.slice(1).join('/'));
+      } else if (resource === 'sessions' && !id) {
+        sendJson(res, 200, listSessions(aggregate));
+      } else if (resource === 'sessions') {
+        const result = isSafeSegment(id) ? loadSummary(id) || loadPairedResult(id) : null;
+        if (result) {
+          sendJson(res, 200, result);
+        } else {
+          sendJson(res, 404, { error: `Session not found: ${id}` });
+        }
+      } else if (resource === 'batches') {
+        // Scenario summaries are left out; the UI links to their history instead
+        sendJson(res, 200, listBatches().map(({ results, ...batch }) => ({
+          ...batch,
+          results: results.map(r => ({
+            id: r.scenario.id,
+            url: r.scenario.url,
+            ...(r.summary && { score: getHeadlineMetrics(r.summary, aggregate).score }),
+            ...(r.error && { error: r.error }),
+          })),
+        })));
+      } else if (resource === 'scenarios' && !id) {
+        sendJson(res, 200, listScenarioLogs());
+      } else if (resource === 'scenarios') {
+        sendJson(res, 200, isSafeSegment(id) ? loadScenarioHistory(id, aggregate) : []);
+      } else if (resource === 'compare') {
+        const before = url.searchParams.get('a') || '';
+        const after = url.searchParams.get('b') || '';
+        const report = isSafeSegment(before) && isSafeSegment(after)
+          ? buildComparisonReport(before, after, aggregate, options.significance)
+          : null;
+        if (report) {
+          sendJson(res, 200, report);
+        } else {
+          sendJson(res, 404, { error: `Could not compare ${before} and ${after}` });
+        }
+      } else {
+        sendJson(res, 404, { error: `Not found: ${url.pathname}` });
+      }
+    } catch (e) {
+      sendJson(res, 500, { error: (e as Error).message });
+    }
+  };
+}
+
+/**
+ * Start the hub server
+ * @returns The listening server
+ */
+export function startHub(options: HubOptions = {}): Promise<Server> {
+  const server = createServer(createHubHandler(options));
+
+  return new Promise((resolvePromise, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? DEFAULT_HUB_PORT, options.host || '127.0.0.1', () => resolvePromise(server));
+  });
+}
@@ -0,0 +1,94 @@
+import type { BatchResult, MeasurementSummary } from './types.js';
+import { describe, expect, it } from 'vitest';
+import { formatJUnitReport } from './junit.js';
+
+describe('junit', () => {
+  const summary: MeasurementSummary = {
+    url: 'https://example.com',
+    runs: 1,
+    timestamp: '2024-01-15T10-30-00',
+    overridesApplied: false,
+    averages: { score: 88, fcp: 1200, lcp: 2700, tbt: 150, cls: 0.05, si: 1800 },
+    range: { minScore: 88, maxScore: 88 },
+    rawScores: [88],
+  };
+
+  const batch: BatchResult = {
+    batchId: '2024-01-15T10-30-00-000Z',
+    startedAt: '2024-01-15T10:30:00.000Z',
+    completedAt: '2024-01-15T10:31:30.000Z',
+    totalScenarios: 3,
+    completed: 2,
+    failed: 1,
+    duration: 90000,
+    results: [
+      {
+        scenario: { id: 'homepage', note: 'Home & "hero"', url: 'https://example.com/?a=1&b=2' },
+        summary,
+        startedAt: '2024-01-15T10:30:00.000Z',
+        completedAt: '2024-01-15T10:30:42.500Z',
+        assertions: [
+          { key: 'score', assertion: 'score >= 85', actual: 88, passed: true },
+          { key: 'lcp', assertion: 'lcp <= 2500', actual: 2700, passed: false },
+        ],
+      },
+      {
+        scenario: { id: 'shop', note: '', url: 'https://example.com/shop' },
+        summary,
+        startedAt: '2024-01-15T10:30:42.500Z',
+        completedAt: '2024-01-15T10:31:10.000Z',
+      },
+      {
+        scenario: { id: 'blog', note: '', url: 'https://example.com/blog' },
+        error: 'Navigation timeout <30s>',
+        startedAt: '2024-01-15T10:31:10.000Z',
+        completedAt: '2024-01-15T10:31:30.000Z',
+      },
+    ],
+  };
+
+  describe('formatJUnitReport', () => {
+    it('should write one testsuite with a testcase per scenario', () => {
+      const xml = formatJUnitReport(batch);
+
+      expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="webperf" tests="3" failures="2"')).toBe(true);
+      expect(xml).toContain('<testsuite name="batch 2024-01-15T10-30-00-000Z" tests="3" failures="2" errors="0" skipped="0" time="90.000" timestamp="2024-01-15T10:30:00.000Z">');
+      expect(xml).toContain('<testcase name="homepage" classname="webperf.batch" time="42.500">');
+      expect(xml).toContain('<testcase name="shop" classname="webperf.batch" time="27.500">');
+    });
+
+    it('should add metric values and the scenario as escaped properties', () => {
+      const xml = formatJUnitReport(batch);
+
+      expect(xml).toContain('<property name="url" value="https://example.com/?a=1&amp;b=2"/>');
+      expect(xml).toContain('<property name="note" value="Home &amp; &quot;hero&quot;"/>');
+      expect(xml).toContain('<property name="lcp" value="2700"/>');
+      expect(xml).toContain('<property name="cls" value="0.05"/>');
+    });
+
+    it('should report errored scenarios and failed assertions as failures', () => {
+      const xml = formatJUnitReport(batch);
+
+      expect(xml).toContain('<failure type="error" message="Navigation timeout &lt;30s&gt;"/>');
+      expect(xml).toContain('<failure type="assertion" message="1 assertion failed">lcp &lt;= 2500 (actual: 2700)</failure>');
+      const shop = xml.slice(xml.indexOf('<testcase name="shop"'), xml.indexOf('<testcase name="blog"'));
+      expect(shop).not.toContain('<failure');
+    });
+
+    it('should report only the error of an errored scenario with failed assertions', () => {
+      const errored: BatchResult = {
+        ...batch,
+        results: [{
+          ...batch.results[2],
+          assertions: [{ key: 'score', assertion: 'score >= 85', passed: false }],
+        }],
+      };
+
+      const xml = formatJUnitReport(errored);
+
+      expect(xml.match(/<failure /g)).toHaveLength(1);
+      expect(xml).toContain('<failure type="error" message="Navigation timeout &lt;30s&gt;"/>');
+      expect(xml).toContain('tests="1" failures="1"');
+    });
+  });
+});
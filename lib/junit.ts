@@ -0,0 +1,81 @@
+/**
+ * JUnit XML reports for batch runs
+ * One testsuite per batch, one testcase per scenario
+ */
+
+import type { Aggregate, BatchResult } from './types.js';
+import { getPresentMetrics } from './metrics.js';
+import { getHeadlineMetrics } from './stats.js';
+
+/**
+ * Escape text for XML attributes and content
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Seconds between two ISO timestamps (0 when either is missing)
+ */
+function secondsBetween(startedAt?: string, completedAt?: string): string {
+  if (!startedAt || !completedAt) return '0';
+  return ((Date.parse(completedAt) - Date.parse(startedAt)) / 1000).toFixed(3);
+}
+
+/**
+ * Build a JUnit XML report for a batch
+ * Errored scenarios, or else failed assertions, are failures; headline metrics are testcase properties
+ * @param aggregate - Which aggregate the metric properties show (default: mean)
+ */
+export function formatJUnitReport(batch: BatchResult, aggregate: Aggregate = 'mean'): string {
+  const testcases: string[] = [];
+  let failures = 0;
+
+  for (const result of batch.results) {
+    const { scenario } = result;
+    const lines = [`    <testcase name="${escapeXml(scenario.id)}" classname="webperf.batch" time="${secondsBetween(result.startedAt, result.completedAt)}">`];
+
+    const properties = [['url', scenario.url], ...(scenario.note ? [['note', scenario.note]] : [])];
+    if (result.summary) {
+      const headline = getHeadlineMetrics(result.summary, aggregate);
+      for (const { key } of getPresentMetrics(headline)) {
+        properties.push([key, String(headline[key])]);
+      }
+    }
+    lines.push('      <properties>');
+    for (const [name, value] of properties) {
+      lines.push(`        <property name="${escapeXml(name)}" value="${escapeXml(value)}"/>`);
+    }
+    lines.push('      </properties>');
+
+    // At most one failure per testcase: an error makes the scenario's assertions meaningless
+    const failed = (result.assertions || []).filter(a => !a.passed);
+    if (result.error) {
+      lines.push(`      <failure type="error" message="${escapeXml(result.error)}"/>`);
+    } else if (failed.length > 0) {
+      const details = failed.map(a => `${a.assertion} (actual: ${a.actual ?? 'not measured'})`);
+      lines.push(`      <failure type="assertion" message="${escapeXml(`${failed.length} assertion${failed.length === 1 ? '' : 's'} failed`)}">${escapeXml(details.join('\n'))}</failure>`);
+    }
+    if (result.error || failed.length > 0) failures++;
+
+    lines.push('    </testcase>');
+    testcases.push(lines.join('\n'));
+  }
+
+  const time = (batch.duration / 1000).toFixed(3);
+  const counts = `tests="${batch.results.length}" failures="${failures}" errors="0" skipped="0" time="${time}"`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="webperf" ${counts}>`,
+    `  <testsuite name="${escapeXml(`batch ${batch.batchId}`)}" ${counts} timestamp="${escapeXml(batch.startedAt)}">`,
+    ...testcases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
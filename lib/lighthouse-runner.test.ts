@@ -8,10 +8,13 @@ import puppeteer from 'puppeteer';
 const mockPage = {
   goto: vi.fn(),
   evaluate: vi.fn(),
+  evaluateOnNewDocument: vi.fn(),
+  setCookie: vi.fn(),
   close: vi.fn(),
 };
 
 const mockBrowser = {
+  connected: true,
   wsEndpoint: vi.fn(() => 'ws://localhost:9222/devtools/browser/xxx'),
   newPage: vi.fn(() => mockPage),
   close: vi.fn(),
@@ -60,6 +63,7 @@ vi.mock('./logger.js', () => ({
     red: (s: string) => s,
     magenta: (s: string) => s,
     bold: (s: string) => s,
+    dim: (s: string) => s,
     scoreColor: (n: number) => String(n),
   },
   logger: {
@@ -78,6 +82,7 @@ vi.mock('./logger.js', () => ({
     red: (s: string) => s,
     magenta: (s: string) => s,
     bold: (s: string) => s,
+    dim: (s: string) => s,
     scoreColor: (n: number) => String(n),
   },
 }));
@@ -93,13 +98,25 @@ describe('lighthouse-runner', () => {
     defaultRuns: 5,
   };
 
+  // Fire the pauses between runs and before retries at once, with the promise already handled if it rejects
+  const settle = async <T>(promise: Promise<T>): Promise<T> => {
+    promise.catch(() => undefined);
+    await vi.runAllTimersAsync();
+    return promise;
+  };
+
   beforeEach(() => {
+    vi.useFakeTimers();
     vi.clearAllMocks();
     mockPage.goto.mockResolvedValue(undefined);
     mockPage.evaluate.mockResolvedValue(true);
+    mockPage.close.mockResolvedValue(undefined);
+    mockBrowser.close.mockResolvedValue(undefined);
+    mockBrowser.connected = true;
   });
 
   afterEach(() => {
+    vi.useRealTimers();
     vi.clearAllMocks();
   });
 
@@ -113,7 +130,7 @@ describe('lighthouse-runner', () => {
         applyOverrides: false,
       };
       
-      await runMeasurements(options, mockConfig);
+      await settle(runMeasurements(options, mockConfig));
       
       expect(puppeteer.launch).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -123,6 +140,88 @@ describe('lighthouse-runner', () => {
       );
     });
 
+    it('should run desktop without screen emulation by default', async () => {
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 1,
+        applyOverrides: false,
+      };
+      
+      const result = await settle(runMeasurements(options, mockConfig));
+      
+      expect(lighthouse).toHaveBeenCalledWith(
+        'https://example.com',
+        expect.objectContaining({
+          formFactor: 'desktop',
+          screenEmulation: { disabled: true },
+        })
+      );
+      expect(result.device.name).toBe('desktop');
+    });
+
+    it('should pass device profile emulation to lighthouse', async () => {
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 1,
+        applyOverrides: false,
+        device: 'moto-g-power',
+      };
+      
+      const result = await settle(runMeasurements(options, mockConfig));
+      
+      expect(lighthouse).toHaveBeenCalledWith(
+        'https://example.com',
+        expect.objectContaining({
+          formFactor: 'mobile',
+          screenEmulation: expect.objectContaining({ disabled: false, width: 412, height: 823, mobile: true }),
+          emulatedUserAgent: expect.stringContaining('moto g power'),
+        })
+      );
+      expect(result.device.name).toBe('moto-g-power');
+    });
+
+    it('should pass throttling preset and method to lighthouse', async () => {
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 1,
+        applyOverrides: false,
+        throttling: 'slow-4g',
+        throttlingMethod: 'devtools',
+      };
+      
+      const result = await settle(runMeasurements(options, mockConfig));
+      
+      expect(lighthouse).toHaveBeenCalledWith(
+        'https://example.com',
+        expect.objectContaining({
+          throttlingMethod: 'devtools',
+          throttling: expect.objectContaining({ rttMs: 150, cpuSlowdownMultiplier: 4 }),
+        })
+      );
+      expect(result.throttling.name).toBe('slow-4g');
+      expect(result.throttling.method).toBe('devtools');
+    });
+
+    it('should reject unknown device profiles before launching chrome', async () => {
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 1,
+        applyOverrides: false,
+        device: 'unknown-device',
+      };
+      
+      await expect(settle(runMeasurements(options, mockConfig))).rejects.toThrow('Unknown device profile');
+      expect(puppeteer.launch).not.toHaveBeenCalled();
+    });
+
     it('should run lighthouse the specified number of times', async () => {
       const { runMeasurements } = await import('./lighthouse-runner.js');
       
@@ -132,7 +231,7 @@ describe('lighthouse-runner', () => {
         applyOverrides: false,
       };
       
-      await runMeasurements(options, mockConfig);
+      await settle(runMeasurements(options, mockConfig));
       
       expect(lighthouse).toHaveBeenCalledTimes(3);
     });
@@ -146,7 +245,7 @@ describe('lighthouse-runner', () => {
         applyOverrides: false,
       };
       
-      const result = await runMeasurements(options, mockConfig);
+      const result = await settle(runMeasurements(options, mockConfig));
       
       expect(result.metrics).toHaveLength(1);
       expect(result.metrics[0]).toEqual({
@@ -169,6 +268,169 @@ describe('lighthouse-runner', () => {
       expect(result.maxScore).toBe(85);
     });
 
+    it('should capture tracked extra metrics', async () => {
+      vi.mocked(lighthouse).mockResolvedValueOnce({
+        lhr: {
+          categories: { performance: { score: 0.85 } },
+          audits: {
+            'first-contentful-paint': { numericValue: 1200 },
+            'largest-contentful-paint': { numericValue: 2100 },
+            'total-blocking-time': { numericValue: 150 },
+            'cumulative-layout-shift': { numericValue: 0.05 },
+            'speed-index': { numericValue: 1800 },
+            'server-response-time': { numericValue: 120 },
+            'total-byte-weight': { numericValue: 1500000 },
+            'network-requests': { details: { items: [{}, {}, {}] } },
+            'dom-size': { numericValue: 850 },
+          },
+        },
+      } as any);
+      
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 1,
+        applyOverrides: false,
+        metrics: ['ttfb', 'totalBytes', 'requests', 'domSize'],
+      };
+      
+      const result = await settle(runMeasurements(options, mockConfig));
+      
+      expect(result.metrics[0]).toMatchObject({ ttfb: 120, totalBytes: 1500000, requests: 3, domSize: 850 });
+      expect(result.metrics[0].tti).toBeUndefined();
+      expect(result.averages.ttfb).toBe(120);
+      expect(result.stats.requests?.mean).toBe(3);
+    });
+
+    it('should exclude invalid runs from aggregates and record their errors', async () => {
+      const audits = {
+        'first-contentful-paint': { numericValue: 1000 },
+        'largest-contentful-paint': { numericValue: 2000 },
+        'total-blocking-time': { numericValue: 100 },
+        'cumulative-layout-shift': { numericValue: 0.05 },
+        'speed-index': { numericValue: 1600 },
+      };
+      vi.mocked(lighthouse)
+        .mockResolvedValueOnce({
+          lhr: { categories: { performance: { score: 0.90 } }, audits },
+        } as any)
+        .mockResolvedValueOnce({
+          lhr: {
+            categories: { performance: { score: null } },
+            audits: {},
+            runtimeError: { code: 'NO_FCP', message: 'The page did not paint any content.' },
+          },
+        } as any)
+        .mockResolvedValueOnce({
+          lhr: {
+            categories: { performance: { score: 0.99 } },
+            audits: {
+              ...audits,
+              'network-requests': { details: { items: [{ url: 'https://example.com/', statusCode: 404, resourceType: 'Document' }] } },
+            },
+            mainDocumentUrl: 'https://example.com/',
+          },
+        } as any)
+        .mockResolvedValueOnce({
+          lhr: {
+            categories: { performance: { score: 0.95 } },
+            audits: { ...audits, 'speed-index': {} },
+          },
+        } as any);
+      
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const result = await settle(runMeasurements({ url: 'https://example.com', runs: 4, applyOverrides: false }, mockConfig));
+      
+      expect(result.metrics).toHaveLength(1);
+      expect(result.averages.score).toBe(90);
+      expect(result.maxScore).toBe(90);
+      expect(result.runs).toHaveLength(4);
+      expect(result.runs[0].error).toBeUndefined();
+      expect(result.runs[1].error?.code).toBe('NO_FCP');
+      expect(result.runs[2].error).toEqual({ code: 'HTTP_404', message: 'Main document returned status 404' });
+      expect(result.runs[3].error).toEqual({ code: 'MISSING_AUDITS', message: 'Missing speed-index' });
+    });
+
+    it('should fail when every run is invalid', async () => {
+      vi.mocked(lighthouse).mockResolvedValueOnce({
+        lhr: {
+          categories: { performance: { score: null } },
+          audits: {},
+          runtimeError: { code: 'NO_FCP', message: 'The page did not paint any content.' },
+        },
+      } as any);
+      
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      await expect(
+        settle(runMeasurements({ url: 'https://example.com', runs: 1, applyOverrides: false }, mockConfig))
+      ).rejects.toThrow('All 1 runs were invalid (NO_FCP)');
+      expect(mockBrowser.close).toHaveBeenCalled();
+    });
+
+    it('should only render reports when saving them', async () => {
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const result = await settle(runMeasurements({ url: 'https://example.com', runs: 1, applyOverrides: false }, mockConfig));
+      
+      expect(vi.mocked(lighthouse).mock.calls[0][1]).toMatchObject({ output: 'json' });
+      expect(result.reports).toBeUndefined();
+    });
+
+    it('should return the median run report when requested', async () => {
+      const lhr = (score: number) => ({
+        lhr: {
+          categories: { performance: { score } },
+          audits: {
+            'first-contentful-paint': { numericValue: 1000 },
+            'largest-contentful-paint': { numericValue: 2000 },
+            'total-blocking-time': { numericValue: 100 },
+            'cumulative-layout-shift': { numericValue: 0.05 },
+            'speed-index': { numericValue: 1600 },
+          },
+        },
+        report: [`{"score":${score}}`, `<html>${score}</html>`],
+      } as any);
+      vi.mocked(lighthouse)
+        .mockResolvedValueOnce(lhr(0.70))
+        .mockResolvedValueOnce(lhr(0.90))
+        .mockResolvedValueOnce(lhr(0.80));
+      
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 3,
+        applyOverrides: false,
+        saveReports: 'median',
+      };
+      
+      const result = await settle(runMeasurements(options, mockConfig));
+      
+      expect(vi.mocked(lighthouse).mock.calls[0][1]).toMatchObject({ output: ['json', 'html'] });
+      expect(result.reports).toEqual([{ run: 3, json: '{"score":0.8}', html: '<html>0.8</html>' }]);
+    });
+
+    it('should return per-run metrics with timing', async () => {
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 1,
+        applyOverrides: false,
+      };
+      
+      const result = await settle(runMeasurements(options, mockConfig));
+      
+      expect(result.runs).toHaveLength(1);
+      expect(result.runs[0].run).toBe(1);
+      expect(result.runs[0].metrics).toEqual(result.metrics[0]);
+      expect(result.runs[0].duration).toBeGreaterThanOrEqual(0);
+      expect(new Date(result.runs[0].startedAt).toISOString()).toBe(result.runs[0].startedAt);
+    });
+
     it('should calculate averages correctly for multiple runs', async () => {
       // Mock lighthouse to return different scores
       vi.mocked(lighthouse)
@@ -205,7 +467,7 @@ describe('lighthouse-runner', () => {
         applyOverrides: false,
       };
       
-      const result = await runMeasurements(options, mockConfig);
+      const result = await settle(runMeasurements(options, mockConfig));
       
       expect(result.metrics).toHaveLength(2);
       expect(result.averages.score).toBe(85); // (80 + 90) / 2
@@ -214,6 +476,144 @@ describe('lighthouse-runner', () => {
       expect(result.maxScore).toBe(90);
     });
 
+    it('should reject outliers from averages and stats when a policy is set', async () => {
+      const lhr = (score: number, lcp: number) => ({
+        lhr: {
+          categories: { performance: { score } },
+          audits: {
+            'first-contentful-paint': { numericValue: 1000 },
+            'largest-contentful-paint': { numericValue: lcp },
+            'total-blocking-time': { numericValue: 100 },
+            'cumulative-layout-shift': { numericValue: 0.05 },
+            'speed-index': { numericValue: 1600 },
+          },
+        },
+      } as any);
+      vi.mocked(lighthouse)
+        .mockResolvedValueOnce(lhr(0.90, 2000))
+        .mockResolvedValueOnce(lhr(0.90, 2020))
+        .mockResolvedValueOnce(lhr(0.90, 1990))
+        .mockResolvedValueOnce(lhr(0.50, 6000));
+      
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 4,
+        applyOverrides: false,
+        outlierPolicy: 'iqr',
+      };
+      
+      const result = await settle(runMeasurements(options, mockConfig));
+      
+      expect(result.stats.lcp.outliers).toBe(1);
+      expect(result.averages.lcp).toBeCloseTo(2003.33, 1);
+      // The score range always reflects every run
+      expect(result.minScore).toBe(50);
+    });
+
+    it('should stop adaptive runs once results are stable', async () => {
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 5,
+        applyOverrides: false,
+        adaptive: { minRuns: 2, maxRuns: 10 },
+      };
+      
+      // The mocked runs are identical, so the score is stable as soon as it is checked
+      const result = await settle(runMeasurements(options, mockConfig));
+      
+      expect(lighthouse).toHaveBeenCalledTimes(2);
+      expect(result.metrics).toHaveLength(2);
+      expect(result.adaptive).toEqual({
+        stopReason: 'converged',
+        minRuns: 2,
+        maxRuns: 10,
+        targetCv: 3,
+        precision: { score: 0 },
+      });
+    });
+
+    it('should stop adaptive runs at the maximum when results stay noisy', async () => {
+      const lhr = (score: number) => ({
+        lhr: {
+          categories: { performance: { score } },
+          audits: {
+            'first-contentful-paint': { numericValue: 1000 },
+            'largest-contentful-paint': { numericValue: 2000 },
+            'total-blocking-time': { numericValue: 100 },
+            'cumulative-layout-shift': { numericValue: 0.05 },
+            'speed-index': { numericValue: 1600 },
+          },
+        },
+      } as any);
+      vi.mocked(lighthouse)
+        .mockResolvedValueOnce(lhr(0.50))
+        .mockResolvedValueOnce(lhr(0.90))
+        .mockResolvedValueOnce(lhr(0.60));
+      
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 5,
+        applyOverrides: false,
+        adaptive: { minRuns: 2, maxRuns: 3, targetCv: 1 },
+      };
+      
+      const result = await settle(runMeasurements(options, mockConfig));
+      
+      expect(result.metrics).toHaveLength(3);
+      expect(result.adaptive?.stopReason).toBe('max-runs');
+      expect(result.adaptive?.precision.score).toBeGreaterThan(1);
+    });
+
+    it('should not report an adaptive outcome for fixed run counts', async () => {
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const result = await settle(runMeasurements({ url: 'https://example.com', runs: 1, applyOverrides: false }, mockConfig));
+      
+      expect(result.adaptive).toBeUndefined();
+    });
+
+    it('should run warm-up passes without including them in aggregates', async () => {
+      const lhr = (score: number, lcp: number) => ({
+        lhr: {
+          categories: { performance: { score } },
+          audits: {
+            'first-contentful-paint': { numericValue: 1000 },
+            'largest-contentful-paint': { numericValue: lcp },
+            'total-blocking-time': { numericValue: 100 },
+            'cumulative-layout-shift': { numericValue: 0.05 },
+            'speed-index': { numericValue: 1600 },
+          },
+        },
+      } as any);
+      vi.mocked(lighthouse)
+        .mockResolvedValueOnce(lhr(0.40, 9000))
+        .mockResolvedValueOnce(lhr(0.90, 2000));
+      
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 1,
+        applyOverrides: false,
+        warmupRuns: 1,
+      };
+      
+      const result = await settle(runMeasurements(options, mockConfig));
+      
+      expect(lighthouse).toHaveBeenCalledTimes(2);
+      expect(result.warmup).toHaveLength(1);
+      expect(result.warmup[0].metrics.lcp).toBe(9000);
+      expect(result.metrics).toHaveLength(1);
+      expect(result.averages.lcp).toBe(2000);
+      expect(result.minScore).toBe(90);
+    });
+
     it('should apply custom overrides when enabled and applyOverrides function exists', async () => {
       const mockApplyOverrides = vi.fn();
       const configWithOverrides: WebperfConfig = {
@@ -229,21 +629,106 @@ describe('lighthouse-runner', () => {
         applyOverrides: true,
       };
       
-      await runMeasurements(options, configWithOverrides);
+      await settle(runMeasurements(options, configWithOverrides));
       
-      // Should navigate to page first
-      expect(mockPage.goto).toHaveBeenCalledWith(
-        'https://example.com',
-        expect.objectContaining({ waitUntil: 'networkidle0' })
-      );
-      
-      // Should call the custom applyOverrides function
+      // Should call the custom applyOverrides function on the measured page
       expect(mockApplyOverrides).toHaveBeenCalledWith(mockPage);
       
-      // Should close the override page
+      // Lighthouse measures that page instead of opening its own
+      expect(lighthouse).toHaveBeenCalledWith('https://example.com', expect.any(Object), undefined, mockPage);
+      expect(mockPage.goto).not.toHaveBeenCalled();
       expect(mockPage.close).toHaveBeenCalled();
     });
 
+    it('should install declarative overrides before every measured run', async () => {
+      const configWithOverrides: WebperfConfig = {
+        ...mockConfig,
+        overrides: {
+          localStorage: { consent: 'accepted' },
+          cookies: [{ name: 'ab', value: 'b' }],
+        },
+      };
+      
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      await settle(runMeasurements({ url: 'https://example.com', runs: 2, applyOverrides: true }, configWithOverrides));
+      
+      expect(mockPage.evaluateOnNewDocument).toHaveBeenCalledTimes(2);
+      expect(mockPage.setCookie).toHaveBeenCalledWith({ name: 'ab', value: 'b', url: 'https://example.com' });
+      expect(lighthouse).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not count runs where the overrides were not in effect', async () => {
+      const verify = vi.fn().mockResolvedValueOnce(false).mockResolvedValue(true);
+      const configWithOverrides: WebperfConfig = {
+        ...mockConfig,
+        overrides: { script: 'window.flag = true;', verify },
+      };
+      
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const result = await settle(runMeasurements({ url: 'https://example.com', runs: 2, applyOverrides: true }, configWithOverrides));
+      
+      expect(verify).toHaveBeenCalledWith(mockPage);
+      expect(result.metrics).toHaveLength(1);
+      expect(result.runs[0].error).toEqual({ code: 'OVERRIDES_NOT_APPLIED', message: 'Custom override verification failed' });
+    });
+
+    it('should record whether applyOverrides was verified', async () => {
+      const verifyOverrides = vi.fn().mockResolvedValue(true);
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const unverified = await settle(runMeasurements(
+        { url: 'https://example.com', runs: 1, applyOverrides: true },
+        { ...mockConfig, applyOverrides: vi.fn() }
+      ));
+      const verified = await settle(runMeasurements(
+        { url: 'https://example.com', runs: 1, applyOverrides: true },
+        { ...mockConfig, applyOverrides: vi.fn(), verifyOverrides }
+      ));
+      
+      expect(unverified.overridesVerified).toBe(false);
+      expect(verified.overridesVerified).toBe(true);
+      expect(verifyOverrides).toHaveBeenCalledWith(mockPage);
+    });
+
+    it('should install the selected variant instead of the top-level overrides', async () => {
+      const topLevel = vi.fn();
+      const variant = vi.fn();
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      await settle(runMeasurements(
+        { url: 'https://example.com', runs: 1, applyOverrides: false, variant: 'flag-a' },
+        { ...mockConfig, applyOverrides: topLevel, variants: { 'flag-a': { applyOverrides: variant } } }
+      ));
+      
+      expect(variant).toHaveBeenCalledWith(mockPage);
+      expect(topLevel).not.toHaveBeenCalled();
+    });
+
+    it('should fail fast for unknown variants', async () => {
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      await expect(
+        settle(runMeasurements({ url: 'https://example.com', runs: 1, applyOverrides: true, variant: 'nope' }, mockConfig))
+      ).rejects.toThrow('Unknown variant: nope');
+      expect(puppeteer.launch).not.toHaveBeenCalled();
+    });
+
+    it('should not install overrides without --applyOverrides', async () => {
+      const mockApplyOverrides = vi.fn();
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      await settle(runMeasurements(
+        { url: 'https://example.com', runs: 1, applyOverrides: false },
+        { ...mockConfig, applyOverrides: mockApplyOverrides, overrides: { script: '' } }
+      ));
+      
+      expect(mockApplyOverrides).not.toHaveBeenCalled();
+      expect(mockBrowser.newPage).not.toHaveBeenCalled();
+      expect(vi.mocked(lighthouse).mock.calls[0]).toHaveLength(2);
+    });
+
     it('should not apply overrides when applyOverrides is true but no function configured', async () => {
       const { runMeasurements } = await import('./lighthouse-runner.js');
       const logger = await import('./logger.js');
@@ -254,7 +739,7 @@ describe('lighthouse-runner', () => {
         applyOverrides: true,
       };
       
-      await runMeasurements(options, mockConfig); // mockConfig has no applyOverrides function
+      await settle(runMeasurements(options, mockConfig)); // mockConfig has no applyOverrides function
       
       // Should log a note about missing function
       const logCalls = vi.mocked(logger.default.log).mock.calls;
@@ -264,6 +749,98 @@ describe('lighthouse-runner', () => {
       expect(noteCall).toBeDefined();
     });
 
+    it('should retry transient failures and record the retry', async () => {
+      vi.mocked(lighthouse).mockRejectedValueOnce(new Error('Protocol error (Network.enable): Target closed'));
+      
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 1,
+        applyOverrides: false,
+        retry: { backoffMs: 0 },
+      };
+      
+      const result = await settle(runMeasurements(options, mockConfig));
+      
+      expect(lighthouse).toHaveBeenCalledTimes(2);
+      expect(result.metrics).toHaveLength(1);
+      expect(result.retried).toEqual([{
+        run: 1,
+        attempts: 2,
+        errors: [{ code: 'BROWSER_DISCONNECTED', message: 'Protocol error (Network.enable): Target closed' }],
+        abandoned: false,
+      }]);
+      // A disconnected browser is replaced
+      expect(puppeteer.launch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should time out hung runs and relaunch the browser', async () => {
+      vi.mocked(lighthouse).mockReturnValueOnce(new Promise(() => undefined) as any);
+      
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 1,
+        applyOverrides: false,
+        retry: { backoffMs: 0, runTimeoutMs: 50 },
+      };
+      
+      const result = await settle(runMeasurements(options, mockConfig));
+      
+      expect(result.metrics).toHaveLength(1);
+      expect(result.retried[0].errors[0].code).toBe('RUN_TIMEOUT');
+      expect(puppeteer.launch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should relaunch the browser after a timed-out last attempt', async () => {
+      vi.mocked(lighthouse).mockReturnValueOnce(new Promise(() => undefined) as any);
+
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 2,
+        applyOverrides: false,
+        retry: { retries: 0, backoffMs: 0, runTimeoutMs: 50 },
+      };
+
+      const result = await settle(runMeasurements(options, mockConfig));
+
+      // The abandoned run's browser is closed, and the next run gets a new one
+      expect(result.retried[0]).toMatchObject({ run: 1, attempts: 1, abandoned: true });
+      expect(result.metrics).toHaveLength(1);
+      expect(puppeteer.launch).toHaveBeenCalledTimes(2);
+      expect(mockBrowser.close.mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(puppeteer.launch).mock.invocationCallOrder[1]);
+    });
+
+    it('should abandon runs that keep failing and return partial results', async () => {
+      vi.mocked(lighthouse).mockRejectedValueOnce(new Error('Invalid config'));
+      
+      const { runMeasurements } = await import('./lighthouse-runner.js');
+      
+      const options: MeasureOptions = {
+        url: 'https://example.com',
+        runs: 2,
+        applyOverrides: false,
+        retry: { backoffMs: 0 },
+      };
+      
+      const result = await settle(runMeasurements(options, mockConfig));
+      
+      // Non-transient failures are not retried
+      expect(lighthouse).toHaveBeenCalledTimes(2);
+      expect(result.metrics).toHaveLength(1);
+      expect(result.runs.map(r => r.run)).toEqual([2]);
+      expect(result.retried).toEqual([{
+        run: 1,
+        attempts: 1,
+        errors: [{ code: 'RUN_FAILED', message: 'Invalid config' }],
+        abandoned: true,
+      }]);
+    });
+
     it('should close browser even on error', async () => {
       vi.mocked(lighthouse).mockRejectedValueOnce(new Error('Lighthouse error'));
       
@@ -275,8 +852,95 @@ describe('lighthouse-runner', () => {
         applyOverrides: false,
       };
       
-      await expect(runMeasurements(options, mockConfig)).rejects.toThrow('Lighthouse error');
+      await expect(settle(runMeasurements(options, mockConfig))).rejects.toThrow('Lighthouse error');
+      
+      expect(mockBrowser.close).toHaveBeenCalled();
+    });
+  });
+
+  describe('runPairedMeasurements', () => {
+    const lhr = (score: number, lcp: number) => ({
+      lhr: {
+        categories: { performance: { score } },
+        audits: {
+          'first-contentful-paint': { numericValue: 1000 },
+          'largest-contentful-paint': { numericValue: lcp },
+          'total-blocking-time': { numericValue: 100 },
+          'cumulative-layout-shift': { numericValue: 0.05 },
+          'speed-index': { numericValue: 1600 },
+        },
+      },
+    } as any);
+    
+    it('should alternate A and B runs in one browser and compare the pairs', async () => {
+      vi.mocked(lighthouse)
+        .mockResolvedValueOnce(lhr(0.80, 2500))
+        .mockResolvedValueOnce(lhr(0.85, 2000))
+        .mockResolvedValueOnce(lhr(0.82, 2600))
+        .mockResolvedValueOnce(lhr(0.86, 2050));
+      
+      const { runPairedMeasurements } = await import('./lighthouse-runner.js');
+      
+      const result = await settle(runPairedMeasurements({
+        a: { label: 'https://a.example.com', url: 'https://a.example.com', applyOverrides: false },
+        b: { label: 'https://b.example.com', url: 'https://b.example.com', applyOverrides: false },
+        runs: 2,
+      }, mockConfig));
+      
+      expect(vi.mocked(lighthouse).mock.calls.map(call => call[0])).toEqual([
+        'https://a.example.com',
+        'https://b.example.com',
+        'https://a.example.com',
+        'https://b.example.com',
+      ]);
+      expect(puppeteer.launch).toHaveBeenCalledTimes(1);
+      expect(result.validPairs).toBe(2);
+      expect(result.a.runResults.map(r => r.metrics.score)).toEqual([80, 82]);
+      expect(result.b.stats.lcp.mean).toBe(2025);
+      expect(result.deltas.find(d => d.key === 'lcp')).toMatchObject({ meanDelta: -525, verdict: 'improved' });
+      expect(result.deltas.find(d => d.key === 'fcp')!.verdict).toBe('no-difference');
+      expect(result.verdict).toBe('improved');
+    });
+
+    it('should record retried runs by pair number and side', async () => {
+      vi.mocked(lighthouse)
+        .mockResolvedValueOnce(lhr(0.80, 2500))
+        .mockResolvedValueOnce(lhr(0.85, 2000))
+        .mockResolvedValueOnce(lhr(0.82, 2600))
+        .mockRejectedValueOnce(new Error('Protocol error (Network.enable): Target closed'))
+        .mockResolvedValueOnce(lhr(0.86, 2050));
+
+      const { runPairedMeasurements } = await import('./lighthouse-runner.js');
+
+      const result = await settle(runPairedMeasurements({
+        a: { label: 'https://a.example.com', url: 'https://a.example.com', applyOverrides: false },
+        b: { label: 'https://b.example.com', url: 'https://b.example.com', applyOverrides: false },
+        runs: 2,
+        retry: { backoffMs: 0 },
+      }, mockConfig));
+
+      expect(result.retriedRuns).toEqual([{
+        run: 2,
+        side: 'B',
+        attempts: 2,
+        errors: [{ code: 'BROWSER_DISCONNECTED', message: 'Protocol error (Network.enable): Target closed' }],
+        abandoned: false,
+      }]);
+      expect(result.b.runResults.map(r => r.run)).toEqual([1, 2]);
+    });
+
+    it('should fail without at least two valid pairs', async () => {
+      vi.mocked(lighthouse)
+        .mockResolvedValueOnce(lhr(0.80, 2500))
+        .mockResolvedValueOnce({ lhr: { categories: { performance: { score: 0.9 } }, audits: {} } } as any);
+      
+      const { runPairedMeasurements } = await import('./lighthouse-runner.js');
       
+      await expect(settle(runPairedMeasurements({
+        a: { label: 'off', url: 'https://example.com', applyOverrides: false },
+        b: { label: 'overrides', url: 'https://example.com', applyOverrides: true },
+        runs: 2,
+      }, mockConfig))).rejects.toThrow('Only 1 of 2 pairs had two valid runs');
       expect(mockBrowser.close).toHaveBeenCalled();
     });
   });
@@ -301,6 +965,36 @@ describe('lighthouse-runner', () => {
       expect(logger.default.tableRow).toHaveBeenCalled();
     });
 
+    it('should show the chosen aggregate and statistics when stats are given', async () => {
+      const { printResults } = await import('./lighthouse-runner.js');
+      const { computeStats, selectAggregate } = await import('./stats.js');
+      const logger = await import('./logger.js');
+      
+      const stats = computeStats([
+        { score: 80, fcp: 1000, lcp: 2000, tbt: 100, cls: 0.04, si: 1600 },
+        { score: 90, fcp: 1400, lcp: 2200, tbt: 200, cls: 0.06, si: 2000 },
+        { score: 85, fcp: 1200, lcp: 5000, tbt: 150, cls: 0.05, si: 1800 },
+      ]);
+      
+      printResults(selectAggregate(stats, 'mean'), 80, 90, 3, undefined, stats, 'median');
+      
+      expect(logger.default.tableRow).toHaveBeenCalledWith('Largest Contentful Paint (LCP)', 2200, 'ms');
+      const logCalls = vi.mocked(logger.default.log).mock.calls.map(call => String(call[0]));
+      expect(logCalls.some(line => line.includes('Median'))).toBe(true);
+      expect(logCalls.some(line => line.includes('Statistics'))).toBe(true);
+    });
+
+    it('should print tracked extra metrics', async () => {
+      const { printResults } = await import('./lighthouse-runner.js');
+      const logger = await import('./logger.js');
+      
+      printResults({ score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800, ttfb: 120.4, totalBytes: 2048 * 1024 }, 85, 85, 1);
+      
+      expect(logger.default.tableRow).toHaveBeenCalledWith('Time to First Byte (TTFB)', 120, 'ms');
+      expect(logger.default.tableRow).toHaveBeenCalledWith('Total Byte Weight', 2048, 'KB');
+      expect(logger.default.tableRow).not.toHaveBeenCalledWith('DOM Size', expect.anything(), expect.anything());
+    });
+
     it('should show good TBT interpretation for low values', async () => {
       const { printResults } = await import('./lighthouse-runner.js');
       const logger = await import('./logger.js');
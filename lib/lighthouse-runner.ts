@@ -3,29 +3,207 @@
  * Uses Puppeteer + Lighthouse for cross-platform compatibility
  */
 
-import puppeteer, { Browser, Page } from 'puppeteer';
+import puppeteer, { Browser } from 'puppeteer';
 import lighthouse, { Result as LighthouseResult } from 'lighthouse';
-import type { MeasurementResult, MeasureOptions, WebperfConfig } from './types.js';
+import type {
+  AdaptiveRunsConfig,
+  AdaptiveRunsOutcome,
+  Aggregate,
+  AppliedThrottling,
+  DeviceProfile,
+  ExtraMetric,
+  LighthouseReport,
+  MeasurementResult,
+  MeasurementRun,
+  MeasurementStats,
+  MeasureOptions,
+  PairedMeasureOptions,
+  PairedResult,
+  PairedRunRetryRecord,
+  RetryConfig,
+  RunError,
+  RunRetryRecord,
+  WebperfConfig,
+} from './types.js';
+import { aggregateLabel, comparePairs, computeStats, findMedianRun, pairedVerdict, relativePrecision, selectAggregate } from './stats.js';
+import { formatDevice, getLighthouseEmulation, resolveDeviceProfile } from './devices.js';
+import { CORE_METRICS, METRICS, formatMetricValue, getMetricDefinition, getPresentMetrics, resolveTrackedMetrics } from './metrics.js';
+import { formatThrottling, getLighthouseThrottling, resolveThrottling } from './throttling.js';
+import { canVerifyOverrides, hasOverrides, installOverrides, resolveVariant, verifyOverrides } from './overrides.js';
 import logger from './logger.js';
 
 /**
- * Apply custom overrides from user's config
+ * Defaults for adaptive run counts
  */
-async function applyCustomOverrides(page: Page, config: WebperfConfig): Promise<void> {
-  if (!config.applyOverrides) {
-    logger.log(logger.yellow('No override function configured - skipping overrides.'));
-    return;
+const DEFAULT_ADAPTIVE_RUNS: Required<AdaptiveRunsConfig> = {
+  minRuns: 3,
+  maxRuns: 20,
+  targetCv: 3,
+  metrics: ['score'],
+};
+
+/**
+ * Defaults for retrying crashed or hung runs
+ */
+const DEFAULT_RETRY: Required<RetryConfig> = {
+  retries: 2,
+  backoffMs: 2000,
+  runTimeoutMs: 120000,
+};
+
+/**
+ * Sleep utility
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Reject with a RUN_TIMEOUT error if the promise does not settle in time
+ * The abandoned promise's own failure (e.g., once its browser is closed) is ignored
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  promise.catch(() => undefined);
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(Object.assign(new Error(`Run timed out after ${ms / 1000}s`), { code: 'RUN_TIMEOUT' }));
+    }, ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Classify a run that threw
+ * Crashes, disconnects and protocol timeouts are transient and worth retrying;
+ * anything else (e.g., an invalid Lighthouse config) would fail again
+ */
+function classifyRunFailure(e: unknown, browser: Browser): RunError & { transient: boolean } {
+  const message = e instanceof Error ? e.message : String(e);
+  if ((e as { code?: string } | undefined)?.code === 'RUN_TIMEOUT') {
+    return { code: 'RUN_TIMEOUT', message, transient: true };
+  }
+  if (!browser.connected || /target closed|session closed|disconnected|connection closed|ECONNREFUSED|ECONNRESET/i.test(message)) {
+    return { code: 'BROWSER_DISCONNECTED', message, transient: true };
+  }
+  if (/protocol/i.test(message)) {
+    return { code: /timed out/i.test(message) ? 'PROTOCOL_TIMEOUT' : 'PROTOCOL_ERROR', message, transient: true };
+  }
+  return { code: 'RUN_FAILED', message, transient: false };
+}
+
+/**
+ * Launch Chrome
+ */
+async function launchBrowser(): Promise<Browser> {
+  return puppeteer.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-gpu', '--disable-dev-shm-usage'],
+  });
+}
+
+/**
+ * Confidence interval precision (percent of the mean) for each checked metric
+ */
+function measurePrecision(
+  metrics: MeasurementResult[],
+  keys: Array<keyof MeasurementResult>
+): Partial<Record<keyof MeasurementResult, number>> {
+  const precision: Partial<Record<keyof MeasurementResult, number>> = {};
+  for (const key of keys) {
+    precision[key] = relativePrecision(metrics.map(m => m[key] ?? 0));
   }
+  return precision;
+}
+
+/**
+ * Read a metric from its Lighthouse audit
+ * Audits without a numeric value (e.g., network-requests) count their items
+ */
+function readAudit(lhr: LighthouseResult, audit: string): number {
+  const result = lhr.audits[audit];
+  if (typeof result?.numericValue === 'number') return result.numericValue;
+  const items = (result?.details as { items?: unknown[] } | undefined)?.items;
+  return items ? items.length : 0;
+}
+
+/**
+ * Extract the core metrics plus any tracked extra metrics from a Lighthouse result
+ */
+function extractMetrics(lhr: LighthouseResult, trackedMetrics: ExtraMetric[]): MeasurementResult {
+  const metrics: MeasurementResult = {
+    score: Math.round((lhr.categories.performance?.score || 0) * 100),
+    fcp: lhr.audits['first-contentful-paint']?.numericValue || 0,
+    lcp: lhr.audits['largest-contentful-paint']?.numericValue || 0,
+    tbt: lhr.audits['total-blocking-time']?.numericValue || 0,
+    cls: lhr.audits['cumulative-layout-shift']?.numericValue || 0,
+    si: lhr.audits['speed-index']?.numericValue || 0,
+  };
   
-  logger.log(logger.yellow('Applying custom overrides from config...'));
+  for (const key of trackedMetrics) {
+    metrics[key] = readAudit(lhr, getMetricDefinition(key).audit!);
+  }
   
-  try {
-    await config.applyOverrides(page);
-    logger.log(`  ${logger.green('✓')} Custom overrides applied successfully`);
-  } catch (e) {
-    const error = e as Error;
-    logger.log(`  ${logger.red('✗')} Override failed: ${error.message}`);
+  return metrics;
+}
+
+/**
+ * Status code of the main document request, when Lighthouse recorded it
+ */
+function getMainDocumentStatus(lhr: LighthouseResult): number | undefined {
+  const items = (lhr.audits['network-requests']?.details as {
+    items?: Array<{ url?: string; statusCode?: number; resourceType?: string }>;
+  } | undefined)?.items;
+  if (!items) return undefined;
+  
+  const document = items.find(item => item.url === lhr.mainDocumentUrl)
+    || items.find(item => item.resourceType === 'Document');
+  return document?.statusCode;
+}
+
+/**
+ * Check whether a run produced usable metrics
+ * Lighthouse still returns numbers for a failed page load (e.g., NO_FCP or an error page),
+ * so they must not be averaged with real runs
+ */
+function findRunError(lhr: LighthouseResult, trackedMetrics: ExtraMetric[]): RunError | undefined {
+  if (lhr.runtimeError) {
+    return { code: lhr.runtimeError.code, message: lhr.runtimeError.message };
   }
+  
+  const missing = METRICS
+    .filter(m => m.audit && (CORE_METRICS.includes(m.key) || trackedMetrics.includes(m.key as ExtraMetric)))
+    .filter(m => {
+      const audit = lhr.audits[m.audit!];
+      return !audit || (typeof audit.numericValue !== 'number' && !(audit.details as { items?: unknown[] } | undefined)?.items);
+    })
+    .map(m => m.audit!);
+  if (typeof lhr.categories.performance?.score !== 'number') {
+    missing.unshift('performance score');
+  }
+  if (missing.length > 0) {
+    return { code: 'MISSING_AUDITS', message: `Missing ${missing.join(', ')}` };
+  }
+  
+  const status = getMainDocumentStatus(lhr);
+  if (status !== undefined && (status < 200 || status >= 300)) {
+    return { code: `HTTP_${status}`, message: `Main document returned status ${status}` };
+  }
+  
+  return undefined;
+}
+
+/**
+ * Settings shared by every run of a measurement session
+ */
+interface RunSettings {
+  device: DeviceProfile;
+  throttling: AppliedThrottling;
+  trackedMetrics: ExtraMetric[];
+  /** Render the full JSON and HTML reports (slower, only when they are saved) */
+  withReport: boolean;
+  /** Config whose overrides are installed on every measured page (null without --applyOverrides) */
+  overrides: WebperfConfig | null;
 }
 
 /**
@@ -35,44 +213,140 @@ async function runSingleMeasurement(
   browser: Browser,
   url: string,
   runNumber: number,
-  totalRuns: number
-): Promise<MeasurementResult> {
-  logger.log(logger.cyan(`  Run ${runNumber}/${totalRuns}...`));
+  totalRuns: number,
+  settings: RunSettings,
+  label = 'Run'
+): Promise<{ metrics: MeasurementResult; error?: RunError; report?: Omit<LighthouseReport, 'run'> }> {
+  logger.log(logger.cyan(`  ${label} ${runNumber}/${totalRuns}...`));
   
   const wsEndpoint = browser.wsEndpoint();
   const port = new URL(wsEndpoint).port;
-  
-  const { lhr } = await lighthouse(url, {
+  const flags = {
     port: parseInt(port, 10),
-    output: 'json',
+    output: settings.withReport ? ['json', 'html'] : 'json',
     onlyCategories: ['performance'],
-    formFactor: 'desktop',
-    screenEmulation: { disabled: true },
-    throttling: {
-      cpuSlowdownMultiplier: 1,
-    },
-  }) as { lhr: LighthouseResult };
+    ...getLighthouseEmulation(settings.device),
+    ...getLighthouseThrottling(settings.throttling),
+  } as Parameters<typeof lighthouse>[1];
   
-  const metrics: MeasurementResult = {
-    score: Math.round((lhr.categories.performance?.score || 0) * 100),
-    fcp: lhr.audits['first-contentful-paint']?.numericValue || 0,
-    lcp: lhr.audits['largest-contentful-paint']?.numericValue || 0,
-    tbt: lhr.audits['total-blocking-time']?.numericValue || 0,
-    cls: lhr.audits['cumulative-layout-shift']?.numericValue || 0,
-    si: lhr.audits['speed-index']?.numericValue || 0,
-  };
+  let lhr: LighthouseResult;
+  let report: string | string[] | undefined;
+  let error: RunError | undefined;
+  
+  if (settings.overrides) {
+    // Measure a page with the overrides installed before Lighthouse navigates it,
+    // so they are active during the measured load (not just on a throwaway page)
+    const page = await browser.newPage();
+    try {
+      await installOverrides(page, url, settings.overrides);
+      ({ lhr, report } = await lighthouse(url, flags, undefined, page) as { lhr: LighthouseResult; report?: string | string[] });
+      error = findRunError(lhr, settings.trackedMetrics) || await verifyOverrides(page, settings.overrides);
+    } finally {
+      await page.close().catch(() => undefined);
+    }
+  } else {
+    ({ lhr, report } = await lighthouse(url, flags) as { lhr: LighthouseResult; report?: string | string[] });
+    error = findRunError(lhr, settings.trackedMetrics);
+  }
   
-  logger.log(`    Score: ${metrics.score} | TBT: ${Math.round(metrics.tbt)}ms`);
+  const metrics = extractMetrics(lhr, settings.trackedMetrics);
   
-  return metrics;
+  if (error) {
+    logger.log(logger.yellow(`    ⚠ Invalid run: ${error.code} - ${error.message}`));
+  } else {
+    logger.log(`    Score: ${metrics.score} | TBT: ${Math.round(metrics.tbt)}ms`);
+  }
+  
+  return {
+    metrics,
+    ...(error && { error }),
+    ...(settings.withReport && Array.isArray(report) && { report: { json: report[0], html: report[1] } }),
+  };
 }
 
 /**
- * Calculate average of an array of numbers
+ * Browser shared by the runs of one measurement session
  */
-function average(arr: number[]): number {
-  if (arr.length === 0) return 0;
-  return arr.reduce((a, b) => a + b, 0) / arr.length;
+interface RunSession {
+  /** Run one measurement, retrying transient failures with backoff */
+  measure(
+    url: string,
+    runNumber: number,
+    totalRuns: number,
+    settings: RunSettings,
+    label?: string
+  ): Promise<{ outcome?: Awaited<ReturnType<typeof runSingleMeasurement>>; errors: RunError[] }>;
+  close(): Promise<void>;
+}
+
+/**
+ * Launch Chrome for a measurement session
+ * A timed-out or crashed browser is closed and replaced, even after the last attempt,
+ * so a hung run never stays attached to the browser the next run uses
+ */
+async function openRunSession(retry: Required<RetryConfig>): Promise<RunSession> {
+  let browser = await launchBrowser();
+  
+  return {
+    async measure(url, runNumber, totalRuns, settings, label) {
+      const errors: RunError[] = [];
+      for (let attempt = 1; attempt <= retry.retries + 1; attempt++) {
+        try {
+          const outcome = await withTimeout(
+            runSingleMeasurement(browser, url, runNumber, totalRuns, settings, label),
+            retry.runTimeoutMs
+          );
+          return { outcome, errors };
+        } catch (e) {
+          const { transient, ...error } = classifyRunFailure(e, browser);
+          errors.push(error);
+          logger.log(logger.yellow(`    ⚠ Attempt ${attempt} failed: ${error.code} - ${error.message}`));
+          const retrying = transient && attempt <= retry.retries;
+          const relaunch = error.code === 'RUN_TIMEOUT' || error.code === 'BROWSER_DISCONNECTED';
+          
+          // Closing the browser also ends a hung Lighthouse run
+          if (relaunch) {
+            await browser.close().catch(() => undefined);
+          }
+          if (retrying) {
+            const delay = retry.backoffMs * 2 ** (attempt - 1);
+            logger.log(logger.dim(`    Retrying in ${(delay / 1000).toFixed(1)}s...`));
+            await sleep(delay);
+          }
+          if (relaunch) {
+            logger.log(logger.yellow('    Relaunching Chrome...'));
+            browser = await launchBrowser();
+          }
+          if (!retrying) break;
+        }
+      }
+      logger.log(logger.red(`    ✗ Abandoned ${(label || 'run').toLowerCase()} ${runNumber} after ${errors.length} attempt${errors.length > 1 ? 's' : ''}`));
+      return { errors };
+    },
+    
+    async close() {
+      // The last browser may already have crashed
+      await browser.close().catch(() => undefined);
+    },
+  };
+}
+
+/**
+ * Warn that applyOverrides runs are counted without checking the overrides took effect
+ */
+function warnUnverifiedOverrides(): void {
+  logger.log(logger.yellow('Note: applyOverrides has no verifyOverrides check, so runs are counted without verifying the overrides.'));
+  logger.log(logger.dim('  Results are saved with overridesVerified: false'));
+  logger.newline();
+}
+
+/**
+ * Config whose overrides are installed on measured pages, or null for none
+ * A variant brings its own overrides (none for a control variant)
+ */
+function resolveRunOverrides(config: WebperfConfig, applyOverrides: boolean, variant?: string): WebperfConfig | null {
+  const overrideConfig = variant ? resolveVariant(config, variant) : config;
+  return (applyOverrides || variant) && hasOverrides(overrideConfig) ? overrideConfig : null;
 }
 
 /**
@@ -83,36 +357,94 @@ export async function runMeasurements(
   config: WebperfConfig
 ): Promise<{
   metrics: MeasurementResult[];
+  /** Per-run metrics with timing */
+  runs: MeasurementRun[];
+  /** Mean of each metric (after outlier rejection) */
   averages: MeasurementResult;
+  /** Per-metric statistics (after outlier rejection) */
+  stats: MeasurementStats;
   minScore: number;
   maxScore: number;
+  device: DeviceProfile;
+  throttling: AppliedThrottling;
+  /** Why the adaptive run count stopped (only with options.adaptive) */
+  adaptive?: AdaptiveRunsOutcome;
+  /** Discarded warm-up runs (excluded from every aggregate) */
+  warmup: MeasurementRun[];
+  /** Full Lighthouse reports (only with options.saveReports) */
+  reports?: LighthouseReport[];
+  /** Runs that were retried or abandoned */
+  retried: RunRetryRecord[];
+  /** Whether every run checked the overrides were in effect (only with overrides) */
+  overridesVerified?: boolean;
 }> {
+  // Resolve before launching so an unknown profile or preset fails fast
+  const device = resolveDeviceProfile(options.device);
+  const throttling = resolveThrottling(options.throttling, options.throttlingMethod);
+  const adaptive = options.adaptive ? { ...DEFAULT_ADAPTIVE_RUNS, ...options.adaptive } : null;
+  const plannedRuns = adaptive ? adaptive.maxRuns : options.runs;
+  const warmupRuns = options.warmupRuns || 0;
+  const retry = { ...DEFAULT_RETRY, ...options.retry };
+  const saveReports = options.saveReports && options.saveReports !== 'none' ? options.saveReports : null;
+  const runSettings: RunSettings = {
+    device,
+    throttling,
+    trackedMetrics: resolveTrackedMetrics(options.metrics),
+    withReport: saveReports !== null,
+    overrides: resolveRunOverrides(config, options.applyOverrides, options.variant),
+  };
+  
   logger.boxHeader('Lighthouse Performance Measurement');
   logger.newline();
   
   logger.log(`${logger.cyan('Target URL:')} ${options.url}`);
-  logger.log(`${logger.cyan('Number of runs:')} ${options.runs}`);
+  if (adaptive) {
+    logger.log(`${logger.cyan('Number of runs:')} auto (${adaptive.minRuns}-${adaptive.maxRuns}, until ${adaptive.metrics.join(', ')} within ±${adaptive.targetCv}%)`);
+  } else {
+    logger.log(`${logger.cyan('Number of runs:')} ${options.runs}`);
+  }
+  if (warmupRuns > 0) logger.log(`${logger.cyan('Warm-up runs:')} ${warmupRuns} (discarded)`);
+  logger.log(`${logger.cyan('Device:')} ${formatDevice(device)}`);
+  logger.log(`${logger.cyan('Throttling:')} ${formatThrottling(throttling)}`);
+  if (runSettings.trackedMetrics.length > 0) logger.log(`${logger.cyan('Extra metrics:')} ${runSettings.trackedMetrics.join(', ')}`);
+  if (saveReports) logger.log(`${logger.cyan('Reports:')} ${saveReports === 'median' ? 'median run only' : 'every run'}`);
   if (options.note) logger.log(`${logger.cyan('Note:')} ${options.note}`);
-  logger.log(`${logger.cyan('Apply Overrides:')} ${options.applyOverrides ? 'Yes' : 'No'}`);
+  if (options.variant) {
+    const description = config.variants![options.variant].description;
+    logger.log(`${logger.cyan('Variant:')} ${options.variant}${description ? ` - ${description}` : ''}`);
+  } else {
+    logger.log(`${logger.cyan('Apply Overrides:')} ${options.applyOverrides ? 'Yes' : 'No'}`);
+  }
   logger.newline();
   
+  if (options.applyOverrides && !options.variant && !hasOverrides(config)) {
+    logger.log(logger.yellow('Note: --applyOverrides requested but no applyOverrides function or overrides in config.'));
+    logger.newline();
+  }
+  const overridesVerified = runSettings.overrides ? canVerifyOverrides(runSettings.overrides) : undefined;
+  if (overridesVerified === false) {
+    warnUnverifiedOverrides();
+  }
+  
   // Launch browser
   logger.log(logger.yellow('Launching Chrome...'));
-  const browser = await puppeteer.launch({
-    headless: true,
-    args: ['--no-sandbox', '--disable-gpu', '--disable-dev-shm-usage'],
-  });
+  const session = await openRunSession(retry);
   
   try {
-    // Apply custom overrides if enabled and config has override function
-    if (options.applyOverrides && config.applyOverrides) {
-      const page = await browser.newPage();
-      await page.goto(options.url, { waitUntil: 'networkidle0', timeout: 60000 });
-      await applyCustomOverrides(page, config);
-      await page.close();
+    // Warm up the server (JIT, caches, lazy route compilation) without recording the results
+    const warmup: MeasurementRun[] = [];
+    if (warmupRuns > 0) {
+      logger.log(logger.yellow('Warming up...'));
       logger.newline();
-    } else if (options.applyOverrides && !config.applyOverrides) {
-      logger.log(logger.yellow('Note: --applyOverrides requested but no applyOverrides function in config.'));
+      for (let i = 1; i <= warmupRuns; i++) {
+        const startedAt = new Date().toISOString();
+        const runStart = Date.now();
+        const { outcome } = await session.measure(options.url, i, warmupRuns, { ...runSettings, withReport: false }, 'Warm-up');
+        if (outcome) {
+          const { metrics: result, error } = outcome;
+          warmup.push({ run: i, startedAt, duration: Date.now() - runStart, metrics: result, ...(error && { error }) });
+        }
+      }
       logger.newline();
     }
     
@@ -121,71 +453,295 @@ export async function runMeasurements(
     logger.newline();
     
     const metrics: MeasurementResult[] = [];
+    const runs: MeasurementRun[] = [];
+    const reports: LighthouseReport[] = [];
+    const retried: RunRetryRecord[] = [];
     
-    for (let i = 1; i <= options.runs; i++) {
-      const result = await runSingleMeasurement(browser, options.url, i, options.runs);
-      metrics.push(result);
+    let adaptiveOutcome: AdaptiveRunsOutcome | undefined;
+    
+    for (let i = 1; i <= plannedRuns; i++) {
+      const startedAt = new Date().toISOString();
+      const runStart = Date.now();
+      const { outcome, errors } = await session.measure(options.url, i, plannedRuns, runSettings);
+      if (errors.length > 0) {
+        retried.push({ run: i, attempts: errors.length + (outcome ? 1 : 0), errors, abandoned: !outcome });
+      }
+      
+      if (outcome) {
+        const { metrics: result, error, report } = outcome;
+        // Invalid runs are recorded but never aggregated
+        if (!error) metrics.push(result);
+        if (report) reports.push({ run: i, ...report });
+        runs.push({ run: i, startedAt, duration: Date.now() - runStart, metrics: result, ...(error && { error }) });
+      }
+      
+      // Stop early once every checked metric's confidence interval is narrow enough
+      if (adaptive && (metrics.length >= adaptive.minRuns || i === plannedRuns)) {
+        const precision = measurePrecision(metrics, adaptive.metrics);
+        const converged = metrics.length >= adaptive.minRuns
+          && Object.values(precision).every(p => p <= adaptive.targetCv);
+        const details = Object.entries(precision).map(([k, p]) => `${k} ±${p.toFixed(1)}%`).join(', ');
+        logger.log(logger.dim(`    Precision: ${details}`));
+        
+        if (converged || i === plannedRuns) {
+          adaptiveOutcome = {
+            stopReason: converged ? 'converged' : 'max-runs',
+            minRuns: adaptive.minRuns,
+            maxRuns: adaptive.maxRuns,
+            targetCv: adaptive.targetCv,
+            precision,
+          };
+          if (converged) {
+            logger.log(logger.green(`  ✓ Stable after ${i} runs`));
+          } else {
+            logger.log(logger.yellow(`  ⚠ Not stable after ${i} runs (max runs reached)`));
+          }
+          break;
+        }
+      }
       
       // Brief pause between runs
-      if (i < options.runs) {
-        await new Promise(r => setTimeout(r, 2000));
+      if (i < plannedRuns) {
+        await sleep(2000);
       }
     }
     
-    // Calculate averages
+    const invalidRuns = runs.filter(r => r.error);
+    const abandonedRuns = retried.filter(r => r.abandoned);
+    if (metrics.length === 0) {
+      // Abandoned runs keep their message - it is often the only clue (e.g., a bad config)
+      const codes = [...new Set([
+        ...invalidRuns.map(r => r.error!.code),
+        ...abandonedRuns.map(r => {
+          const last = r.errors[r.errors.length - 1];
+          return `${last.code}: ${last.message}`;
+        }),
+      ])].join(', ');
+      const failedCount = invalidRuns.length + abandonedRuns.length;
+      throw new Error(`All ${failedCount} runs were ${abandonedRuns.length > 0 ? 'invalid or abandoned' : 'invalid'} (${codes})`);
+    }
+    if (invalidRuns.length > 0) {
+      logger.log(logger.yellow(`  ⚠ ${invalidRuns.length} of ${runs.length} runs were invalid and excluded`));
+    }
+    if (retried.length > 0) {
+      logger.log(logger.yellow(`  ⚠ ${retried.length} run${retried.length > 1 ? 's' : ''} retried, ${abandonedRuns.length} abandoned`));
+    }
+    
+    // Calculate statistics; the score range always reflects every valid run
     const scores = metrics.map(m => m.score);
-    const averages: MeasurementResult = {
-      score: average(scores),
-      fcp: average(metrics.map(m => m.fcp)),
-      lcp: average(metrics.map(m => m.lcp)),
-      tbt: average(metrics.map(m => m.tbt)),
-      cls: average(metrics.map(m => m.cls)),
-      si: average(metrics.map(m => m.si)),
-    };
+    const stats = computeStats(metrics, options.outlierPolicy);
+    const averages = selectAggregate(stats, 'mean');
     
     return {
       metrics,
+      runs,
       averages,
+      stats,
       minScore: Math.min(...scores),
       maxScore: Math.max(...scores),
+      device,
+      throttling,
+      ...(adaptiveOutcome && { adaptive: adaptiveOutcome }),
+      warmup,
+      retried,
+      ...(overridesVerified !== undefined && { overridesVerified }),
+      // Keeping only the median run's report saves disk for long sessions
+      ...(saveReports && {
+        reports: saveReports === 'median'
+          ? reports.filter(r => r.run === runs.filter(run => !run.error)[findMedianRun(metrics)].run)
+          : reports,
+      }),
+    };
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Run interleaved A/B measurements (ABAB...) in one browser session
+ * Drift such as thermal throttling hits both runs of a pair alike instead of biasing one side
+ */
+export async function runPairedMeasurements(
+  options: PairedMeasureOptions,
+  config: WebperfConfig
+): Promise<Omit<PairedResult, 'type' | 'timestamp' | 'note'>> {
+  // Resolve before launching so an unknown profile, preset or variant fails fast
+  const device = resolveDeviceProfile(options.device);
+  const throttling = resolveThrottling(options.throttling, options.throttlingMethod);
+  const trackedMetrics = resolveTrackedMetrics(options.metrics);
+  const retry = { ...DEFAULT_RETRY, ...options.retry };
+  const warmupRuns = options.warmupRuns || 0;
+  const targets = [options.a, options.b];
+  const sides = ['A', 'B'] as const;
+  const settings: RunSettings[] = targets.map(target => ({
+    device,
+    throttling,
+    trackedMetrics,
+    withReport: false,
+    overrides: resolveRunOverrides(config, target.applyOverrides, target.variant),
+  }));
+  const overridesVerified = settings.map(s => (s.overrides ? canVerifyOverrides(s.overrides) : undefined));
+  
+  logger.boxHeader('Interleaved A/B Measurement');
+  logger.newline();
+  
+  targets.forEach((target, i) => {
+    const url = target.label === target.url ? '' : logger.dim(` (${target.url})`);
+    logger.log(`${logger.cyan(`${sides[i]}:`)} ${target.label}${url}`);
+  });
+  logger.log(`${logger.cyan('Pairs:')} ${options.runs} (ABAB...)`);
+  if (warmupRuns > 0) logger.log(`${logger.cyan('Warm-up runs:')} ${warmupRuns} per side (discarded)`);
+  logger.log(`${logger.cyan('Device:')} ${formatDevice(device)}`);
+  logger.log(`${logger.cyan('Throttling:')} ${formatThrottling(throttling)}`);
+  if (trackedMetrics.length > 0) logger.log(`${logger.cyan('Extra metrics:')} ${trackedMetrics.join(', ')}`);
+  if (options.note) logger.log(`${logger.cyan('Note:')} ${options.note}`);
+  logger.newline();
+  
+  if (overridesVerified.includes(false)) {
+    warnUnverifiedOverrides();
+  }
+  
+  logger.log(logger.yellow('Launching Chrome...'));
+  const session = await openRunSession(retry);
+  
+  try {
+    if (warmupRuns > 0) {
+      logger.log(logger.yellow('Warming up...'));
+      logger.newline();
+      for (let i = 1; i <= warmupRuns; i++) {
+        for (let side = 0; side < 2; side++) {
+          await session.measure(targets[side].url, i, warmupRuns, settings[side], `Warm-up ${sides[side]}`);
+        }
+      }
+      logger.newline();
+    }
+    
+    logger.log(logger.yellow('Running Lighthouse tests...'));
+    logger.newline();
+    
+    const runs: MeasurementRun[][] = [[], []];
+    const retried: PairedRunRetryRecord[] = [];
+    let runCount = 0;
+    
+    for (let i = 1; i <= options.runs; i++) {
+      for (let side = 0; side < 2; side++) {
+        runCount++;
+        const startedAt = new Date().toISOString();
+        const runStart = Date.now();
+        const { outcome, errors } = await session.measure(targets[side].url, i, options.runs, settings[side], `Run ${sides[side]}`);
+        if (errors.length > 0) {
+          retried.push({ run: i, side: sides[side], attempts: errors.length + (outcome ? 1 : 0), errors, abandoned: !outcome });
+        }
+        if (outcome) {
+          const { metrics: result, error } = outcome;
+          runs[side].push({ run: i, startedAt, duration: Date.now() - runStart, metrics: result, ...(error && { error }) });
+        }
+        
+        // Brief pause between runs
+        if (runCount < options.runs * 2) {
+          await sleep(2000);
+        }
+      }
+    }
+    
+    // Only pairs where both runs are valid are compared
+    const valid = runs.map(sideRuns => new Map(sideRuns.filter(r => !r.error).map(r => [r.run, r.metrics])));
+    const pairs = [...valid[0]]
+      .filter(([run]) => valid[1].has(run))
+      .map(([run, a]): [MeasurementResult, MeasurementResult] => [a, valid[1].get(run)!]);
+    if (pairs.length < 2) {
+      throw new Error(`Only ${pairs.length} of ${options.runs} pairs had two valid runs (at least 2 are needed to compare)`);
+    }
+    if (pairs.length < options.runs) {
+      logger.log(logger.yellow(`  ⚠ ${options.runs - pairs.length} of ${options.runs} pairs had an invalid or abandoned run and were excluded`));
+    }
+    
+    const deltas = comparePairs(pairs);
+    
+    return {
+      device,
+      throttling,
+      pairs: options.runs,
+      validPairs: pairs.length,
+      a: {
+        ...options.a,
+        ...(overridesVerified[0] !== undefined && { overridesVerified: overridesVerified[0] }),
+        runResults: runs[0],
+        stats: computeStats([...valid[0].values()], options.outlierPolicy),
+      },
+      b: {
+        ...options.b,
+        ...(overridesVerified[1] !== undefined && { overridesVerified: overridesVerified[1] }),
+        runResults: runs[1],
+        stats: computeStats([...valid[1].values()], options.outlierPolicy),
+      },
+      deltas,
+      verdict: pairedVerdict(deltas),
+      ...(retried.length > 0 && { retriedRuns: retried }),
     };
   } finally {
-    await browser.close();
+    await session.close();
+  }
+}
+
+/**
+ * Print per-metric statistics (spread across runs)
+ */
+function printStats(stats: MeasurementStats): void {
+  logger.log(`  ${logger.bold('Statistics'.padEnd(12))} ${['Median', 'P75', 'P90', 'Min', 'Max', 'StdDev', 'CV'].map(h => logger.bold(h.padStart(8))).join(' ')}`);
+  logger.separator();
+  
+  for (const { key, short } of getPresentMetrics(selectAggregate(stats, 'mean'))) {
+    const s = stats[key];
+    const fmt = (v: number) => formatMetricValue(key, v).padStart(8);
+    const outliers = s.outliers > 0 ? logger.yellow(` (${s.outliers} outlier${s.outliers > 1 ? 's' : ''} dropped)`) : '';
+    logger.log(`  ${short.padEnd(12)} ${[s.median, s.p75, s.p90, s.min, s.max, s.stddev].map(fmt).join(' ')} ${`${s.cv.toFixed(1)}%`.padStart(8)}${outliers}`);
   }
 }
 
 /**
  * Print measurement results to console
+ * With stats, the table shows the chosen aggregate and a statistics block follows
  */
 export function printResults(
   averages: MeasurementResult,
   minScore: number,
   maxScore: number,
   runs: number,
-  note?: string
+  note?: string,
+  stats?: MeasurementStats,
+  aggregate: Aggregate = 'mean'
 ): void {
+  const headline = stats ? selectAggregate(stats, aggregate) : averages;
+  const headlineLabel = stats ? aggregateLabel(aggregate) : 'Average';
+  
   logger.newline();
   logger.header('PERFORMANCE RESULTS');
   logger.newline();
   
-  logger.log(`  ${logger.bold('Metric'.padEnd(32))} ${logger.bold('Average'.padStart(12))} ${logger.bold('Unit'.padStart(12))}`);
+  logger.log(`  ${logger.bold('Metric'.padEnd(32))} ${logger.bold(headlineLabel.padStart(12))} ${logger.bold('Unit'.padStart(12))}`);
   logger.separator();
   
   // Performance score with color
-  const scoreStr = logger.scoreColor(Math.round(averages.score));
+  const scoreStr = logger.scoreColor(Math.round(headline.score));
   logger.log(`  ${'Performance Score'.padEnd(32)} ${scoreStr.padStart(12)} ${'/100'.padStart(12)}`);
   
-  logger.tableRow('First Contentful Paint (FCP)', Math.round(averages.fcp), 'ms');
-  logger.tableRow('Largest Contentful Paint (LCP)', Math.round(averages.lcp), 'ms');
-  logger.tableRow('Total Blocking Time (TBT)', Math.round(averages.tbt), 'ms');
-  logger.tableRow('Cumulative Layout Shift (CLS)', averages.cls.toFixed(3), '');
-  logger.tableRow('Speed Index', Math.round(averages.si), 'ms');
+  for (const { key, name, unit, decimals } of getPresentMetrics(headline)) {
+    if (key === 'score') continue;
+    const value = formatMetricValue(key, headline[key]!);
+    logger.tableRow(name, decimals > 0 ? value : Number(value), unit);
+  }
   
   logger.newline();
   logger.separator();
   logger.log(`  Score range: ${minScore} - ${maxScore} (across ${runs} runs)`);
   logger.newline();
   
+  if (stats) {
+    printStats(stats);
+    logger.newline();
+  }
+  
   if (note) {
     logger.log(logger.magenta(`Note: ${note}`));
     logger.newline();
@@ -194,17 +750,17 @@ export function printResults(
   // Quick interpretation
   logger.log(logger.magenta('Quick Interpretation:'));
   
-  if (averages.tbt > 600) {
+  if (headline.tbt > 600) {
     logger.log(logger.red('  ⚠ TBT > 600ms - Main thread is heavily blocked. Look for long tasks.'));
-  } else if (averages.tbt > 200) {
+  } else if (headline.tbt > 200) {
     logger.log(logger.yellow('  ⚡ TBT 200-600ms - Some blocking. Room for improvement.'));
   } else {
     logger.log(logger.green('  ✓ TBT < 200ms - Good interactivity!'));
   }
   
-  if (averages.lcp > 4000) {
+  if (headline.lcp > 4000) {
     logger.log(logger.red('  ⚠ LCP > 4s - Largest paint is slow. Check images/fonts.'));
-  } else if (averages.lcp > 2500) {
+  } else if (headline.lcp > 2500) {
     logger.log(logger.yellow('  ⚡ LCP 2.5-4s - Needs improvement.'));
   } else {
     logger.log(logger.green('  ✓ LCP < 2.5s - Good perceived load speed!'));
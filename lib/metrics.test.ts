@@ -0,0 +1,76 @@
+import {
+  CORE_METRICS,
+  EXTRA_METRICS,
+  METRICS,
+  formatMetricValue,
+  formatMetricWithUnit,
+  getMetricDefinition,
+  getPresentMetrics,
+  resolveTrackedMetrics,
+} from './metrics.js';
+import { describe, expect, it } from 'vitest';
+
+describe('metrics', () => {
+  describe('METRICS', () => {
+    it('should define every core and extra metric once', () => {
+      expect(METRICS.map(m => m.key)).toEqual([...CORE_METRICS, ...EXTRA_METRICS]);
+    });
+
+    it('should read extra metrics from their Lighthouse audits', () => {
+      expect(getMetricDefinition('ttfb').audit).toBe('server-response-time');
+      expect(getMetricDefinition('mainThreadWork').audit).toBe('mainthread-work-breakdown');
+    });
+  });
+
+  describe('resolveTrackedMetrics', () => {
+    it('should track nothing extra by default', () => {
+      expect(resolveTrackedMetrics()).toEqual([]);
+      expect(resolveTrackedMetrics([])).toEqual([]);
+    });
+
+    it('should keep display order', () => {
+      expect(resolveTrackedMetrics(['requests', 'ttfb'])).toEqual(['ttfb', 'requests']);
+    });
+
+    it('should expand all', () => {
+      expect(resolveTrackedMetrics(['all'])).toEqual(EXTRA_METRICS);
+    });
+
+    it('should throw for unknown metrics', () => {
+      expect(() => resolveTrackedMetrics(['fid' as any])).toThrow('Unknown metric: fid');
+    });
+  });
+
+  describe('getPresentMetrics', () => {
+    const core = { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 };
+
+    it('should return core metrics for results without extras', () => {
+      expect(getPresentMetrics(core).map(m => m.key)).toEqual(CORE_METRICS);
+    });
+
+    it('should only include extras present in every result', () => {
+      const keys = getPresentMetrics({ ...core, ttfb: 200, domSize: 900 }, { ...core, ttfb: 180 }).map(m => m.key);
+      expect(keys).toEqual([...CORE_METRICS, 'ttfb']);
+    });
+  });
+
+  describe('formatMetricValue', () => {
+    it('should round timings and keep CLS decimals', () => {
+      expect(formatMetricValue('lcp', 2100.6)).toBe('2101');
+      expect(formatMetricValue('cls', 0.0512)).toBe('0.051');
+    });
+
+    it('should show byte weight in KB', () => {
+      expect(formatMetricValue('totalBytes', 2048 * 1024)).toBe('2048');
+    });
+  });
+
+  describe('formatMetricWithUnit', () => {
+    it('should add the unit, except for scores and CLS', () => {
+      expect(formatMetricWithUnit('lcp', 2100.6)).toBe('2101 ms');
+      expect(formatMetricWithUnit('totalBytes', 2048 * 1024)).toBe('2048 KB');
+      expect(formatMetricWithUnit('score', 85)).toBe('85');
+      expect(formatMetricWithUnit('cls', 0.05)).toBe('0.050');
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Metric definitions
+ * Core metrics are always captured; extra metrics only when tracked
+ */
+
+import type { ExtraMetric, MeasurementResult, MetricDefinition, MetricKey } from './types.js';
+
+/**
+ * Every metric in display order
+ */
+export const METRICS: MetricDefinition[] = [
+  { key: 'score', name: 'Performance Score', label: 'Performance Score', short: 'Score', unit: '/100', higherIsBetter: true, decimals: 0 },
+  { key: 'fcp', name: 'First Contentful Paint (FCP)', label: 'FCP (ms)', short: 'FCP', unit: 'ms', audit: 'first-contentful-paint', higherIsBetter: false, decimals: 0 },
+  { key: 'lcp', name: 'Largest Contentful Paint (LCP)', label: 'LCP (ms)', short: 'LCP', unit: 'ms', audit: 'largest-contentful-paint', higherIsBetter: false, decimals: 0 },
+  { key: 'tbt', name: 'Total Blocking Time (TBT)', label: 'TBT (ms)', short: 'TBT', unit: 'ms', audit: 'total-blocking-time', higherIsBetter: false, decimals: 0 },
+  { key: 'cls', name: 'Cumulative Layout Shift (CLS)', label: 'CLS', short: 'CLS', unit: '', audit: 'cumulative-layout-shift', higherIsBetter: false, decimals: 3 },
+  { key: 'si', name: 'Speed Index', label: 'Speed Index (ms)', short: 'SI', unit: 'ms', audit: 'speed-index', higherIsBetter: false, decimals: 0 },
+  { key: 'ttfb', name: 'Time to First Byte (TTFB)', label: 'TTFB (ms)', short: 'TTFB', unit: 'ms', audit: 'server-response-time', higherIsBetter: false, decimals: 0 },
+  { key: 'tti', name: 'Time to Interactive (TTI)', label: 'TTI (ms)', short: 'TTI', unit: 'ms', audit: 'interactive', higherIsBetter: false, decimals: 0 },
+  { key: 'maxFid', name: 'Max Potential FID', label: 'Max Potential FID (ms)', short: 'Max FID', unit: 'ms', audit: 'max-potential-fid', higherIsBetter: false, decimals: 0 },
+  { key: 'totalBytes', name: 'Total Byte Weight', label: 'Total Bytes (KB)', short: 'Total KB', unit: 'KB', audit: 'total-byte-weight', higherIsBetter: false, decimals: 0 },
+  // network-requests has no numeric value - the request count is its number of items
+  { key: 'requests', name: 'Network Requests', label: 'Requests', short: 'Requests', unit: '', audit: 'network-requests', higherIsBetter: false, decimals: 0 },
+  { key: 'domSize', name: 'DOM Size', label: 'DOM Elements', short: 'DOM', unit: '', audit: 'dom-size', higherIsBetter: false, decimals: 0 },
+  { key: 'mainThreadWork', name: 'Main-Thread Work', label: 'Main-Thread Work (ms)', short: 'Main thread', unit: 'ms', audit: 'mainthread-work-breakdown', higherIsBetter: false, decimals: 0 },
+];
+
+/**
+ * Metrics captured for every measurement
+ */
+export const CORE_METRICS: MetricKey[] = ['score', 'fcp', 'lcp', 'tbt', 'cls', 'si'];
+
+/**
+ * Metrics captured only when tracked
+ */
+export const EXTRA_METRICS: ExtraMetric[] = ['ttfb', 'tti', 'maxFid', 'totalBytes', 'requests', 'domSize', 'mainThreadWork'];
+
+/**
+ * Get the definition of a metric
+ */
+export function getMetricDefinition(key: MetricKey): MetricDefinition {
+  return METRICS.find(m => m.key === key)!;
+}
+
+/**
+ * Validate a list of extra metrics ("all" tracks every extra metric)
+ * @throws Error for unknown metrics
+ */
+export function resolveTrackedMetrics(metrics?: Array<ExtraMetric | 'all'>): ExtraMetric[] {
+  if (!metrics || metrics.length === 0) return [];
+  if (metrics.includes('all')) return [...EXTRA_METRICS];
+
+  for (const metric of metrics) {
+    if (!EXTRA_METRICS.includes(metric as ExtraMetric)) {
+      throw new Error(`Unknown metric: ${metric} (available: ${EXTRA_METRICS.join(', ')}, all)`);
+    }
+  }
+  // Keep display order regardless of the order given
+  return EXTRA_METRICS.filter(m => metrics.includes(m));
+}
+
+/**
+ * Definitions of the metrics present in every given result, in display order
+ * Older summaries and untracked metrics are skipped
+ */
+export function getPresentMetrics(...results: MeasurementResult[]): MetricDefinition[] {
+  return METRICS.filter(m => results.every(r => typeof r[m.key] === 'number'));
+}
+
+/**
+ * Format a metric value for display, without its unit (bytes are shown as KB)
+ */
+export function formatMetricValue(key: MetricKey, value: number): string {
+  const { unit, decimals } = getMetricDefinition(key);
+  const displayValue = unit === 'KB' ? value / 1024 : value;
+  return decimals > 0 ? displayValue.toFixed(decimals) : Math.round(displayValue).toString();
+}
+
+/**
+ * Format a metric value with its unit (bytes are shown as KB, scores without /100)
+ */
+export function formatMetricWithUnit(key: MetricKey, value: number): string {
+  const { unit } = getMetricDefinition(key);
+  return `${formatMetricValue(key, value)}${unit && unit !== '/100' ? ` ${unit}` : ''}`;
+}
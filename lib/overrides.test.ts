@@ -0,0 +1,167 @@
+import type { PageForOverrides, WebperfConfig } from './types.js';
+import {
+  OVERRIDES_MARKER,
+  buildOverrideScript,
+  canVerifyOverrides,
+  hasOverrides,
+  installOverrides,
+  resolveVariant,
+  verifyOverrides,
+} from './overrides.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('overrides', () => {
+  const baseConfig: WebperfConfig = {
+    services: [],
+    defaultUrl: 'https://example.com',
+    defaultRuns: 5,
+  };
+
+  const page = {
+    evaluate: vi.fn(),
+    evaluateOnNewDocument: vi.fn(),
+    setCookie: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    page.evaluate.mockResolvedValue(true);
+  });
+
+  describe('hasOverrides', () => {
+    it('should detect an applyOverrides function or declarative overrides', () => {
+      expect(hasOverrides(baseConfig)).toBe(false);
+      expect(hasOverrides({ ...baseConfig, applyOverrides: async () => {} })).toBe(true);
+      expect(hasOverrides({ ...baseConfig, overrides: { script: '' } })).toBe(true);
+    });
+  });
+
+  describe('buildOverrideScript', () => {
+    it('should seed storage, run the script and set the marker last', () => {
+      const script = buildOverrideScript({
+        localStorage: { consent: 'accepted' },
+        script: 'window.flag = true;',
+      });
+
+      expect(script).toContain('localStorage.setItem');
+      expect(script).toContain('{"consent":"accepted"}');
+      expect(script).not.toContain('sessionStorage');
+      expect(script.indexOf('window.flag = true;')).toBeLessThan(script.indexOf(`window.${OVERRIDES_MARKER} = true;`));
+    });
+
+    it('should produce a valid script', () => {
+      const script = buildOverrideScript({ sessionStorage: { 'it\'s': '"quoted"' }, script: 'void 0;' });
+      expect(() => new Function(script)).not.toThrow();
+    });
+  });
+
+  describe('installOverrides', () => {
+    it('should inject the script and default cookies to the measured URL', async () => {
+      const config = {
+        ...baseConfig,
+        overrides: {
+          cookies: [{ name: 'ab', value: 'b' }, { name: 'geo', value: 'eu', domain: '.example.com' }],
+        },
+      };
+
+      await installOverrides(page as unknown as PageForOverrides, 'https://example.com/shop', config);
+
+      expect(page.evaluateOnNewDocument).toHaveBeenCalledWith(buildOverrideScript(config.overrides));
+      expect(page.setCookie).toHaveBeenCalledWith(
+        { name: 'ab', value: 'b', url: 'https://example.com/shop' },
+        { name: 'geo', value: 'eu', domain: '.example.com' }
+      );
+    });
+
+    it('should call applyOverrides with the page', async () => {
+      const applyOverrides = vi.fn();
+
+      await installOverrides(page as unknown as PageForOverrides, 'https://example.com', { ...baseConfig, applyOverrides });
+
+      expect(applyOverrides).toHaveBeenCalledWith(page);
+      expect(page.evaluateOnNewDocument).not.toHaveBeenCalled();
+    });
+
+    it('should fail when applyOverrides throws', async () => {
+      const applyOverrides = vi.fn().mockRejectedValue(new Error('boom'));
+
+      await expect(
+        installOverrides(page as unknown as PageForOverrides, 'https://example.com', { ...baseConfig, applyOverrides })
+      ).rejects.toThrow('Override failed: boom');
+    });
+  });
+
+  describe('verifyOverrides', () => {
+    it('should skip verification without declarative overrides', async () => {
+      expect(await verifyOverrides(page as unknown as PageForOverrides, baseConfig)).toBeUndefined();
+      expect(page.evaluate).not.toHaveBeenCalled();
+    });
+
+    it('should pass when the marker and storage are in place', async () => {
+      const config = { ...baseConfig, overrides: { localStorage: { consent: 'accepted' } } };
+
+      expect(await verifyOverrides(page as unknown as PageForOverrides, config)).toBeUndefined();
+      expect(page.evaluate).toHaveBeenCalledWith(expect.any(Function), OVERRIDES_MARKER, { consent: 'accepted' }, {});
+    });
+
+    it('should fail when the override script did not run', async () => {
+      page.evaluate.mockResolvedValue(false);
+
+      const error = await verifyOverrides(page as unknown as PageForOverrides, { ...baseConfig, overrides: { script: '' } });
+
+      expect(error?.code).toBe('OVERRIDES_NOT_APPLIED');
+    });
+
+    it('should fail when the custom check fails', async () => {
+      const verify = vi.fn().mockResolvedValue(false);
+
+      const error = await verifyOverrides(page as unknown as PageForOverrides, { ...baseConfig, overrides: { verify } });
+
+      expect(verify).toHaveBeenCalledWith(page);
+      expect(error).toEqual({ code: 'OVERRIDES_NOT_APPLIED', message: 'Custom override verification failed' });
+    });
+
+    it('should run the verifyOverrides check of an applyOverrides config', async () => {
+      const verifyOverridesCheck = vi.fn().mockResolvedValue(false);
+      const config = { ...baseConfig, applyOverrides: vi.fn(), verifyOverrides: verifyOverridesCheck };
+
+      const error = await verifyOverrides(page as unknown as PageForOverrides, config);
+
+      expect(verifyOverridesCheck).toHaveBeenCalledWith(page);
+      expect(error).toEqual({ code: 'OVERRIDES_NOT_APPLIED', message: 'applyOverrides verification failed' });
+    });
+  });
+
+  describe('canVerifyOverrides', () => {
+    it('should only verify applyOverrides with a verifyOverrides check', () => {
+      const applyOverrides = vi.fn();
+
+      expect(canVerifyOverrides({ ...baseConfig, overrides: { script: '' } })).toBe(true);
+      expect(canVerifyOverrides({ ...baseConfig, applyOverrides })).toBe(false);
+      expect(canVerifyOverrides({ ...baseConfig, applyOverrides, overrides: { script: '' } })).toBe(false);
+      expect(canVerifyOverrides({ ...baseConfig, applyOverrides, verifyOverrides: vi.fn() })).toBe(true);
+    });
+  });
+
+  describe('resolveVariant', () => {
+    it('should replace the top-level overrides with the variant\'s', () => {
+      const applyOverrides = vi.fn();
+      const config: WebperfConfig = {
+        ...baseConfig,
+        overrides: { script: 'window.top = 1;' },
+        variants: {
+          off: { description: 'Control' },
+          'flag-a': { applyOverrides },
+        },
+      };
+
+      expect(resolveVariant(config, 'flag-a')).toMatchObject({ applyOverrides, overrides: undefined });
+      expect(hasOverrides(resolveVariant(config, 'off'))).toBe(false);
+    });
+
+    it('should throw for unknown variants', () => {
+      expect(() => resolveVariant({ ...baseConfig, variants: { off: {} } }, 'on')).toThrow('Unknown variant: on (available: off)');
+      expect(() => resolveVariant(baseConfig, 'on')).toThrow('no variants in config');
+    });
+  });
+});
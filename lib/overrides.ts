@@ -0,0 +1,126 @@
+/**
+ * Overrides on the measured page
+ * Installed before every Lighthouse navigation and verified after it
+ */
+
+import type { PageForOverrides, PageOverrides, RunError, WebperfConfig } from './types.js';
+
+/**
+ * Global set by the override script once it ran without errors
+ */
+export const OVERRIDES_MARKER = '__webperfOverrides';
+
+/**
+ * Whether the config has anything to install on the measured page
+ */
+export function hasOverrides(config: WebperfConfig): boolean {
+  return Boolean(config.applyOverrides || config.overrides);
+}
+
+/**
+ * Whether verifyOverrides can confirm every part of the config's overrides
+ * Declarative overrides are always checked; applyOverrides only with a verifyOverrides function
+ */
+export function canVerifyOverrides(config: WebperfConfig): boolean {
+  return !config.applyOverrides || Boolean(config.verifyOverrides);
+}
+
+/**
+ * Build the script that seeds storage and runs the custom override script
+ * The marker is only set when everything succeeded, so verification catches a failed script
+ */
+export function buildOverrideScript(overrides: PageOverrides): string {
+  const lines: string[] = [];
+
+  for (const storage of ['localStorage', 'sessionStorage'] as const) {
+    const entries = overrides[storage];
+    if (entries && Object.keys(entries).length > 0) {
+      lines.push(`for (const [key, value] of Object.entries(${JSON.stringify(entries)})) ${storage}.setItem(key, value);`);
+    }
+  }
+  if (overrides.script) {
+    lines.push(overrides.script);
+  }
+  lines.push(`window.${OVERRIDES_MARKER} = true;`);
+
+  return [
+    '(() => {',
+    '  try {',
+    ...lines.map(line => `    ${line}`),
+    '  } catch (e) {',
+    "    console.warn('webperf overrides failed', e);",
+    '  }',
+    '})();',
+  ].join('\n');
+}
+
+/**
+ * Install overrides on the page Lighthouse is about to measure
+ * Runs before navigation, so everything is in place for the measured load
+ * @throws Error when the config's applyOverrides function fails
+ */
+export async function installOverrides(page: PageForOverrides, url: string, config: WebperfConfig): Promise<void> {
+  if (config.overrides) {
+    await page.evaluateOnNewDocument(buildOverrideScript(config.overrides));
+    const cookies = config.overrides.cookies || [];
+    if (cookies.length > 0) {
+      await page.setCookie(...cookies.map(cookie => (cookie.url || cookie.domain ? cookie : { ...cookie, url })));
+    }
+  }
+
+  if (config.applyOverrides) {
+    try {
+      await config.applyOverrides(page);
+    } catch (e) {
+      throw new Error(`Override failed: ${(e as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Confirm the overrides were in effect on the measured page
+ * @returns An error when they were not, so the run is not counted
+ */
+export async function verifyOverrides(page: PageForOverrides, config: WebperfConfig): Promise<RunError | undefined> {
+  if (config.applyOverrides && config.verifyOverrides && !(await config.verifyOverrides(page))) {
+    return { code: 'OVERRIDES_NOT_APPLIED', message: 'applyOverrides verification failed' };
+  }
+
+  const overrides = config.overrides;
+  if (!overrides) return undefined;
+
+  const active = await page.evaluate(
+    (marker: string, local: Record<string, string>, session: Record<string, string>) =>
+      (window as unknown as Record<string, unknown>)[marker] === true
+        && Object.entries(local).every(([key, value]) => localStorage.getItem(key) === value)
+        && Object.entries(session).every(([key, value]) => sessionStorage.getItem(key) === value),
+    OVERRIDES_MARKER,
+    overrides.localStorage || {},
+    overrides.sessionStorage || {}
+  );
+  if (!active) {
+    return { code: 'OVERRIDES_NOT_APPLIED', message: 'Override script or storage was not in effect on the measured page' };
+  }
+
+  if (overrides.verify && !(await overrides.verify(page))) {
+    return { code: 'OVERRIDES_NOT_APPLIED', message: 'Custom override verification failed' };
+  }
+
+  return undefined;
+}
+
+/**
+ * Config with a named variant's overrides in place of the top-level ones
+ * @throws Error for unknown variants
+ */
+export function resolveVariant(config: WebperfConfig, name: string): WebperfConfig {
+  const variants = config.variants || {};
+  const variant = variants[name];
+  if (!variant) {
+    const available = Object.keys(variants);
+    throw new Error(available.length > 0
+      ? `Unknown variant: ${name} (available: ${available.join(', ')})`
+      : `Unknown variant: ${name} (no variants in config)`);
+  }
+  return { ...config, applyOverrides: variant.applyOverrides, verifyOverrides: variant.verifyOverrides, overrides: variant.overrides };
+}
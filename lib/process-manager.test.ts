@@ -336,6 +336,16 @@ describe('process-manager', () => {
       );
       expect(overrideCall).toBeDefined();
     });
+
+    it('should print the injected script for declarative overrides', async () => {
+      const { printOverrides } = await import('./process-manager.js');
+      const logger = await import('./logger.js');
+      
+      printOverrides({ ...mockConfig, overrides: { localStorage: { flag: 'on' } } });
+      
+      const logCalls = vi.mocked(logger.default.log).mock.calls;
+      expect(logCalls.some(call => (call[0] as string).includes('{"flag":"on"}'))).toBe(true);
+    });
   });
 
   describe('ensurePortsFree', () => {
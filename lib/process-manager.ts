@@ -9,6 +9,7 @@ import { fileURLToPath } from 'url';
 import findProcess from 'find-process';
 import treeKill from 'tree-kill';
 import type { ProcessInfo, Service, WebperfConfig } from './types.js';
+import { buildOverrideScript } from './overrides.js';
 import logger from './logger.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -347,10 +348,10 @@ export async function waitForServices(config: WebperfConfig): Promise<boolean> {
  * Print override script from user's config (if provided)
  */
 export function printOverrides(config: WebperfConfig): void {
-  if (!config.getOverrideScript) {
+  if (!config.getOverrideScript && !config.overrides) {
     logger.newline();
     logger.log(logger.yellow('No override script configured.'));
-    logger.log(logger.dim('  Add getOverrideScript() to your config to enable this feature.'));
+    logger.log(logger.dim('  Add getOverrideScript() or overrides to your config to enable this feature.'));
     logger.newline();
     return;
   }
@@ -360,6 +361,7 @@ export function printOverrides(config: WebperfConfig): void {
   logger.newline();
   logger.log(logger.yellow('Copy-paste this into browser console:'));
   logger.newline();
-  logger.log(config.getOverrideScript());
+  // Declarative overrides build the same script that is injected into measured pages (cookies excluded)
+  logger.log(config.getOverrideScript ? config.getOverrideScript() : buildOverrideScript(config.overrides!));
   logger.newline();
 }
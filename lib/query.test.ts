@@ -0,0 +1,226 @@
+import type { MeasurementSummary, QueryRecord } from './types.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import {
+  filterRecords,
+  formatQueryCsv,
+  inferQueryFormat,
+  loadQueryRecords,
+  matchesUrl,
+  parseMetricPredicate,
+  parseQuerySort,
+  printQueryTable,
+  sortRecords,
+} from './query.js';
+
+// Mock fs module
+vi.mock('fs', async () => {
+  const actual = await vi.importActual('fs');
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+    readFileSync: vi.fn(),
+    readdirSync: vi.fn(),
+  };
+});
+
+// Mock settings module
+vi.mock('./settings.js', () => ({
+  getResultsPath: vi.fn(() => '/mock/results'),
+  getJsonlLogPath: vi.fn(() => '/mock/results/measurements.jsonl'),
+}));
+
+// Mock results module
+vi.mock('./results.js', () => ({
+  loadSummary: vi.fn(),
+  loadPairedResult: vi.fn(),
+}));
+
+// Mock logger
+vi.mock('./logger.js', () => ({
+  default: {
+    log: vi.fn(),
+    logWarn: vi.fn(),
+    newline: vi.fn(),
+    cyan: (s: string) => s,
+    dim: (s: string) => s,
+    green: (s: string) => s,
+    magenta: (s: string) => s,
+    red: (s: string) => s,
+    yellow: (s: string) => s,
+  },
+}));
+
+describe('query', () => {
+  const record = (timestamp: string, lcp: number, extra: Partial<QueryRecord> = {}): QueryRecord => ({
+    timestamp,
+    url: 'https://example.com/',
+    runs: 3,
+    metrics: { score: 90, fcp: 1200, lcp, tbt: 150, cls: 0.05, si: 1800 },
+    ...extra,
+  });
+
+  const records = [
+    record('2024-01-15T10-30-00', 2500, { result: '2024-01-15T10-30-00', note: 'Main branch', tags: ['critical', 'production'], scenarioId: 'homepage' }),
+    record('2024-01-16T10-30-00', 3200, { url: 'https://example.com/shop', note: 'release', overridesApplied: true, tags: ['production'] }),
+    record('2024-01-17T10-30-00', 2800, { url: 'https://staging.example.com/', scenarioId: 'homepage' }),
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseMetricPredicate', () => {
+    it('should parse metric conditions', () => {
+      expect(parseMetricPredicate('lcp>3000')).toEqual({ key: 'lcp', operator: '>', value: 3000 });
+      expect(parseMetricPredicate('score >= 90')).toEqual({ key: 'score', operator: '>=', value: 90 });
+      expect(parseMetricPredicate('cls!=0.1')).toEqual({ key: 'cls', operator: '!=', value: 0.1 });
+    });
+
+    it('should reject unknown metrics and malformed conditions', () => {
+      expect(() => parseMetricPredicate('foo>1')).toThrow('Unknown metric: foo');
+      expect(() => parseMetricPredicate('lcp>>1')).toThrow('Invalid condition: lcp>>1');
+      expect(() => parseMetricPredicate('lcp>fast')).toThrow('Invalid condition');
+    });
+  });
+
+  describe('parseQuerySort', () => {
+    it('should parse fields with an optional direction', () => {
+      expect(parseQuerySort('lcp')).toEqual({ field: 'lcp', descending: false });
+      expect(parseQuerySort('timestamp:desc')).toEqual({ field: 'timestamp', descending: true });
+    });
+
+    it('should reject unknown fields and directions', () => {
+      expect(() => parseQuerySort('speed')).toThrow('Unknown sort field: speed');
+      expect(() => parseQuerySort('lcp:up')).toThrow('Unknown sort direction: up');
+    });
+  });
+
+  describe('inferQueryFormat', () => {
+    it('should pick the format from the extension', () => {
+      expect(inferQueryFormat('out.JSON')).toBe('json');
+      expect(inferQueryFormat('out.csv')).toBe('csv');
+      expect(inferQueryFormat('out.txt')).toBe('table');
+    });
+  });
+
+  describe('matchesUrl', () => {
+    it('should match globs against the whole URL', () => {
+      expect(matchesUrl('https://example.com/shop', 'https://example.com/*')).toBe(true);
+      expect(matchesUrl('https://example.com/shop', 'https://example.com/')).toBe(false);
+      expect(matchesUrl('https://example.com/shop', '*shop')).toBe(true);
+      expect(matchesUrl('https://example.com.evil/shop', 'https://example.com/*')).toBe(false);
+    });
+
+    it('should match /regex/ patterns anywhere, with flags', () => {
+      expect(matchesUrl('https://staging.example.com/', '/staging/')).toBe(true);
+      expect(matchesUrl('https://STAGING.example.com/', '/staging/i')).toBe(true);
+      expect(matchesUrl('https://example.com/', '/staging/')).toBe(false);
+    });
+  });
+
+  describe('filterRecords', () => {
+    const ids = (found: QueryRecord[]) => found.map(r => r.timestamp.slice(8, 10));
+
+    it('should filter by URL, tags, scenario and note', () => {
+      expect(ids(filterRecords(records, { url: 'https://example.com/*' }))).toEqual(['15', '16']);
+      expect(ids(filterRecords(records, { tags: ['production'] }))).toEqual(['15', '16']);
+      expect(ids(filterRecords(records, { tags: ['production', 'critical'] }))).toEqual(['15']);
+      expect(ids(filterRecords(records, { scenarioId: 'homepage' }))).toEqual(['15', '17']);
+      expect(ids(filterRecords(records, { note: 'main' }))).toEqual(['15']);
+    });
+
+    it('should filter by date range and overrides', () => {
+      expect(ids(filterRecords(records, { since: new Date('2024-01-16T00:00:00Z'), until: new Date('2024-01-16T23:59:59Z') }))).toEqual(['16']);
+      expect(ids(filterRecords(records, { overridesApplied: false }))).toEqual(['15', '17']);
+      expect(ids(filterRecords(records, { overridesApplied: true }))).toEqual(['16']);
+    });
+
+    it('should require every metric condition', () => {
+      expect(ids(filterRecords(records, { where: [{ key: 'lcp', operator: '>', value: 2600 }] }))).toEqual(['16', '17']);
+      expect(ids(filterRecords(records, {
+        where: [{ key: 'lcp', operator: '>', value: 2600 }, { key: 'lcp', operator: '<', value: 3000 }],
+      }))).toEqual(['17']);
+      // Metrics that were not tracked never match
+      expect(filterRecords(records, { where: [{ key: 'ttfb', operator: '>=', value: 0 }] })).toEqual([]);
+    });
+  });
+
+  describe('sortRecords', () => {
+    it('should sort newest first by default', () => {
+      expect(sortRecords(records).map(r => r.metrics.lcp)).toEqual([2800, 3200, 2500]);
+    });
+
+    it('should sort by a metric in either direction', () => {
+      expect(sortRecords(records, { field: 'lcp', descending: false }).map(r => r.metrics.lcp)).toEqual([2500, 2800, 3200]);
+      expect(sortRecords(records, { field: 'lcp', descending: true }).map(r => r.metrics.lcp)).toEqual([3200, 2800, 2500]);
+    });
+
+    it('should put records without the metric last', () => {
+      const withTtfb = [records[0], { ...records[1], metrics: { ...records[1].metrics, ttfb: 300 } }];
+
+      expect(sortRecords(withTtfb, { field: 'ttfb', descending: true })[0].metrics.ttfb).toBe(300);
+      expect(sortRecords(withTtfb, { field: 'ttfb', descending: false })[0].metrics.ttfb).toBe(300);
+    });
+  });
+
+  describe('loadQueryRecords', () => {
+    const summaryAt = (timestamp: string): MeasurementSummary => ({
+      url: 'https://example.com/',
+      runs: 3,
+      timestamp,
+      overridesApplied: false,
+      averages: { score: 90, fcp: 1200, lcp: 2500, tbt: 150, cls: 0.05, si: 1800 },
+      range: { minScore: 90, maxScore: 90 },
+      rawScores: [90],
+    });
+
+    it('should combine saved results with the main log', async () => {
+      vi.mocked(existsSync).mockImplementation(path => !String(path).includes('scenarios'));
+      vi.mocked(readdirSync).mockReturnValue(['2024-01-15T10-30-00', 'scenarios'] as any);
+      vi.mocked(readFileSync).mockReturnValue([
+        JSON.stringify({ ...summaryAt('2024-01-14T10-30-00'), loggedAt: '2024-01-14T10:31:00.000Z' }),
+        JSON.stringify({ ...summaryAt('2024-01-15T10-30-00'), loggedAt: '2024-01-15T10:31:00.000Z', tags: ['critical'], scenarioId: 'homepage' }),
+      ].join('\n'));
+      const { loadSummary } = await import('./results.js');
+      vi.mocked(loadSummary).mockReturnValue(summaryAt('2024-01-15T10-30-00'));
+
+      const loaded = loadQueryRecords();
+
+      expect(loaded).toHaveLength(2);
+      expect(loaded[0]).toMatchObject({ result: '2024-01-15T10-30-00', tags: ['critical'], scenarioId: 'homepage' });
+      expect(loaded[1].result).toBeUndefined();
+      expect(loaded[1].timestamp).toBe('2024-01-14T10-30-00');
+    });
+  });
+
+  describe('formatQueryCsv', () => {
+    it('should write one row per record with raw values', () => {
+      const csv = formatQueryCsv([records[0], records[1]]);
+
+      expect(csv.split('\n')[0]).toBe('result,timestamp,logged_at,url,scenario_id,tags,note,runs,overrides_applied,variant,score,fcp,lcp,tbt,cls,si');
+      expect(csv.split('\n')[1]).toBe('2024-01-15T10-30-00,2024-01-15T10-30-00,,https://example.com/,homepage,critical;production,Main branch,3,,,90,1200,2500,150,0.05,1800');
+      expect(csv.split('\n')[2]).toContain(',release,3,true,,');
+    });
+  });
+
+  describe('printQueryTable', () => {
+    it('should show how many matches --limit left out', async () => {
+      const logger = await import('./logger.js');
+
+      printQueryTable(records.slice(0, 2), 5);
+
+      const lines = vi.mocked(logger.default.log).mock.calls.map(call => String(call[0]));
+      expect(lines[0]).toBe('5 measurements found, showing 2:');
+      expect(lines.some(line => line.includes('2024-01-15T10-30-00') && line.includes('2500') && line.includes('[homepage]'))).toBe(true);
+    });
+
+    it('should warn when nothing matches', async () => {
+      const logger = await import('./logger.js');
+
+      printQueryTable([]);
+
+      expect(logger.default.logWarn).toHaveBeenCalledWith('No measurements match the query.');
+    });
+  });
+});
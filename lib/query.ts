@@ -0,0 +1,240 @@
+/**
+ * Result queries (query command)
+ * Filter, sort and format measurements from summary.json files and the main JSONL log
+ */
+
+import type {
+  Aggregate,
+  MeasurementSummary,
+  MetricKey,
+  MetricPredicate,
+  QueryFilter,
+  QueryFormat,
+  QueryRecord,
+  QuerySort,
+} from './types.js';
+import { METRICS, formatMetricValue, getPresentMetrics } from './metrics.js';
+import { existsSync, readdirSync } from 'fs';
+import { getEntryTime, readJsonl, toHistoryEntry } from './history.js';
+import { getJsonlLogPath, getResultsPath } from './settings.js';
+import { csvField } from './formats.js';
+import { join } from 'path';
+import { loadSummary } from './results.js';
+import logger from './logger.js';
+
+/**
+ * Output formats of the query command
+ */
+export const QUERY_FORMATS: QueryFormat[] = ['table', 'json', 'csv'];
+
+/**
+ * Fields results can be sorted by, besides metric keys
+ */
+const SORT_FIELDS = ['timestamp', 'url', 'runs'];
+
+type LoggedMeasurement = MeasurementSummary & { loggedAt?: string; scenarioId?: string; tags?: string[] };
+
+/**
+ * Parse a metric condition like lcp>3000 or score>=90
+ * @throws Error for unknown metrics, operators or values
+ */
+export function parseMetricPredicate(text: string): MetricPredicate {
+  const match = text.replace(/\s+/g, '').match(/^([a-zA-Z]+)(<=|>=|!=|<|>|=)(-?\d+(?:\.\d+)?)$/);
+  if (!match) {
+    throw new Error(`Invalid condition: ${text} (expected e.g. lcp>3000 or score>=90)`);
+  }
+  const [, key, operator, value] = match;
+  if (!METRICS.some(m => m.key === key)) {
+    throw new Error(`Unknown metric: ${key} (available: ${METRICS.map(m => m.key).join(', ')})`);
+  }
+  return { key: key as MetricKey, operator: operator as MetricPredicate['operator'], value: parseFloat(value) };
+}
+
+/**
+ * Parse a sort option like lcp, lcp:desc or timestamp:asc
+ * @throws Error for unknown fields or directions
+ */
+export function parseQuerySort(text: string): QuerySort {
+  const [field, direction = 'asc'] = text.split(':');
+  if (!SORT_FIELDS.includes(field) && !METRICS.some(m => m.key === field)) {
+    throw new Error(`Unknown sort field: ${field} (available: ${[...SORT_FIELDS, ...METRICS.map(m => m.key)].join(', ')})`);
+  }
+  if (direction !== 'asc' && direction !== 'desc') {
+    throw new Error(`Unknown sort direction: ${direction} (expected asc or desc)`);
+  }
+  return { field, descending: direction === 'desc' };
+}
+
+/**
+ * Output format for a query written to a file, from its extension
+ */
+export function inferQueryFormat(file: string): QueryFormat {
+  const lower = file.toLowerCase();
+  if (lower.endsWith('.json')) return 'json';
+  if (lower.endsWith('.csv')) return 'csv';
+  return 'table';
+}
+
+/**
+ * Match a URL against a glob (* and ?) or a /regex/ with optional flags
+ * Globs match the whole URL
+ */
+export function matchesUrl(url: string, pattern: string): boolean {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    return new RegExp(regex[1], regex[2]).test(url);
+  }
+  const glob = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${glob}$`).test(url);
+}
+
+function matchesPredicate(record: QueryRecord, predicate: MetricPredicate): boolean {
+  const value = record.metrics[predicate.key];
+  if (value === undefined) return false;
+  switch (predicate.operator) {
+    case '<': return value < predicate.value;
+    case '<=': return value <= predicate.value;
+    case '>': return value > predicate.value;
+    case '>=': return value >= predicate.value;
+    case '=': return value === predicate.value;
+    case '!=': return value !== predicate.value;
+  }
+}
+
+/**
+ * Every measurement: saved results, plus logged measurements whose result directory is gone
+ * Tags and scenario IDs come from the main log, matched by timestamp and URL
+ * @param aggregate - Which aggregate the metrics show (default: mean)
+ */
+export function loadQueryRecords(aggregate: Aggregate = 'mean'): QueryRecord[] {
+  const logged = new Map<string, LoggedMeasurement>();
+  for (const entry of readJsonl<LoggedMeasurement>(getJsonlLogPath())) {
+    logged.set(`${entry.timestamp}|${entry.url}`, entry);
+  }
+
+  const records: QueryRecord[] = [];
+  const resultsDir = getResultsPath();
+  const dirs = existsSync(resultsDir)
+    ? readdirSync(resultsDir).filter(name => existsSync(join(resultsDir, name, 'summary.json')))
+    : [];
+
+  for (const dir of dirs) {
+    const summary = loadSummary(dir);
+    if (!summary) continue;
+    const key = `${summary.timestamp}|${summary.url}`;
+    const entry = logged.get(key);
+    logged.delete(key);
+    records.push({
+      ...toHistoryEntry({ ...summary, loggedAt: entry?.loggedAt, tags: entry?.tags, scenarioId: entry?.scenarioId }, aggregate),
+      result: dir,
+    });
+  }
+
+  for (const entry of logged.values()) {
+    records.push(toHistoryEntry(entry, aggregate));
+  }
+  return records;
+}
+
+/**
+ * Records matching every given filter
+ */
+export function filterRecords(records: QueryRecord[], filter: QueryFilter): QueryRecord[] {
+  const note = filter.note?.toLowerCase();
+  return records.filter(record =>
+    (!filter.url || matchesUrl(record.url, filter.url))
+    && (!filter.tags || filter.tags.every(tag => record.tags?.includes(tag)))
+    && (!filter.scenarioId || record.scenarioId === filter.scenarioId)
+    && (!note || (record.note || '').toLowerCase().includes(note))
+    && (!filter.since || getEntryTime(record) >= filter.since)
+    && (!filter.until || getEntryTime(record) <= filter.until)
+    && (filter.overridesApplied === undefined || Boolean(record.overridesApplied) === filter.overridesApplied)
+    && (filter.where || []).every(predicate => matchesPredicate(record, predicate))
+  );
+}
+
+/**
+ * Sort records (default: newest first); records without the sorted metric go last
+ */
+export function sortRecords(records: QueryRecord[], sort: QuerySort = { field: 'timestamp', descending: true }): QueryRecord[] {
+  const direction = sort.descending ? -1 : 1;
+  const valueOf = (record: QueryRecord): number | string | undefined => {
+    if (sort.field === 'timestamp') return getEntryTime(record).getTime();
+    if (sort.field === 'url') return record.url;
+    if (sort.field === 'runs') return record.runs;
+    return record.metrics[sort.field as MetricKey];
+  };
+
+  return [...records].sort((a, b) => {
+    const va = valueOf(a);
+    const vb = valueOf(b);
+    if (va === undefined || vb === undefined) {
+      return va === vb ? 0 : va === undefined ? 1 : -1;
+    }
+    return (va < vb ? -1 : va > vb ? 1 : 0) * direction;
+  });
+}
+
+/**
+ * Query results as JSON
+ */
+export function formatQueryJson(records: QueryRecord[]): string {
+  return `${JSON.stringify(records, null, 2)}\n`;
+}
+
+/**
+ * Query results as CSV, one row per measurement with raw metric values (bytes, not KB)
+ */
+export function formatQueryCsv(records: QueryRecord[]): string {
+  const metrics = METRICS.filter(m => records.some(r => typeof r.metrics[m.key] === 'number')).map(m => m.key);
+  const header = ['result', 'timestamp', 'logged_at', 'url', 'scenario_id', 'tags', 'note', 'runs', 'overrides_applied', 'variant', ...metrics];
+  const rows = records.map(r => [
+    r.result,
+    r.timestamp,
+    r.loggedAt,
+    r.url,
+    r.scenarioId,
+    r.tags?.join(';'),
+    r.note,
+    r.runs,
+    r.overridesApplied,
+    r.variant,
+    ...metrics.map(key => r.metrics[key]),
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Print query results as a table
+ * @param total - Matches before --limit, to show how many were left out
+ */
+export function printQueryTable(records: QueryRecord[], total = records.length): void {
+  if (records.length === 0) {
+    logger.logWarn('No measurements match the query.');
+    return;
+  }
+
+  const metrics = getPresentMetrics(...records.map(r => r.metrics)).filter(m => ['score', 'fcp', 'lcp', 'tbt', 'cls'].includes(m.key));
+  const idWidth = Math.max(6, ...records.map(r => (r.result || r.timestamp).length));
+
+  logger.log(logger.cyan(`${total} measurement${total === 1 ? '' : 's'} found${records.length < total ? `, showing ${records.length}` : ''}:`));
+  logger.newline();
+  logger.log(logger.dim(`  ${'Result'.padEnd(idWidth)} ${metrics.map(m => m.short.padStart(7)).join(' ')}  URL / note`));
+
+  for (const record of records) {
+    const id = record.result ? logger.green(record.result.padEnd(idWidth)) : logger.dim(record.timestamp.padEnd(idWidth));
+    const values = metrics.map(m => {
+      const value = record.metrics[m.key];
+      const text = (value === undefined ? '-' : formatMetricValue(m.key, value)).padStart(7);
+      if (m.key !== 'score' || value === undefined) return text;
+      const scoreColor = value >= 90 ? logger.green : value >= 50 ? logger.yellow : logger.red;
+      return scoreColor(text);
+    });
+    const context = [
+      record.url,
+      record.scenarioId && logger.cyan(`[${record.scenarioId}]`),
+      record.note && logger.magenta(`"${record.note}"`),
+    ].filter(Boolean).join(' ');
+    logger.log(`  ${id} ${values.join(' ')}  ${context}`);
+  }
+}
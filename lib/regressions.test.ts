@@ -0,0 +1,157 @@
+import type { HistoryEntry } from './types.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { detectChangePoints, findRegressions, printRegressions } from './regressions.js';
+
+// Mock history module
+vi.mock('./history.js', async () => {
+  const actual = await vi.importActual('./history.js');
+  return {
+    ...actual,
+    listScenarioLogs: vi.fn(() => []),
+    loadScenarioHistory: vi.fn(() => []),
+  };
+});
+
+// Mock logger
+vi.mock('./logger.js', () => ({
+  default: {
+    log: vi.fn(),
+    logWarn: vi.fn(),
+    header: vi.fn(),
+    newline: vi.fn(),
+    bold: (s: string) => s,
+    dim: (s: string) => s,
+    green: (s: string) => s,
+    magenta: (s: string) => s,
+    red: (s: string) => s,
+  },
+}));
+
+describe('regressions', () => {
+  const entryAt = (day: number, lcp: number, tbt = 150, extra: Partial<HistoryEntry> = {}): HistoryEntry => ({
+    timestamp: `2024-01-${String(day).padStart(2, '0')}T10-30-00`,
+    url: 'https://example.com',
+    runs: 3,
+    metrics: { score: 90, fcp: 1200, lcp, tbt, cls: 0.05, si: 1800 },
+    ...extra,
+  });
+
+  // LCP steps up by ~20% at the 7th measurement ("release"), TBT steps down at the 5th
+  const lcps = [2500, 2520, 2480, 2510, 2490, 2505, 3000, 3020, 2980, 3010, 2990, 3005];
+  const tbts = [300, 310, 290, 305, 150, 160, 140, 155, 145, 150, 152, 148];
+  const history = lcps.map((lcp, i) => entryAt(i + 1, lcp, tbts[i], {
+    ...(i >= 6 && { note: 'release' }),
+    tags: ['production'],
+    scenarioId: 'homepage',
+  }));
+
+  const logLines = async () => {
+    const logger = await import('./logger.js');
+    return vi.mocked(logger.default.log).mock.calls.map(call => String(call[0]));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('detectChangePoints', () => {
+    it('should find where each metric shifted, with its direction', () => {
+      const changePoints = detectChangePoints(history, { window: 4 });
+
+      expect(changePoints.map(cp => [cp.key, cp.index, cp.regressed])).toEqual([
+        ['tbt', 4, false],
+        ['lcp', 6, true],
+      ]);
+      expect(changePoints[1]).toMatchObject({ before: 2497.5, after: 3005, entry: { note: 'release' } });
+      expect(changePoints[1].percentChange).toBeCloseTo(20.3, 1);
+      expect(changePoints[1].pValue).toBeLessThan(0.05);
+    });
+
+    it('should need a full window on both sides', () => {
+      // With windows of 5, the TBT step after 4 measurements is found at the first position with 5 before it
+      expect(detectChangePoints(history).map(cp => [cp.key, cp.index])).toEqual([['tbt', 5], ['lcp', 6]]);
+      expect(detectChangePoints(history.slice(0, 9))).toEqual([]);
+    });
+
+    it('should ignore shifts below the minimum effect', () => {
+      const small = history.map((entry, i) => ({ ...entry, metrics: { ...entry.metrics, lcp: 2500 + (i >= 6 ? 50 : 0) + (i % 3) } }));
+
+      expect(detectChangePoints(small, {}, ['lcp'])).toEqual([]);
+      expect(detectChangePoints(small, { minEffectPercent: 1 }, ['lcp']).map(cp => cp.index)).toEqual([6]);
+    });
+
+    it('should find steps from a median of 0', () => {
+      const fromZero = history.map((entry, i) => ({ ...entry, metrics: { ...entry.metrics, tbt: i >= 6 ? 300 + (i % 3) * 10 : 0 } }));
+
+      const [changePoint] = detectChangePoints(fromZero, { window: 4 }, ['tbt']);
+
+      expect(changePoint).toMatchObject({ key: 'tbt', index: 6, before: 0, after: 305, percentChange: null, regressed: true });
+      expect(changePoint.pValue).toBeLessThan(0.05);
+    });
+
+    it('should only check the chosen metrics', () => {
+      expect(detectChangePoints(history, { window: 4 }, ['tbt']).map(cp => cp.key)).toEqual(['tbt']);
+    });
+  });
+
+  describe('findRegressions', () => {
+    it('should check every scenario log by default', async () => {
+      const { listScenarioLogs, loadScenarioHistory } = await import('./history.js');
+      vi.mocked(listScenarioLogs).mockReturnValue([{ id: 'homepage', measurements: 12 }, { id: 'blog', measurements: 0 }]);
+      vi.mocked(loadScenarioHistory).mockImplementation(id => (id === 'homepage' ? history : []));
+
+      const results = findRegressions();
+
+      expect(results.map(r => [r.scenarioId, r.measurements, r.changePoints.length])).toEqual([
+        ['homepage', 12, 2],
+        ['blog', 0, 0],
+      ]);
+    });
+
+    it('should keep shifts since a date, or only recent ones', async () => {
+      const { loadScenarioHistory } = await import('./history.js');
+      vi.mocked(loadScenarioHistory).mockReturnValue(history);
+
+      const since = findRegressions(['homepage'], 'mean', { window: 4 }, { since: new Date('2024-01-06T00:00:00Z') });
+      expect(since[0].changePoints.map(cp => cp.key)).toEqual(['lcp']);
+
+      // Two more measurements: the last 2 × 4 start at index 6
+      vi.mocked(loadScenarioHistory).mockReturnValue([...history, entryAt(13, 3000), entryAt(14, 2995)]);
+      const recent = findRegressions(['homepage'], 'mean', { window: 4 }, { recentOnly: true });
+      expect(recent[0].changePoints.map(cp => cp.key)).toEqual(['lcp']);
+    });
+  });
+
+  describe('printRegressions', () => {
+    it('should show each shift with the result and note where it began', async () => {
+      const regressions = printRegressions([
+        { scenarioId: 'homepage', measurements: 12, changePoints: detectChangePoints(history) },
+        { scenarioId: 'blog', measurements: 4, changePoints: [] },
+      ]);
+
+      const lines = await logLines();
+      expect(regressions).toBe(1);
+      expect(lines.some(line => line.includes('▼ improved') && line.includes('TBT'))).toBe(true);
+      expect(lines.some(line => line.includes('▲ regressed') && line.includes('2505 ms → 3000 ms (+19.8%)'))).toBe(true);
+      expect(lines).toContain('      began at production--homepage--2024-01-07T10-30-00 "release"');
+      expect(lines).toContain('  blog 4 measurements, needs 10 to find shifts');
+      expect(lines).toContain('  1 regression, 1 improvement in 2 scenarios');
+    });
+
+    it('should show the absolute change of a step from 0', async () => {
+      const fromZero = history.map((entry, i) => ({ ...entry, metrics: { ...entry.metrics, tbt: i >= 6 ? 300 : 0 } }));
+
+      printRegressions([{ scenarioId: 'homepage', measurements: 12, changePoints: detectChangePoints(fromZero, {}, ['tbt']) }]);
+
+      const lines = await logLines();
+      expect(lines.some(line => line.includes('▲ regressed') && line.includes('0 ms → 300 ms (+300)'))).toBe(true);
+    });
+
+    it('should warn when there are no scenario logs', async () => {
+      const logger = await import('./logger.js');
+
+      expect(printRegressions([])).toBe(0);
+      expect(logger.default.logWarn).toHaveBeenCalledWith('No scenario logs found');
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Regression detection (regressions command)
+ * Finds step changes in scenario histories by comparing rolling windows of measurements
+ */
+
+import type {
+  Aggregate,
+  ChangePoint,
+  HistoryEntry,
+  MetricKey,
+  RegressionConfig,
+  ScenarioChangePoints,
+} from './types.js';
+import { METRICS, formatMetricWithUnit, getMetricDefinition } from './metrics.js';
+import { aggregateLabel, mannWhitneyU, median } from './stats.js';
+import { formatRelativeChange } from './formats.js';
+import { getEntryTime, getResultId, listScenarioLogs, loadScenarioHistory } from './history.js';
+import logger from './logger.js';
+
+/**
+ * Defaults for telling shifts in a history from measurement noise
+ */
+export const DEFAULT_REGRESSION_CONFIG: Required<Omit<RegressionConfig, 'afterBatch'>> = {
+  window: 5,
+  alpha: 0.05,
+  minEffectPercent: 5,
+};
+
+/**
+ * Which change points to report
+ */
+export interface RegressionOptions {
+  /** Only shifts that began at or after this time */
+  since?: Date;
+  /** Only these metrics (default: every metric in the history) */
+  metrics?: MetricKey[];
+  /** Only shifts among the last 2 × window measurements, which the latest measurements confirmed */
+  recentOnly?: boolean;
+}
+
+/**
+ * Size of a relative change for ranking shifts; a step from 0 counts as the largest
+ */
+function effectSize(percentChange: number | null): number {
+  return percentChange === null ? Infinity : Math.abs(percentChange);
+}
+
+/**
+ * Change points of one metric: positions where the window from a measurement on differs from the window before it
+ * Consecutive significant positions in the same direction are one shift, placed where the p-value is lowest
+ */
+function detectMetricChangePoints(
+  entries: HistoryEntry[],
+  key: MetricKey,
+  config: Required<Omit<RegressionConfig, 'afterBatch'>>
+): ChangePoint[] {
+  const { window, alpha, minEffectPercent } = config;
+  const { higherIsBetter } = getMetricDefinition(key);
+  // Entries without the metric (e.g., tracked later) are skipped, keeping their position in the history
+  const points = entries
+    .map((entry, index) => ({ entry, index, value: entry.metrics[key] }))
+    .filter((p): p is { entry: HistoryEntry; index: number; value: number } => typeof p.value === 'number');
+
+  const changePoints: ChangePoint[] = [];
+  let shift: ChangePoint | null = null;
+  for (let i = window; i <= points.length - window; i++) {
+    const beforeValues = points.slice(i - window, i).map(p => p.value);
+    const afterValues = points.slice(i, i + window).map(p => p.value);
+    const before = median(beforeValues);
+    const after = median(afterValues);
+    const percentChange = before === 0 ? null : ((after - before) / before) * 100;
+    const { pValue } = mannWhitneyU(beforeValues, afterValues);
+    const regressed = higherIsBetter ? after < before : after > before;
+    // From a median of 0 (e.g., no TBT) there is no percentage, so any step meets the minimum effect
+    const largeEnough = percentChange === null ? after !== before : Math.abs(percentChange) >= minEffectPercent;
+    const significant = pValue < alpha && largeEnough;
+
+    if (shift && (!significant || regressed !== shift.regressed)) {
+      changePoints.push(shift);
+      shift = null;
+    }
+    if (significant && (!shift || pValue < shift.pValue
+      || (pValue === shift.pValue && effectSize(percentChange) > effectSize(shift.percentChange)))) {
+      shift = { key, index: points[i].index, entry: points[i].entry, before, after, percentChange, pValue, regressed };
+    }
+  }
+  if (shift) {
+    changePoints.push(shift);
+  }
+  return changePoints;
+}
+
+/**
+ * Step changes in a history, by position and then metric
+ * @param entries - Measurements, oldest first
+ * @param metrics - Only these metrics (default: every metric in the history)
+ */
+export function detectChangePoints(
+  entries: HistoryEntry[],
+  config: RegressionConfig = {},
+  metrics?: MetricKey[]
+): ChangePoint[] {
+  const resolved = { ...DEFAULT_REGRESSION_CONFIG, ...config };
+  const keys = METRICS
+    .filter(m => (!metrics || metrics.includes(m.key)) && entries.some(e => typeof e.metrics[m.key] === 'number'))
+    .map(m => m.key);
+  return keys
+    .flatMap(key => detectMetricChangePoints(entries, key, resolved))
+    .sort((a, b) => a.index - b.index || keys.indexOf(a.key) - keys.indexOf(b.key));
+}
+
+/**
+ * Change points in scenario logs (scenarios/<id>.jsonl)
+ * @param scenarioIds - Scenarios to check (default: every scenario log)
+ * @param aggregate - Which aggregate the metrics show (default: mean)
+ */
+export function findRegressions(
+  scenarioIds?: string[],
+  aggregate: Aggregate = 'mean',
+  config: RegressionConfig = {},
+  options: RegressionOptions = {}
+): ScenarioChangePoints[] {
+  const { window } = { ...DEFAULT_REGRESSION_CONFIG, ...config };
+  const ids = scenarioIds && scenarioIds.length > 0 ? scenarioIds : listScenarioLogs().map(log => log.id);
+  const since = options.since;
+
+  return ids.map(scenarioId => {
+    const entries = loadScenarioHistory(scenarioId, aggregate);
+    const changePoints = detectChangePoints(entries, config, options.metrics).filter(cp =>
+      (!since || getEntryTime(cp.entry) >= since)
+      && (!options.recentOnly || cp.index >= entries.length - 2 * window)
+    );
+    return { scenarioId, measurements: entries.length, changePoints };
+  });
+}
+
+/**
+ * Print the change points of each scenario with the result and note where each shift began
+ * @returns Number of regressions
+ */
+export function printRegressions(
+  results: ScenarioChangePoints[],
+  config: RegressionConfig = {},
+  aggregate: Aggregate = 'mean'
+): number {
+  const { window, alpha, minEffectPercent } = { ...DEFAULT_REGRESSION_CONFIG, ...config };
+
+  logger.header('REGRESSIONS');
+  logger.newline();
+
+  if (results.length === 0) {
+    logger.logWarn('No scenario logs found');
+    return 0;
+  }
+
+  logger.log(logger.dim(`  ${window} measurements before vs. from each point on, p < ${alpha} and at least ${minEffectPercent}%`
+    + (aggregate !== 'mean' ? ` (${aggregateLabel(aggregate)} values)` : '')));
+  logger.newline();
+
+  for (const { scenarioId, measurements, changePoints } of results) {
+    if (measurements < 2 * window) {
+      logger.log(`  ${logger.bold(scenarioId)} ${logger.dim(measurements === 0
+        ? 'no measurements logged'
+        : `${measurements} measurement${measurements === 1 ? '' : 's'}, needs ${2 * window} to find shifts`)}`);
+      continue;
+    }
+    if (changePoints.length === 0) {
+      logger.log(`  ${logger.bold(scenarioId)} ${logger.dim(`no shifts in ${measurements} measurements`)}`);
+      continue;
+    }
+
+    logger.log(`  ${logger.bold(scenarioId)} ${logger.dim(`${measurements} measurements`)}`);
+    for (const cp of changePoints) {
+      const color = cp.regressed ? logger.red : logger.green;
+      const change = `(${formatRelativeChange(cp.key, cp.after - cp.before, cp.percentChange)})`;
+      logger.log(`    ${color(cp.regressed ? '▲ regressed' : '▼ improved ')}  ${getMetricDefinition(cp.key).short.padEnd(8)} `
+        + `${formatMetricWithUnit(cp.key, cp.before)} → ${formatMetricWithUnit(cp.key, cp.after)} ${color(change)} `
+        + logger.dim(`p=${cp.pValue.toFixed(3)}`));
+      logger.log(`      ${logger.dim('began at')} ${getResultId(cp.entry)}${cp.entry.note ? ` ${logger.magenta(`"${cp.entry.note}"`)}` : ''}`);
+    }
+  }
+
+  const changePoints = results.flatMap(r => r.changePoints);
+  const regressions = changePoints.filter(cp => cp.regressed).length;
+  const improvements = changePoints.length - regressions;
+  logger.newline();
+  logger.log((regressions > 0 ? logger.red : logger.green)(
+    `  ${regressions} regression${regressions === 1 ? '' : 's'}, ${improvements} improvement${improvements === 1 ? '' : 's'}`
+    + ` in ${results.length} scenario${results.length === 1 ? '' : 's'}`
+  ));
+  return regressions;
+}
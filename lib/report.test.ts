@@ -0,0 +1,136 @@
+import type { BatchResult, HistoryEntry, MeasurementSummary } from './types.js';
+import { describe, expect, it, vi } from 'vitest';
+import { getDefaultReportPath, renderBatchReport, renderScenarioReport, renderSessionReport } from './report.js';
+
+// Mock settings module
+vi.mock('./settings.js', () => ({
+  getResultsPath: vi.fn(() => '/mock/results'),
+}));
+
+describe('report', () => {
+  const summary: MeasurementSummary = {
+    url: 'https://example.com/?a=1&b=2',
+    runs: 3,
+    timestamp: '2024-01-15T10-30-00',
+    note: '<main>',
+    overridesApplied: false,
+    averages: { score: 85, fcp: 1200, lcp: 2500, tbt: 150, cls: 0.05, si: 1800 },
+    range: { minScore: 80, maxScore: 90 },
+    rawScores: [80, 85, 90],
+    runResults: [
+      { run: 1, startedAt: '2024-01-15T10:30:00.000Z', duration: 9000, metrics: { score: 80, fcp: 1300, lcp: 2600, tbt: 170, cls: 0.05, si: 1900 } },
+      { run: 2, startedAt: '2024-01-15T10:30:10.000Z', duration: 9000, metrics: { score: 85, fcp: 1200, lcp: 2500, tbt: 150, cls: 0.05, si: 1800 } },
+      { run: 3, startedAt: '2024-01-15T10:30:20.000Z', duration: 9000, metrics: { score: 90, fcp: 1100, lcp: 2400, tbt: 130, cls: 0.05, si: 1700 } },
+      { run: 4, startedAt: '2024-01-15T10:30:30.000Z', duration: 9000, metrics: { score: 0, fcp: 0, lcp: 0, tbt: 0, cls: 0, si: 0 }, error: { code: 'NO_FCP', message: 'No paint' } },
+    ],
+    reports: [{ run: 2, json: 'run-2.json', html: 'run-2.html' }],
+  };
+
+  const history: HistoryEntry[] = [
+    { timestamp: '2024-01-14T10-30-00', url: 'https://example.com', runs: 3, metrics: { score: 80, fcp: 1300, lcp: 2700, tbt: 160, cls: 0.05, si: 1900 } },
+    { timestamp: '2024-01-15T10-30-00', url: 'https://example.com', note: 'release', runs: 3, metrics: { score: 85, fcp: 1200, lcp: 2500, tbt: 150, cls: 0.05, si: 1800 } },
+  ];
+
+  describe('renderSessionReport', () => {
+    it('should render a self-contained page', () => {
+      const html = renderSessionReport(summary, [], { generatedAt: '2024-01-15T10:31:00.000Z' });
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('<style>');
+      expect(html).not.toMatch(/<script src|<link /);
+      expect(html).toContain('Generated by webperf at 2024-01-15T10:31:00.000Z');
+    });
+
+    it('should escape the URL and note', () => {
+      const html = renderSessionReport(summary);
+
+      expect(html).toContain('https://example.com/?a=1&amp;b=2');
+      expect(html).toContain('&lt;main&gt;');
+    });
+
+    it('should show metrics, run distributions and invalid runs', () => {
+      const html = renderSessionReport(summary);
+
+      expect(html).toContain('<h2>Metrics</h2>');
+      expect(html).toContain('<td>LCP (ms)</td><td class="num"><b>2500 ms</b></td>');
+      expect(html).toContain('<h2>Run distributions</h2>');
+      expect(html).toContain('<title>Run 3: 2400 ms</title>');
+      expect(html).not.toContain('<title>Run 4:');
+      expect(html).toContain('NO_FCP: No paint');
+    });
+
+    it('should link saved Lighthouse reports relative to the report', () => {
+      expect(renderSessionReport(summary, [], { reportsDir: '' })).toContain('<a href="run-2.html">Lighthouse report</a>');
+      expect(renderSessionReport(summary, [], { reportsDir: '../2024-01-15T10-30-00' }))
+        .toContain('<a href="../2024-01-15T10-30-00/run-2.html">Lighthouse report</a>');
+      expect(renderSessionReport(summary)).not.toContain('Lighthouse report');
+    });
+
+    it('should add trend charts from the history', () => {
+      expect(renderSessionReport(summary)).not.toContain('<h2>Trend</h2>');
+
+      const html = renderSessionReport(summary, history);
+
+      expect(html).toContain('<h2>Trend</h2>');
+      expect(html).toContain('<title>2024-01-14T10-30-00: 2700 ms</title>');
+    });
+  });
+
+  describe('renderBatchReport', () => {
+    const batch: BatchResult = {
+      batchId: '2024-01-15T10-30-00-000Z',
+      startedAt: '2024-01-15T10:30:00.000Z',
+      completedAt: '2024-01-15T10:31:30.000Z',
+      totalScenarios: 2,
+      completed: 1,
+      failed: 1,
+      duration: 90000,
+      failedAssertions: 1,
+      results: [
+        {
+          scenario: { id: 'homepage', note: '', url: 'https://example.com' },
+          summary,
+          assertions: [{ key: 'lcp', assertion: 'lcp <= 2000', actual: 2500, passed: false }],
+        },
+        { scenario: { id: 'blog', note: '', url: 'https://example.com/blog' }, error: 'Navigation timeout' },
+      ],
+    };
+
+    it('should list every scenario with its metrics, errors and failed assertions', () => {
+      const html = renderBatchReport(batch);
+
+      expect(html).toContain('1/2 completed · 1 failed · 1 assertions failed · 90.0s');
+      expect(html).toContain('<td class="num warn">85</td>');
+      expect(html).toContain('<span class="bad">lcp &lt;= 2000</span>');
+      expect(html).toContain('class="bad">Navigation timeout</td>');
+    });
+
+    it('should add trend charts for scenarios with a history', () => {
+      const html = renderBatchReport(batch, { homepage: history, blog: [] });
+
+      expect(html).toContain('<h2>homepage</h2><p class="muted">2 measurements, oldest first.</p>');
+      expect(html).not.toContain('<h2>blog</h2>');
+    });
+  });
+
+  describe('renderScenarioReport', () => {
+    it('should show trend charts and every measurement, newest first', () => {
+      const html = renderScenarioReport('homepage', history);
+
+      expect(html).toContain('2 measurements (mean) · https://example.com');
+      expect(html).toContain('<h2>Trend</h2>');
+      expect(html.indexOf('<td>2024-01-15T10-30-00</td>')).toBeLessThan(html.indexOf('<td>2024-01-14T10-30-00</td>'));
+    });
+  });
+
+  describe('getDefaultReportPath', () => {
+    it('should put session reports into the session directory', () => {
+      expect(getDefaultReportPath('session', '2024-01-15T10-30-00')).toBe('/mock/results/2024-01-15T10-30-00/report.html');
+    });
+
+    it('should put batch and scenario reports into the reports directory', () => {
+      expect(getDefaultReportPath('batch', '2024-01-15T10-30-00-000Z')).toBe('/mock/results/reports/batch-2024-01-15t10-30-00-000z.html');
+      expect(getDefaultReportPath('scenario', 'Home Page')).toBe('/mock/results/reports/scenario-home-page.html');
+    });
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Static HTML reports (report command)
+ * Single self-contained files for a session, a batch or a scenario's history - no external assets
+ */
+
+import type { Aggregate, BatchResult, HistoryEntry, MeasurementSummary, MetricKey, ReportKind } from './types.js';
+import { aggregateLabel, getHeadlineMetrics } from './stats.js';
+import { dirname, join, resolve } from 'path';
+import { getMetricDefinition, getPresentMetrics } from './metrics.js';
+import { mkdirSync, writeFileSync } from 'fs';
+import { PAGE_STYLES } from './hub-page.js';
+import { getResultsPath } from './settings.js';
+import logger from './logger.js';
+import { spawn } from 'child_process';
+
+/**
+ * Options for rendering a report
+ */
+export interface ReportOptions {
+  /** Which aggregate headline values and trends show (default: mean) */
+  aggregate?: Aggregate;
+  /** Shown in the footer (default: now) */
+  generatedAt?: string;
+}
+
+const STAT_COLUMNS = ['mean', 'median', 'p75', 'p90', 'min', 'max'] as const;
+
+function esc(value: unknown): string {
+  return String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+/**
+ * A metric value with its unit (bytes are shown as KB)
+ */
+function fmt(key: MetricKey, value: number | undefined): string {
+  if (value === undefined) return '-';
+  const { unit, decimals } = getMetricDefinition(key);
+  const displayValue = unit === 'KB' ? value / 1024 : value;
+  const text = decimals > 0 ? displayValue.toFixed(decimals) : Math.round(displayValue).toString();
+  return unit && unit !== '/100' ? `${text} ${unit}` : text;
+}
+
+function scoreClass(score: number): string {
+  return score >= 90 ? 'good' : score >= 50 ? 'warn' : 'bad';
+}
+
+/**
+ * Line chart of a metric over time
+ */
+function trendChart(key: MetricKey, points: Array<{ label: string; value: number }>): string {
+  if (points.length === 0) return '';
+  const w = 320, h = 140, pad = 24;
+  const values = points.map(p => p.value);
+  const min = Math.min(...values), max = Math.max(...values), span = max - min || 1;
+  const x = (i: number) => points.length === 1 ? w / 2 : pad + (i * (w - 2 * pad)) / (points.length - 1);
+  const y = (v: number) => h - pad - ((v - min) * (h - 2 * pad)) / span;
+  const line = points.map((p, i) => `${i ? 'L' : 'M'}${x(i).toFixed(1)} ${y(p.value).toFixed(1)}`).join(' ');
+  const dots = points.map((p, i) =>
+    `<circle cx="${x(i).toFixed(1)}" cy="${y(p.value).toFixed(1)}" r="3" fill="#0969da"><title>${esc(p.label)}: ${esc(fmt(key, p.value))}</title></circle>`
+  ).join('');
+
+  return `<div class="chart"><h3>${esc(getMetricDefinition(key).label)}</h3>`
+    + `<svg viewBox="0 0 ${w} ${h}" preserveAspectRatio="none">`
+    + `<text x="2" y="12" font-size="10" fill="#656d76">${esc(fmt(key, max))}</text>`
+    + `<text x="2" y="${h - 4}" font-size="10" fill="#656d76">${esc(fmt(key, min))}</text>`
+    + `<path d="${line}" fill="none" stroke="#0969da" stroke-width="1.5"/>${dots}</svg></div>`;
+}
+
+/**
+ * Strip plot of a metric's run values, with the headline value marked
+ */
+function distributionChart(key: MetricKey, runs: Array<{ run: number; value: number }>, headline: number): string {
+  if (runs.length === 0) return '';
+  const w = 320, h = 70, pad = 12;
+  const values = [...runs.map(r => r.value), headline];
+  const min = Math.min(...values), max = Math.max(...values), span = max - min || 1;
+  const x = (v: number) => (max === min ? w / 2 : pad + ((v - min) * (w - 2 * pad)) / span).toFixed(1);
+  // Stagger rows so identical values stay visible
+  const dots = runs.map((r, i) =>
+    `<circle cx="${x(r.value)}" cy="${22 + (i % 3) * 10}" r="4" fill="#0969da" fill-opacity="0.7"><title>Run ${r.run}: ${esc(fmt(key, r.value))}</title></circle>`
+  ).join('');
+
+  return `<div class="chart"><h3>${esc(getMetricDefinition(key).label)}</h3>`
+    + `<svg viewBox="0 0 ${w} ${h}" preserveAspectRatio="none" style="height: 70px">`
+    + `<line x1="${x(headline)}" x2="${x(headline)}" y1="10" y2="54" stroke="#cf222e" stroke-width="2"/>`
+    + `<text x="2" y="${h - 4}" font-size="10" fill="#656d76">${esc(fmt(key, min))}</text>`
+    + `<text x="${w - 2}" y="${h - 4}" font-size="10" fill="#656d76" text-anchor="end">${esc(fmt(key, max))}</text>`
+    + `${dots}</svg></div>`;
+}
+
+/**
+ * Trend charts for every metric measured throughout a history
+ */
+function trendCharts(history: HistoryEntry[]): string {
+  if (history.length < 2) return '';
+  return `<div class="charts">${getPresentMetrics(...history.map(e => e.metrics))
+    .map(m => trendChart(m.key, history.map(e => ({ label: e.timestamp, value: e.metrics[m.key]! }))))
+    .join('')}</div>`;
+}
+
+function page(title: string, subtitle: string, body: string, options: ReportOptions): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(title)}</title>
+<style>${PAGE_STYLES}</style>
+</head>
+<body>
+<header><a href="#">${esc(title)}</a></header>
+<main>
+<p class="muted">${esc(subtitle)}</p>
+${body}
+<p class="muted">Generated by webperf at ${esc(options.generatedAt || new Date().toISOString())}</p>
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render the report of a saved session: metric statistics, run distributions and the URL's trend
+ * @param history - Earlier measurements of the URL for the trend charts, oldest first
+ * @param reportsDir - Path from the report to the session directory, for links to saved Lighthouse reports
+ */
+export function renderSessionReport(
+  summary: MeasurementSummary,
+  history: HistoryEntry[] = [],
+  options: ReportOptions & { reportsDir?: string } = {}
+): string {
+  const aggregate = options.aggregate || 'mean';
+  const headline = getHeadlineMetrics(summary, aggregate);
+  const metrics = getPresentMetrics(headline);
+  const validRuns = (summary.runResults || []).filter(r => !r.error);
+  const details = [
+    `${summary.runs} runs`,
+    summary.invalidRuns && `${summary.invalidRuns} invalid`,
+    summary.device && `device: ${summary.device.name}`,
+    summary.throttling && `throttling: ${summary.throttling.name}`,
+    summary.variant && `variant: ${summary.variant}`,
+  ].filter(Boolean).join(' · ');
+
+  const statsTable = '<section><h2>Metrics</h2><table><tr><th>Metric</th>'
+    + `<th class="num">${esc(aggregateLabel(aggregate))}</th>`
+    + (summary.stats ? STAT_COLUMNS.map(c => `<th class="num">${esc(aggregateLabel(c))}</th>`).join('') + '<th class="num">CV</th>' : '')
+    + '</tr>'
+    + metrics.map(m => {
+      const stats = summary.stats?.[m.key];
+      return `<tr><td>${esc(m.label)}</td><td class="num${m.key === 'score' ? ` ${scoreClass(headline.score)}` : ''}"><b>${esc(fmt(m.key, headline[m.key]))}</b></td>`
+        + (stats ? STAT_COLUMNS.map(c => `<td class="num">${esc(fmt(m.key, stats[c]))}</td>`).join('') + `<td class="num">${stats.cv.toFixed(1)}%</td>` : '')
+        + '</tr>';
+    }).join('')
+    + '</table></section>';
+
+  const distributions = validRuns.length > 1
+    ? `<section><h2>Run distributions</h2><p class="muted">Each dot is a run; the red line is the ${esc(aggregate)}.</p><div class="charts">`
+      + metrics.map(m => distributionChart(
+        m.key,
+        validRuns.filter(r => typeof r.metrics[m.key] === 'number').map(r => ({ run: r.run, value: r.metrics[m.key]! })),
+        headline[m.key]!
+      )).join('')
+      + '</div></section>'
+    : '';
+
+  const lighthouseLink = (run: number): string => {
+    const saved = summary.reports?.find(report => report.run === run);
+    return saved && options.reportsDir !== undefined
+      ? `<a href="${esc(join(options.reportsDir, saved.html).split('\\').join('/'))}">Lighthouse report</a>`
+      : '';
+  };
+
+  const runsTable = summary.runResults && summary.runResults.length > 0
+    ? '<section><h2>Runs</h2><table><tr><th>Run</th>'
+      + metrics.map(m => `<th class="num">${esc(m.short)}</th>`).join('')
+      + '<th></th></tr>'
+      + summary.runResults.map(r => `<tr><td>${r.run}</td>`
+        + (r.error
+          ? `<td colspan="${metrics.length}" class="bad">${esc(r.error.code)}: ${esc(r.error.message)}</td>`
+          : metrics.map(m => `<td class="num">${esc(fmt(m.key, r.metrics[m.key]))}</td>`).join(''))
+        + `<td>${lighthouseLink(r.run)}</td></tr>`).join('')
+      + '</table></section>'
+    : '';
+
+  const trend = history.length > 1
+    ? `<section><h2>Trend</h2><p class="muted">${history.length} measurements of this URL, oldest first.</p>${trendCharts(history)}</section>`
+    : '';
+
+  return page(
+    `Webperf report: ${summary.url}`,
+    [summary.timestamp, summary.note, details].filter(Boolean).join(' · '),
+    statsTable + distributions + runsTable + trend,
+    options
+  );
+}
+
+/**
+ * Render the report of a batch: every scenario's headline metrics, assertions and score trend
+ * @param histories - Each scenario's measurements, oldest first, keyed by scenario ID
+ */
+export function renderBatchReport(
+  batch: BatchResult,
+  histories: Record<string, HistoryEntry[]> = {},
+  options: ReportOptions = {}
+): string {
+  const aggregate = options.aggregate || 'mean';
+  const headlines = batch.results.map(r => r.summary && !r.error ? getHeadlineMetrics(r.summary, aggregate) : undefined);
+  const metrics = getPresentMetrics(...headlines.filter((h): h is NonNullable<typeof h> => h !== undefined));
+
+  const table = `<section><h2>Scenarios (${esc(aggregate)})</h2><table><tr><th>Scenario</th><th>URL</th>`
+    + metrics.map(m => `<th class="num">${esc(m.short)}</th>`).join('')
+    + '<th>Assertions</th></tr>'
+    + batch.results.map((r, i) => {
+      const headline = headlines[i];
+      const failed = r.assertions?.filter(a => !a.passed) || [];
+      return `<tr><td>${esc(r.scenario.id)}</td><td>${esc(r.scenario.url)}</td>`
+        + (headline
+          ? metrics.map(m => `<td class="num${m.key === 'score' ? ` ${scoreClass(headline.score)}` : ''}">${esc(fmt(m.key, headline[m.key]))}</td>`).join('')
+          : `<td colspan="${metrics.length}" class="bad">${esc(r.error || 'No result')}</td>`)
+        + `<td>${r.assertions
+          ? failed.length > 0 ? `<span class="bad">${failed.map(a => esc(a.assertion)).join('<br>')}</span>` : '<span class="good">passed</span>'
+          : ''}</td></tr>`;
+    }).join('')
+    + '</table></section>';
+
+  const trends = batch.results
+    .filter(r => (histories[r.scenario.id] || []).length > 1)
+    .map(r => `<section><h2>${esc(r.scenario.id)}</h2><p class="muted">${histories[r.scenario.id].length} measurements, oldest first.</p>${trendCharts(histories[r.scenario.id])}</section>`)
+    .join('');
+
+  return page(
+    `Webperf batch ${batch.batchId}`,
+    [
+      `${batch.completed}/${batch.totalScenarios} completed`,
+      batch.failed > 0 && `${batch.failed} failed`,
+      batch.failedAssertions && `${batch.failedAssertions} assertions failed`,
+      `${(batch.duration / 1000).toFixed(1)}s`,
+      batch.tags && batch.tags.length > 0 && `tags: ${batch.tags.join(', ')}`,
+    ].filter(Boolean).join(' · '),
+    table + trends,
+    options
+  );
+}
+
+/**
+ * Render the report of a scenario's history: trend charts and every measurement
+ * @param history - The scenario's measurements, oldest first
+ */
+export function renderScenarioReport(scenarioId: string, history: HistoryEntry[], options: ReportOptions = {}): string {
+  const metrics = getPresentMetrics(...history.map(e => e.metrics));
+
+  const table = '<section><h2>Measurements</h2><table><tr><th>Timestamp</th><th>Note</th><th class="num">Runs</th>'
+    + metrics.map(m => `<th class="num">${esc(m.short)}</th>`).join('')
+    + '</tr>'
+    + [...history].reverse().map(e => `<tr><td>${esc(e.timestamp)}</td><td>${esc(e.note || '')}</td><td class="num">${e.runs}</td>`
+      + metrics.map(m => `<td class="num${m.key === 'score' ? ` ${scoreClass(e.metrics.score)}` : ''}">${esc(fmt(m.key, e.metrics[m.key]))}</td>`).join('')
+      + '</tr>').join('')
+    + '</table></section>';
+
+  const trend = history.length > 1 ? `<section><h2>Trend</h2>${trendCharts(history)}</section>` : '';
+
+  return page(
+    `Webperf scenario ${scenarioId}`,
+    `${history.length} measurements (${options.aggregate || 'mean'})${history.length > 0 ? ` · ${history[0].url}` : ''}`,
+    trend + table,
+    options
+  );
+}
+
+/**
+ * Where a report is written by default
+ * Session reports go into the session directory, batch and scenario reports into results/reports
+ */
+export function getDefaultReportPath(kind: ReportKind, id: string): string {
+  const resultsDir = getResultsPath();
+  if (kind === 'session') {
+    return join(resultsDir, id, 'report.html');
+  }
+  const safeId = id.replace(/[^a-zA-Z0-9-_]/g, '-').toLowerCase();
+  return join(resultsDir, 'reports', `${kind}-${safeId}.html`);
+}
+
+/**
+ * Write a report, creating its directory
+ * @returns The absolute path written
+ */
+export function writeReport(path: string, html: string): string {
+  const fullPath = resolve(path);
+  mkdirSync(dirname(fullPath), { recursive: true });
+  writeFileSync(fullPath, html);
+  return fullPath;
+}
+
+/**
+ * Open a file in the default browser without waiting for it
+ */
+export function openInBrowser(path: string): void {
+  const [command, args] = process.platform === 'darwin'
+    ? ['open', [path]]
+    : process.platform === 'win32'
+      ? ['cmd', ['/c', 'start', '""', path]]
+      : ['xdg-open', [path]];
+
+  const child = spawn(command, args, { detached: true, stdio: 'ignore' });
+  child.on('error', () => logger.logWarn(`Could not open ${path} (${command} failed)`));
+  child.unref();
+}
@@ -1,4 +1,4 @@
-import type { MeasurementResult, MeasurementSummary } from './types.js';
+import type { BatchResult, MeasurementResult, MeasurementSummary, PairedResult } from './types.js';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { appendFileSync, existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
 
@@ -38,6 +38,7 @@ vi.mock('./logger.js', () => ({
     yellow: (s: string) => s,
     red: (s: string) => s,
     magenta: (s: string) => s,
+    gray: (s: string) => s,
     bold: (s: string) => s,
     scoreColor: (n: number) => String(n),
   },
@@ -55,6 +56,7 @@ vi.mock('./logger.js', () => ({
     yellow: (s: string) => s,
     red: (s: string) => s,
     magenta: (s: string) => s,
+    gray: (s: string) => s,
     bold: (s: string) => s,
     scoreColor: (n: number) => String(n),
   },
@@ -144,6 +146,256 @@ describe('results', () => {
       expect(writtenData.range.maxScore).toBe(90);
     });
 
+    it('should save device profile when provided', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      
+      const { saveResults } = await import('./results.js');
+      
+      const averages: MeasurementResult = {
+        score: 85,
+        fcp: 1200,
+        lcp: 2100,
+        tbt: 150,
+        cls: 0.05,
+        si: 1800,
+      };
+      
+      saveResults({
+        url: 'https://example.com',
+        runs: 1,
+        averages,
+        minScore: 85,
+        maxScore: 85,
+        rawScores: [85],
+        overridesApplied: false,
+        device: { name: 'moto-g-power', formFactor: 'mobile', viewport: { width: 412, height: 823, deviceScaleFactor: 1.75, mobile: true } },
+      });
+      
+      const writeCall = vi.mocked(writeFileSync).mock.calls.find(
+        call => (call[0] as string).includes('summary.json')
+      );
+      const writtenData = JSON.parse(writeCall![1] as string);
+      expect(writtenData.device.name).toBe('moto-g-power');
+      expect(writtenData.device.viewport.width).toBe(412);
+    });
+
+    it('should save effective throttling when provided', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      
+      const { saveResults } = await import('./results.js');
+      
+      saveResults({
+        url: 'https://example.com',
+        runs: 1,
+        averages: { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 },
+        minScore: 85,
+        maxScore: 85,
+        rawScores: [85],
+        overridesApplied: false,
+        throttling: { name: 'slow-4g', method: 'simulate', rttMs: 150, throughputKbps: 1638.4, uploadThroughputKbps: 750, cpuSlowdownMultiplier: 4 },
+      });
+      
+      const writeCall = vi.mocked(writeFileSync).mock.calls.find(
+        call => (call[0] as string).includes('summary.json')
+      );
+      const writtenData = JSON.parse(writeCall![1] as string);
+      expect(writtenData.throttling.name).toBe('slow-4g');
+      expect(writtenData.throttling.method).toBe('simulate');
+      
+      const jsonLine = vi.mocked(appendFileSync).mock.calls[0][1] as string;
+      expect(JSON.parse(jsonLine).throttling.cpuSlowdownMultiplier).toBe(4);
+    });
+
+    it('should save per-run results when provided', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      
+      const { saveResults } = await import('./results.js');
+      
+      const run = { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 };
+      saveResults({
+        url: 'https://example.com',
+        runs: 1,
+        averages: run,
+        minScore: 85,
+        maxScore: 85,
+        rawScores: [85],
+        runResults: [{ run: 1, startedAt: '2024-01-15T10:30:00.000Z', duration: 12000, metrics: run }],
+        overridesApplied: false,
+      });
+      
+      const writeCall = vi.mocked(writeFileSync).mock.calls.find(
+        call => (call[0] as string).includes('summary.json')
+      );
+      const writtenData = JSON.parse(writeCall![1] as string);
+      expect(writtenData.runResults).toHaveLength(1);
+      expect(writtenData.runResults[0].metrics.lcp).toBe(2100);
+      expect(writtenData.runResults[0].duration).toBe(12000);
+    });
+
+    it('should save the adaptive run outcome when provided', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      
+      const { saveResults } = await import('./results.js');
+      
+      const run = { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 };
+      saveResults({
+        url: 'https://example.com',
+        runs: 4,
+        averages: run,
+        minScore: 85,
+        maxScore: 85,
+        rawScores: [85, 85, 85, 85],
+        adaptive: { stopReason: 'converged', minRuns: 3, maxRuns: 20, targetCv: 3, precision: { score: 1.2 } },
+        overridesApplied: false,
+      });
+      
+      const writeCall = vi.mocked(writeFileSync).mock.calls.find(
+        call => (call[0] as string).includes('summary.json')
+      );
+      const writtenData = JSON.parse(writeCall![1] as string);
+      expect(writtenData.runs).toBe(4);
+      expect(writtenData.adaptive.stopReason).toBe('converged');
+      expect(writtenData.adaptive.precision.score).toBe(1.2);
+    });
+
+    it('should save warm-up runs separately when provided', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      
+      const { saveResults } = await import('./results.js');
+      
+      const run = { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 };
+      const coldRun = { ...run, score: 40, lcp: 9000 };
+      saveResults({
+        url: 'https://example.com',
+        runs: 1,
+        averages: run,
+        minScore: 85,
+        maxScore: 85,
+        rawScores: [85],
+        runResults: [{ run: 1, startedAt: '2024-01-15T10:30:20.000Z', duration: 12000, metrics: run }],
+        warmupResults: [{ run: 1, startedAt: '2024-01-15T10:30:00.000Z', duration: 20000, metrics: coldRun }],
+        overridesApplied: false,
+      });
+      
+      const writeCall = vi.mocked(writeFileSync).mock.calls.find(
+        call => (call[0] as string).includes('summary.json')
+      );
+      const writtenData = JSON.parse(writeCall![1] as string);
+      expect(writtenData.warmupResults[0].metrics.lcp).toBe(9000);
+      expect(writtenData.rawScores).toEqual([85]);
+      expect(writtenData.averages.lcp).toBe(2100);
+    });
+
+    it('should write Lighthouse reports next to the summary', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      
+      const { saveResults } = await import('./results.js');
+      
+      const run = { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 };
+      const sessionDir = saveResults({
+        url: 'https://example.com',
+        runs: 1,
+        averages: run,
+        minScore: 85,
+        maxScore: 85,
+        rawScores: [85],
+        reports: [{ run: 1, json: '{"lhr":true}', html: '<html></html>' }],
+        overridesApplied: false,
+      });
+      
+      expect(writeFileSync).toHaveBeenCalledWith(`${sessionDir}/run-1.report.json`, '{"lhr":true}');
+      expect(writeFileSync).toHaveBeenCalledWith(`${sessionDir}/run-1.report.html`, '<html></html>');
+      
+      const writeCall = vi.mocked(writeFileSync).mock.calls.find(
+        call => (call[0] as string).includes('summary.json')
+      );
+      const writtenData = JSON.parse(writeCall![1] as string);
+      expect(writtenData.reports).toEqual([{ run: 1, json: 'run-1.report.json', html: 'run-1.report.html' }]);
+    });
+
+    it('should count invalid runs', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      
+      const { saveResults } = await import('./results.js');
+      
+      const run = { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 };
+      saveResults({
+        url: 'https://example.com',
+        runs: 1,
+        averages: run,
+        minScore: 85,
+        maxScore: 85,
+        rawScores: [85],
+        runResults: [
+          { run: 1, startedAt: '2024-01-15T10:30:00.000Z', duration: 12000, metrics: run },
+          {
+            run: 2,
+            startedAt: '2024-01-15T10:30:14.000Z',
+            duration: 30000,
+            metrics: { ...run, score: 0, lcp: 0 },
+            error: { code: 'NO_FCP', message: 'The page did not paint any content.' },
+          },
+        ],
+        overridesApplied: false,
+      });
+      
+      const writeCall = vi.mocked(writeFileSync).mock.calls.find(
+        call => (call[0] as string).includes('summary.json')
+      );
+      const writtenData = JSON.parse(writeCall![1] as string);
+      expect(writtenData.invalidRuns).toBe(1);
+      expect(writtenData.runResults[1].error.code).toBe('NO_FCP');
+    });
+
+    it('should record retried and abandoned runs', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      
+      const { saveResults } = await import('./results.js');
+      
+      const run = { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 };
+      saveResults({
+        url: 'https://example.com',
+        runs: 1,
+        averages: run,
+        minScore: 85,
+        maxScore: 85,
+        rawScores: [85],
+        retriedRuns: [
+          { run: 2, attempts: 3, errors: [{ code: 'RUN_TIMEOUT', message: 'Run timed out after 120s' }], abandoned: true },
+        ],
+        overridesApplied: false,
+      });
+      
+      const writeCall = vi.mocked(writeFileSync).mock.calls.find(
+        call => (call[0] as string).includes('summary.json')
+      );
+      const writtenData = JSON.parse(writeCall![1] as string);
+      expect(writtenData.retriedRuns[0]).toMatchObject({ run: 2, abandoned: true });
+    });
+
+    it('should record the measured variant', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      
+      const { saveResults } = await import('./results.js');
+      
+      const run = { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 };
+      saveResults({
+        url: 'https://example.com',
+        runs: 1,
+        averages: run,
+        minScore: 85,
+        maxScore: 85,
+        rawScores: [85],
+        overridesApplied: true,
+        variant: 'flag-a',
+      });
+      
+      const writeCall = vi.mocked(writeFileSync).mock.calls.find(
+        call => (call[0] as string).includes('summary.json')
+      );
+      expect(JSON.parse(writeCall![1] as string).variant).toBe('flag-a');
+    });
+
     it('should append to JSONL log', async () => {
       vi.mocked(existsSync).mockReturnValue(false);
       
@@ -239,6 +491,55 @@ describe('results', () => {
       expect(result?.averages.score).toBe(85);
     });
 
+    it('should derive scores and range from per-run results', async () => {
+      const mockSummary: MeasurementSummary = {
+        url: 'https://example.com',
+        runs: 2,
+        timestamp: '2024-01-15T10-30-00',
+        overridesApplied: false,
+        averages: { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 },
+        range: { minScore: 0, maxScore: 0 },
+        rawScores: [],
+        runResults: [
+          { run: 1, startedAt: '2024-01-15T10:29:00.000Z', duration: 10000, metrics: { score: 80, fcp: 1100, lcp: 2000, tbt: 100, cls: 0.04, si: 1700 } },
+          { run: 2, startedAt: '2024-01-15T10:29:30.000Z', duration: 10000, metrics: { score: 90, fcp: 1300, lcp: 2200, tbt: 200, cls: 0.06, si: 1900 } },
+        ],
+      };
+      
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(mockSummary));
+      
+      const { loadSummary, getRunMetrics } = await import('./results.js');
+      
+      const result = loadSummary('2024-01-15T10-30-00');
+      
+      expect(result?.rawScores).toEqual([80, 90]);
+      expect(result?.range).toEqual({ minScore: 80, maxScore: 90 });
+      expect(getRunMetrics(result!)).toHaveLength(2);
+    });
+
+    it('should load older summaries without per-run results', async () => {
+      const mockSummary: MeasurementSummary = {
+        url: 'https://example.com',
+        runs: 5,
+        timestamp: '2024-01-15T10-30-00',
+        overridesApplied: false,
+        averages: { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 },
+        range: { minScore: 80, maxScore: 90 },
+        rawScores: [80, 85, 90, 85, 85],
+      };
+      
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(mockSummary));
+      
+      const { loadSummary, getRunMetrics } = await import('./results.js');
+      
+      const result = loadSummary('2024-01-15T10-30-00');
+      
+      expect(result?.rawScores).toEqual([80, 85, 90, 85, 85]);
+      expect(getRunMetrics(result!)).toBeNull();
+    });
+
     it('should return null for non-existent file', async () => {
       vi.mocked(existsSync).mockReturnValue(false);
       
@@ -346,6 +647,88 @@ describe('results', () => {
       
       expect(logger.default.log).toHaveBeenCalled();
     });
+
+    it('should point at saved Lighthouse reports', async () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readdirSync).mockReturnValue(['2024-01-15T11-00-00'] as any);
+      
+      const mockSummary: MeasurementSummary = {
+        url: 'https://example.com',
+        runs: 3,
+        timestamp: '2024-01-15T11-00-00',
+        overridesApplied: false,
+        averages: { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 },
+        range: { minScore: 80, maxScore: 90 },
+        rawScores: [85],
+        reports: [{ run: 2, json: 'run-2.report.json', html: 'run-2.report.html' }],
+      };
+      
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(mockSummary));
+      
+      const { showLastResult } = await import('./results.js');
+      const logger = await import('./logger.js');
+      
+      showLastResult();
+      
+      const logCalls = vi.mocked(logger.default.log).mock.calls.map(call => String(call[0]));
+      expect(logCalls).toContain('  Run 2: /mock/results/2024-01-15T11-00-00/run-2.report.html');
+    });
+  });
+
+  describe('getRunMetrics', () => {
+    it('should skip invalid runs', async () => {
+      const { getRunMetrics } = await import('./results.js');
+      
+      const run = { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 };
+      const summary: MeasurementSummary = {
+        url: 'https://example.com',
+        runs: 1,
+        timestamp: '2024-01-15T10-30-00',
+        overridesApplied: false,
+        averages: run,
+        range: { minScore: 85, maxScore: 85 },
+        rawScores: [85],
+        runResults: [
+          { run: 1, startedAt: '2024-01-15T10:30:00.000Z', duration: 12000, metrics: run },
+          { run: 2, startedAt: '2024-01-15T10:30:14.000Z', duration: 30000, metrics: { ...run, lcp: 0 }, error: { code: 'HTTP_500', message: 'Main document returned status 500' } },
+        ],
+      };
+      
+      expect(getRunMetrics(summary)).toEqual([run]);
+    });
+  });
+
+  describe('buildComparisons', () => {
+    it('should mark lower timings and higher scores as improvements', async () => {
+      const { buildComparisons } = await import('./results.js');
+      
+      const comparisons = buildComparisons(
+        { score: 80, fcp: 1000, lcp: 2000, tbt: 200, cls: 0.1, si: 1500 },
+        { score: 90, fcp: 1100, lcp: 1500, tbt: 200, cls: 0.1, si: 1500 }
+      );
+      
+      expect(comparisons.map(c => c.metric)).toEqual([
+        'Performance Score', 'FCP (ms)', 'LCP (ms)', 'TBT (ms)', 'CLS', 'Speed Index (ms)',
+      ]);
+      expect(comparisons[0]).toMatchObject({ diff: 10, improved: true });
+      expect(comparisons[1]).toMatchObject({ diff: 100, percentChange: 10, improved: false });
+      expect(comparisons[2]).toMatchObject({ diff: -500, percentChange: -25, improved: true });
+      expect(comparisons[3].improved).toBe(false);
+    });
+
+    it('should compare extra metrics present on both sides', async () => {
+      const { buildComparisons } = await import('./results.js');
+      
+      const core = { score: 80, fcp: 1000, lcp: 2000, tbt: 200, cls: 0.1, si: 1500 };
+      const comparisons = buildComparisons(
+        { ...core, ttfb: 400, requests: 80 },
+        { ...core, ttfb: 200 }
+      );
+      
+      const ttfb = comparisons.find(c => c.key === 'ttfb');
+      expect(ttfb).toMatchObject({ metric: 'TTFB (ms)', diff: -200, improved: true });
+      expect(comparisons.some(c => c.key === 'requests')).toBe(false);
+    });
   });
 
   describe('compareResults', () => {
@@ -397,6 +780,156 @@ describe('results', () => {
       expect(logger.default.header).toHaveBeenCalledWith('COMPARISON RESULTS');
     });
 
+    it('should warn when comparing different device profiles', async () => {
+      const mockSummary1: MeasurementSummary = {
+        url: 'https://example.com',
+        runs: 5,
+        timestamp: '2024-01-15T10-30-00',
+        overridesApplied: false,
+        averages: { score: 90, fcp: 800, lcp: 1200, tbt: 50, cls: 0.01, si: 1000 },
+        range: { minScore: 88, maxScore: 92 },
+        rawScores: [90],
+      };
+      
+      const mockSummary2: MeasurementSummary = {
+        ...mockSummary1,
+        timestamp: '2024-01-15T11-00-00',
+        device: { name: 'moto-g-power', formFactor: 'mobile', viewport: { width: 412, height: 823, deviceScaleFactor: 1.75, mobile: true } },
+      };
+      
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync)
+        .mockReturnValueOnce(JSON.stringify(mockSummary1))
+        .mockReturnValueOnce(JSON.stringify(mockSummary2));
+      
+      const { compareResults } = await import('./results.js');
+      const logger = await import('./logger.js');
+      
+      compareResults('file1', 'file2');
+      
+      expect(logger.default.logWarn).toHaveBeenCalledWith('Results were measured with different device profiles:');
+    });
+
+    it('should show per-run ranges when both summaries have per-run results', async () => {
+      const runA = { score: 80, fcp: 1100, lcp: 2000, tbt: 100, cls: 0.04, si: 1700 };
+      const runB = { score: 90, fcp: 1300, lcp: 2200, tbt: 200, cls: 0.06, si: 1900 };
+      const mockSummary: MeasurementSummary = {
+        url: 'https://example.com',
+        runs: 2,
+        timestamp: '2024-01-15T10-30-00',
+        overridesApplied: false,
+        averages: { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 },
+        range: { minScore: 80, maxScore: 90 },
+        rawScores: [80, 90],
+        runResults: [
+          { run: 1, startedAt: '2024-01-15T10:29:00.000Z', duration: 10000, metrics: runA },
+          { run: 2, startedAt: '2024-01-15T10:29:30.000Z', duration: 10000, metrics: runB },
+        ],
+      };
+      
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(mockSummary));
+      
+      const { compareResults } = await import('./results.js');
+      const logger = await import('./logger.js');
+      
+      compareResults('file1', 'file2');
+      
+      const logLines = vi.mocked(logger.default.log).mock.calls.map(call => String(call[0]));
+      expect(logLines.some(line => line.includes('Per-run range'))).toBe(true);
+      expect(logLines.some(line => line.includes('LCP (ms)') && line.includes('2000-2200'))).toBe(true);
+    });
+
+    it('should only call significant changes improvements or regressions', async () => {
+      const summaryWith = (scores: number[], lcps: number[]): MeasurementSummary => ({
+        url: 'https://example.com',
+        runs: scores.length,
+        timestamp: '2024-01-15T10-30-00',
+        overridesApplied: false,
+        averages: { score: 82, fcp: 1200, lcp: lcps[0] + 50, tbt: 150, cls: 0.05, si: 1800 },
+        range: { minScore: 0, maxScore: 0 },
+        rawScores: scores,
+        runResults: scores.map((score, i) => ({
+          run: i + 1,
+          startedAt: '2024-01-15T10:29:00.000Z',
+          duration: 10000,
+          metrics: { score, fcp: 1200, lcp: lcps[i], tbt: 150, cls: 0.05, si: 1800 },
+        })),
+      });
+      
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync)
+        .mockReturnValueOnce(JSON.stringify(summaryWith([80, 82, 84, 81, 83], [2500, 2550, 2600, 2520, 2580])))
+        .mockReturnValueOnce(JSON.stringify(summaryWith([83, 81, 82, 84, 80], [2000, 2050, 2100, 2020, 2080])));
+      
+      const { compareResults } = await import('./results.js');
+      const logger = await import('./logger.js');
+      
+      compareResults('file1', 'file2');
+      
+      const logLines = vi.mocked(logger.default.log).mock.calls.map(call => String(call[0]));
+      // Same scores in a different order
+      expect(logLines.some(line => line.startsWith('  Performance Score') && line.includes('p=1.000') && line.includes('no significant change'))).toBe(true);
+      expect(logLines.some(line => line.startsWith('  LCP (ms)') && line.includes('p=0.012') && !line.includes('no significant change'))).toBe(true);
+    });
+
+    it('should ignore significant changes below the minimum effect size', async () => {
+      const { testSignificance } = await import('./results.js');
+      
+      const run = (lcp: number) => ({ score: 85, fcp: 1200, lcp, tbt: 150, cls: 0.05, si: 1800 });
+      const before = [2000, 2001, 2002, 2003, 2004].map(run);
+      const after = [2010, 2011, 2012, 2013, 2014].map(run);
+      const comparison = {
+        metric: 'LCP (ms)', key: 'lcp' as const, before: 2002, after: 2012, diff: 10, percentChange: 0.5, improved: false,
+      };
+      
+      expect(testSignificance([comparison], before, after)[0]).toMatchObject({ significant: false });
+      expect(testSignificance([comparison], before, after, { minEffectPercent: 0 })[0]).toMatchObject({ significant: true });
+    });
+
+    it('should test changes from a zero baseline by their absolute size', async () => {
+      const { buildComparisons, testSignificance } = await import('./results.js');
+
+      const run = (tbt: number) => ({ score: 85, fcp: 1200, lcp: 2000, tbt, cls: 0.05, si: 1800 });
+      const before = [0, 0, 0, 0, 0].map(run);
+      const after = [200, 210, 190, 205, 195].map(run);
+      const [, , , tbt] = buildComparisons(run(0), run(200));
+
+      expect(tbt).toMatchObject({ diff: 200, percentChange: null });
+      expect(JSON.parse(JSON.stringify(tbt)).percentChange).toBeNull();
+      expect(testSignificance([tbt], before, after)[0]).toMatchObject({ significant: true });
+      expect(testSignificance([tbt], before, before)[0]).toMatchObject({ significant: false });
+    });
+
+    it('should compare the chosen aggregate', async () => {
+      const mockSummary: MeasurementSummary = {
+        url: 'https://example.com',
+        runs: 3,
+        timestamp: '2024-01-15T10-30-00',
+        overridesApplied: false,
+        averages: { score: 85, fcp: 1200, lcp: 3000, tbt: 150, cls: 0.05, si: 1800 },
+        range: { minScore: 80, maxScore: 90 },
+        rawScores: [80, 85, 90],
+        runResults: [
+          { run: 1, startedAt: '', duration: 0, metrics: { score: 80, fcp: 1200, lcp: 2000, tbt: 150, cls: 0.05, si: 1800 } },
+          { run: 2, startedAt: '', duration: 0, metrics: { score: 85, fcp: 1200, lcp: 2100, tbt: 150, cls: 0.05, si: 1800 } },
+          { run: 3, startedAt: '', duration: 0, metrics: { score: 90, fcp: 1200, lcp: 4900, tbt: 150, cls: 0.05, si: 1800 } },
+        ],
+      };
+      
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(mockSummary));
+      
+      const { compareResults } = await import('./results.js');
+      const logger = await import('./logger.js');
+      
+      compareResults('file1', 'file2', 'median');
+      
+      const logLines = vi.mocked(logger.default.log).mock.calls.map(call => String(call[0]));
+      expect(logLines.some(line => line.includes('Comparing Median values'))).toBe(true);
+      expect(logLines.some(line => line.startsWith('  LCP (ms)') && line.includes('2100'))).toBe(true);
+    });
+
     it('should handle missing files', async () => {
       vi.mocked(existsSync).mockReturnValue(false);
       
@@ -408,5 +941,393 @@ describe('results', () => {
       expect(logger.default.logError).toHaveBeenCalled();
     });
   });
-});
 
+  describe('compareMultiple', () => {
+    const summaryWith = (timestamp: string, score: number, lcp: number): MeasurementSummary => ({
+      url: 'https://example.com',
+      runs: 1,
+      timestamp,
+      overridesApplied: false,
+      averages: { score, fcp: 1200, lcp, tbt: 150, cls: 0.05, si: 1800 },
+      range: { minScore: score, maxScore: score },
+      rawScores: [score],
+    });
+    
+    it('should show every result against the baseline column and mark the best values', async () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync)
+        .mockReturnValueOnce(JSON.stringify(summaryWith('2024-01-15T10-30-00', 80, 2500)))
+        .mockReturnValueOnce(JSON.stringify(summaryWith('2024-01-15T11-00-00', 85, 2000)))
+        .mockReturnValueOnce(JSON.stringify(summaryWith('2024-01-15T11-30-00', 90, 2200)));
+      
+      const { compareMultiple } = await import('./results.js');
+      const logger = await import('./logger.js');
+      
+      compareMultiple(['a', 'b', 'c'], 1);
+      
+      const logLines = vi.mocked(logger.default.log).mock.calls.map(call => String(call[0]));
+      expect(logLines.some(line => line.includes('#2 (baseline)') && line.includes('2024-01-15T11-00-00'))).toBe(true);
+      const scoreLine = logLines.find(line => line.startsWith('  Performance Score'))!;
+      expect(scoreLine).toMatch(/80 \(-5\.9%\) +85 +90 \(\+5\.9%\)\*/);
+      const lcpLine = logLines.find(line => line.startsWith('  LCP (ms)'))!;
+      expect(lcpLine).toMatch(/2500 \(\+25\.0%\) +2000\* +2200 \(\+10\.0%\) /);
+      // Same value everywhere: nothing is best
+      expect(logLines.find(line => line.startsWith('  FCP (ms)'))).not.toContain('*');
+    });
+    
+    it('should stop when a result cannot be loaded', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      
+      const { compareMultiple } = await import('./results.js');
+      const logger = await import('./logger.js');
+      
+      compareMultiple(['a', 'b', 'c']);
+      
+      expect(logger.default.logError).toHaveBeenCalledWith('Could not load results from: a');
+      expect(logger.default.header).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('buildComparisonReport', () => {
+    const summaryWith = (timestamp: string, lcps: number[], device?: MeasurementSummary['device']): MeasurementSummary => ({
+      url: 'https://example.com',
+      runs: lcps.length,
+      timestamp,
+      note: 'main',
+      overridesApplied: false,
+      averages: { score: 85, fcp: 1200, lcp: lcps.reduce((a, b) => a + b, 0) / lcps.length, tbt: 150, cls: 0.05, si: 1800 },
+      range: { minScore: 85, maxScore: 85 },
+      rawScores: lcps.map(() => 85),
+      device,
+      runResults: lcps.map((lcp, i) => ({
+        run: i + 1,
+        startedAt: '2024-01-15T10:29:00.000Z',
+        duration: 10000,
+        metrics: { score: 85, fcp: 1200, lcp, tbt: 150, cls: 0.05, si: 1800 },
+      })),
+    });
+    
+    it('should describe both sides and test the comparisons for significance', async () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync)
+        .mockReturnValueOnce(JSON.stringify(summaryWith('2024-01-15T10-30-00', [2500, 2550, 2600, 2520, 2580])))
+        .mockReturnValueOnce(JSON.stringify(summaryWith('2024-01-15T11-00-00', [2000, 2050, 2100, 2020, 2080])));
+      
+      const { buildComparisonReport } = await import('./results.js');
+      
+      const report = buildComparisonReport('before', 'after', 'mean', { minEffectPercent: 2 });
+      
+      expect(report?.before).toEqual({ result: 'before', timestamp: '2024-01-15T10-30-00', url: 'https://example.com', runs: 5, note: 'main' });
+      expect(report?.significance).toEqual({ alpha: 0.05, minEffectPercent: 2 });
+      expect(report?.warnings).toEqual([]);
+      expect(report?.comparisons.find(c => c.key === 'lcp')).toMatchObject({ before: 2550, after: 2050, improved: true, significant: true });
+    });
+    
+    it('should report mismatched device profiles as warnings', async () => {
+      const { DEVICE_PROFILES } = await import('./devices.js');
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync)
+        .mockReturnValueOnce(JSON.stringify(summaryWith('2024-01-15T10-30-00', [2500])))
+        .mockReturnValueOnce(JSON.stringify(summaryWith('2024-01-15T11-00-00', [2000], DEVICE_PROFILES['moto-g-power'])));
+      
+      const { buildComparisonReport } = await import('./results.js');
+      
+      const report = buildComparisonReport('before', 'after');
+      
+      expect(report?.warnings).toEqual([expect.stringContaining('Different device profiles')]);
+    });
+    
+    it('should return null when a result cannot be loaded', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      
+      const { buildComparisonReport } = await import('./results.js');
+      const logger = await import('./logger.js');
+      
+      expect(buildComparisonReport('missing1', 'missing2')).toBeNull();
+      expect(logger.default.logError).toHaveBeenCalledWith('Could not load results from: missing1');
+    });
+  });
+
+  describe('printExperimentComparison', () => {
+    const summaryWith = (averages: MeasurementResult): MeasurementSummary => ({
+      url: 'https://example.com',
+      runs: 3,
+      timestamp: '2024-01-15T10-30-00',
+      overridesApplied: true,
+      averages,
+      range: { minScore: averages.score, maxScore: averages.score },
+      rawScores: [averages.score],
+    });
+    
+    it('should show each variant against the baseline', async () => {
+      const { printExperimentComparison } = await import('./results.js');
+      const logger = await import('./logger.js');
+      
+      printExperimentComparison({
+        experimentId: '2024-01-15T10-30-00',
+        startedAt: '2024-01-15T10:30:00.000Z',
+        completedAt: '2024-01-15T10:35:00.000Z',
+        url: 'https://example.com',
+        baseline: 'off',
+        variants: [
+          { variant: 'off', summary: summaryWith({ score: 80, fcp: 1200, lcp: 2000, tbt: 200, cls: 0.05, si: 1800 }) },
+          { variant: 'flag-a', description: 'New hero', summary: summaryWith({ score: 88, fcp: 1200, lcp: 1500, tbt: 200, cls: 0.05, si: 1800 }) },
+          { variant: 'flag-b', error: 'All 3 runs were invalid' },
+        ],
+      });
+      
+      const logLines = vi.mocked(logger.default.log).mock.calls.map(call => call[0] as string);
+      expect(logger.default.header).toHaveBeenCalledWith('VARIANT COMPARISON');
+      expect(logLines.some(line => line.includes('off (baseline)'))).toBe(true);
+      expect(logLines.some(line => line.includes('FAILED - All 3 runs were invalid'))).toBe(true);
+      expect(logLines.some(line => line.startsWith('  LCP (ms)') && line.includes('2000') && line.includes('1500 (-25.0%)'))).toBe(true);
+    });
+
+    it('should not color changes within the noise as improvements', async () => {
+      const { printExperimentComparison } = await import('./results.js');
+      const logger = await import('./logger.js');
+      const green = vi.spyOn(logger.default, 'green');
+      const gray = vi.spyOn(logger.default, 'gray');
+      const withRuns = (lcps: number[]): MeasurementSummary => ({
+        ...summaryWith({ score: 85, fcp: 1200, lcp: lcps.reduce((a, b) => a + b, 0) / lcps.length, tbt: 150, cls: 0.05, si: 1800 }),
+        runResults: lcps.map((lcp, i) => ({
+          run: i + 1,
+          startedAt: '2024-01-15T10:29:00.000Z',
+          duration: 10000,
+          metrics: { score: 85, fcp: 1200, lcp, tbt: 150, cls: 0.05, si: 1800 },
+        })),
+      });
+
+      printExperimentComparison({
+        experimentId: '2024-01-15T10-30-00',
+        startedAt: '2024-01-15T10:30:00.000Z',
+        completedAt: '2024-01-15T10:35:00.000Z',
+        url: 'https://example.com',
+        baseline: 'off',
+        variants: [
+          { variant: 'off', summary: withRuns([2000, 2400, 2100, 2300, 2200]) },
+          { variant: 'on', summary: withRuns([2150, 2050, 2350, 1950, 2250]) },
+        ],
+      });
+
+      expect(green.mock.calls.some(call => String(call[0]).includes('2150 (-2.3%)'))).toBe(false);
+      expect(gray.mock.calls.some(call => String(call[0]).includes('2150 (-2.3%)'))).toBe(true);
+      green.mockRestore();
+      gray.mockRestore();
+    });
+
+    it('should warn when fewer than two variants were measured', async () => {
+      const { printExperimentComparison } = await import('./results.js');
+      const logger = await import('./logger.js');
+      
+      printExperimentComparison({
+        experimentId: '2024-01-15T10-30-00',
+        startedAt: '2024-01-15T10:30:00.000Z',
+        completedAt: '2024-01-15T10:35:00.000Z',
+        url: 'https://example.com',
+        baseline: 'off',
+        variants: [{ variant: 'off', error: 'boom' }, { variant: 'on', error: 'boom' }],
+      });
+      
+      expect(logger.default.logWarn).toHaveBeenCalledWith('Not enough variants measured to compare.');
+    });
+  });
+
+  describe('batch comparison', () => {
+    const summaryWith = (lcps: number[]): MeasurementSummary => ({
+      url: 'https://example.com',
+      runs: lcps.length,
+      timestamp: '2024-01-15T10-30-00',
+      overridesApplied: false,
+      averages: { score: 85, fcp: 1200, lcp: lcps.reduce((a, b) => a + b, 0) / lcps.length, tbt: 150, cls: 0.05, si: 1800 },
+      range: { minScore: 0, maxScore: 0 },
+      rawScores: lcps.map(() => 85),
+      runResults: lcps.map((lcp, i) => ({
+        run: i + 1,
+        startedAt: '2024-01-15T10:29:00.000Z',
+        duration: 10000,
+        metrics: { score: 85, fcp: 1200, lcp, tbt: 150, cls: 0.05, si: 1800 },
+      })),
+    });
+    const scenario = (id: string) => ({ id, note: '', url: `https://example.com/${id}` });
+    const batchWith = (batchId: string, results: BatchResult['results']): BatchResult => ({
+      batchId,
+      startedAt: '2024-01-15T10:30:00.000Z',
+      completedAt: '2024-01-15T10:40:00.000Z',
+      totalScenarios: results.length,
+      completed: results.filter(r => !r.error).length,
+      failed: results.filter(r => r.error).length,
+      duration: 600000,
+      results,
+    });
+    
+    const fast = [2000, 2050, 2100, 2020, 2080];
+    const slow = [2500, 2550, 2600, 2520, 2580];
+    const before = batchWith('batch-a', [
+      { scenario: scenario('home'), summary: summaryWith(fast) },
+      { scenario: scenario('shop'), summary: summaryWith(slow) },
+      { scenario: scenario('blog'), summary: summaryWith(fast) },
+      { scenario: scenario('legacy'), summary: summaryWith(fast) },
+    ]);
+    const after = batchWith('batch-b', [
+      { scenario: scenario('home'), summary: summaryWith(slow) },
+      { scenario: scenario('shop'), summary: summaryWith(fast) },
+      { scenario: scenario('blog'), error: 'Navigation timeout' },
+      { scenario: scenario('search'), summary: summaryWith(fast) },
+    ]);
+    
+    it('should load a batch by ID from the batch log', async () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue([
+        JSON.stringify({ type: 'batch', ...before }),
+        'not json',
+        JSON.stringify({ type: 'batch', ...after }),
+      ].join('\n'));
+      
+      const { listBatchIds, loadBatchResult } = await import('./results.js');
+      
+      expect(loadBatchResult('batch-b')?.results.map(r => r.scenario.id)).toEqual(['home', 'shop', 'blog', 'search']);
+      expect(loadBatchResult('missing')).toBeNull();
+      expect(listBatchIds()).toEqual(['batch-b', 'batch-a']);
+      expect(vi.mocked(readFileSync).mock.calls[0][0]).toBe('/mock/results/measurements.batch.jsonl');
+    });
+    
+    it('should match scenarios by id and count regressions', async () => {
+      const { compareBatches } = await import('./results.js');
+      
+      const comparison = compareBatches(before, after);
+      
+      expect(comparison.scenarios.map(s => [s.id, s.status, s.regressions])).toEqual([
+        ['home', 'compared', 1],
+        ['shop', 'compared', 0],
+        ['blog', 'failed', 1],
+        ['legacy', 'removed', 0],
+        ['search', 'added', 0],
+      ]);
+      expect(comparison.scenarios[2].afterError).toBe('Navigation timeout');
+      expect(comparison.regressions).toBe(2);
+    });
+    
+    it('should not count scenarios that already failed before as regressions', async () => {
+      const { compareBatches } = await import('./results.js');
+      
+      const failedBefore = batchWith('batch-a', [{ scenario: scenario('blog'), error: 'Too many invalid runs: 3/5', summary: summaryWith(fast) }]);
+      const failedAfter = batchWith('batch-b', [{ scenario: scenario('blog'), error: 'Navigation timeout' }]);
+      
+      expect(compareBatches(failedBefore, failedAfter).regressions).toBe(0);
+    });
+    
+    it('should print scenarios, changes and the regression count', async () => {
+      const { compareBatches, printBatchComparison } = await import('./results.js');
+      const logger = await import('./logger.js');
+      
+      printBatchComparison(compareBatches(before, after));
+      
+      const logLines = vi.mocked(logger.default.log).mock.calls.map(call => String(call[0]));
+      expect(logger.default.header).toHaveBeenCalledWith('BATCH COMPARISON');
+      expect(logLines.some(line => line.includes('home') && line.includes('1 regression'))).toBe(true);
+      expect(logLines.some(line => line.startsWith('    LCP (ms)') && line.includes('+500 (+24.4%)'))).toBe(true);
+      expect(logLines.some(line => line.includes('blog') && line.includes('after: Navigation timeout'))).toBe(true);
+      expect(logLines).toContain('  legacy');
+      expect(logLines.some(line => line.startsWith('  search'))).toBe(true);
+      expect(logLines).toContain('Regressions: 2 (2 scenarios compared)');
+    });
+  });
+
+  describe('saveExperimentResult', () => {
+    it('should append the experiment as one record', async () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      
+      const { saveExperimentResult } = await import('./results.js');
+      
+      saveExperimentResult({
+        experimentId: '2024-01-15T10-30-00',
+        startedAt: '2024-01-15T10:30:00.000Z',
+        completedAt: '2024-01-15T10:35:00.000Z',
+        url: 'https://example.com',
+        scenarioId: 'homepage',
+        baseline: 'off',
+        variants: [{ variant: 'off', resultDir: '/mock/results/2024-01-15T10-30-00' }],
+      });
+      
+      expect(appendFileSync).toHaveBeenCalledTimes(1);
+      const [path, line] = vi.mocked(appendFileSync).mock.calls[0];
+      expect(path).toBe('/mock/results/measurements.experiment.jsonl');
+      expect(JSON.parse(line as string)).toMatchObject({ type: 'experiment', scenarioId: 'homepage', baseline: 'off' });
+    });
+  });
+
+  describe('paired results', () => {
+    const stats = {} as PairedResult['a']['stats'];
+    const paired: PairedResult = {
+      type: 'paired',
+      timestamp: '2024-01-15T10-30-00',
+      device: { name: 'desktop', formFactor: 'desktop', viewport: { width: 1350, height: 940, deviceScaleFactor: 1 } } as any,
+      throttling: { name: 'default' } as any,
+      pairs: 5,
+      validPairs: 5,
+      a: { label: 'off', url: 'https://example.com', applyOverrides: false, variant: 'off', runResults: [], stats },
+      b: { label: 'flag-a', url: 'https://example.com', applyOverrides: false, variant: 'flag-a', runResults: [], stats },
+      deltas: [
+        { metric: 'LCP (ms)', key: 'lcp', a: 2500, b: 2000, meanDelta: -500, ciLow: -620, ciHigh: -380, percentChange: -20, verdict: 'improved' },
+        { metric: 'TBT (ms)', key: 'tbt', a: 150, b: 155, meanDelta: 5, ciLow: -20, ciHigh: 30, percentChange: 3.3, verdict: 'no-difference' },
+      ],
+      verdict: 'improved',
+    };
+    
+    it('should save paired.json in its own session directory', async () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      
+      const { savePairedResult } = await import('./results.js');
+      
+      const dir = savePairedResult(paired);
+      
+      expect(dir).toBe('/mock/results/2024-01-15T10-30-00--ab');
+      expect(writeFileSync).toHaveBeenCalledWith('/mock/results/2024-01-15T10-30-00--ab/paired.json', expect.any(String));
+      expect(vi.mocked(appendFileSync).mock.calls[0][0]).toBe('/mock/results/measurements.paired.jsonl');
+    });
+    
+    it('should show a paired result when compared on its own', async () => {
+      vi.mocked(existsSync).mockImplementation(path => (path as string).endsWith('paired.json'));
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(paired));
+      
+      const { compareResults } = await import('./results.js');
+      const logger = await import('./logger.js');
+      
+      compareResults('2024-01-15T10-30-00--ab');
+      
+      const logLines = vi.mocked(logger.default.log).mock.calls.map(call => call[0] as string);
+      expect(logger.default.header).toHaveBeenCalledWith('A/B COMPARISON (INTERLEAVED)');
+      expect(logLines.some(line => line.startsWith('  LCP (ms)') && line.includes('-500 (-20.0%)') && line.includes('[-620, -380]'))).toBe(true);
+      expect(logLines.some(line => line.startsWith('  TBT (ms)') && line.includes('no significant change'))).toBe(true);
+      expect(logLines.some(line => line.includes('Verdict:') && line.includes('improved'))).toBe(true);
+    });
+    
+    it('should turn a paired result into a comparison report', async () => {
+      vi.mocked(existsSync).mockImplementation(path => (path as string).endsWith('paired.json'));
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(paired));
+      
+      const { buildComparisonReport } = await import('./results.js');
+      
+      const report = buildComparisonReport('2024-01-15T10-30-00--ab');
+      
+      expect(report?.before).toMatchObject({ variant: 'off', runs: 5 });
+      expect(report?.after).toMatchObject({ variant: 'flag-a', runs: 5 });
+      expect(report?.comparisons).toEqual([
+        expect.objectContaining({ key: 'lcp', diff: -500, improved: true, significant: true }),
+        expect.objectContaining({ key: 'tbt', diff: 5, improved: false, significant: false }),
+      ]);
+    });
+    
+    it('should require a second result for regular summaries', async () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      
+      const { compareResults } = await import('./results.js');
+      const logger = await import('./logger.js');
+      
+      compareResults('2024-01-15T10-30-00');
+      
+      expect(logger.default.logError).toHaveBeenCalledWith('Compare requires two results, or one paired A/B result');
+    });
+  });
+});
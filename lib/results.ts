@@ -2,9 +2,38 @@
  * Results storage, retrieval, and comparison
  */
 
-import type { BatchResult, ComparisonResult, MeasurementResult, MeasurementSummary } from './types.js';
+import type {
+  AdaptiveRunsOutcome,
+  Aggregate,
+  AppliedThrottling,
+  BatchComparison,
+  BatchResult,
+  BatchScenarioComparison,
+  BatchScenarioStatus,
+  ComparisonReport,
+  ComparisonResult,
+  ComparisonSide,
+  DeviceProfile,
+  ExperimentResult,
+  LighthouseReport,
+  MeasurementResult,
+  MeasurementRun,
+  MeasurementStats,
+  MeasurementSummary,
+  MetricKey,
+  OutlierPolicy,
+  PairedResult,
+  RunRetryRecord,
+  SavedReport,
+  SignificanceConfig,
+} from './types.js';
 import { appendFileSync, existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
 import { dirname, join } from 'path';
+import { formatDevice, isSameDevice } from './devices.js';
+import { changeOutcome, formatChange, formatPValue, formatRelativeChange } from './formats.js';
+import { formatMetricValue, getMetricDefinition, getPresentMetrics } from './metrics.js';
+import { aggregateLabel, getHeadlineMetrics, mannWhitneyU } from './stats.js';
+import { formatThrottling, isSameThrottling } from './throttling.js';
 import { getJsonlLogPath, getResultsPath } from './settings.js';
 
 import { fileURLToPath } from 'url';
@@ -123,8 +152,30 @@ export interface SaveResultsOptions {
   minScore: number;
   maxScore: number;
   rawScores: number[];
+  /** Per-run metrics with timing */
+  runResults?: MeasurementRun[];
+  /** Per-metric statistics */
+  stats?: MeasurementStats;
+  /** Outlier policy used for stats and averages */
+  outlierPolicy?: OutlierPolicy;
+  /** How an adaptive run count ended (only for --runs auto) */
+  adaptive?: AdaptiveRunsOutcome;
+  /** Discarded warm-up runs (saved for transparency only) */
+  warmupResults?: MeasurementRun[];
+  /** Full Lighthouse reports, written as run-N.report.json/html */
+  reports?: LighthouseReport[];
+  /** Runs that were retried or abandoned */
+  retriedRuns?: RunRetryRecord[];
   /** Whether custom overrides were applied */
   overridesApplied: boolean;
+  /** Whether every run checked the overrides were in effect */
+  overridesVerified?: boolean;
+  /** Named override variant measured */
+  variant?: string;
+  /** Device profile used for the runs */
+  device?: DeviceProfile;
+  /** Effective throttling used for the runs */
+  throttling?: AppliedThrottling;
   note?: string;
   /** Tags for tag-specific logging */
   tags?: string[];
@@ -132,6 +183,19 @@ export interface SaveResultsOptions {
   scenarioId?: string;
 }
 
+/**
+ * Write full Lighthouse reports into a session directory
+ * @returns Saved file names, relative to the session directory
+ */
+function saveReports(sessionDir: string, reports: LighthouseReport[]): SavedReport[] {
+  return reports.map(({ run, json, html }) => {
+    const saved: SavedReport = { run, json: `run-${run}.report.json`, html: `run-${run}.report.html` };
+    writeFileSync(join(sessionDir, saved.json), json);
+    writeFileSync(join(sessionDir, saved.html), html);
+    return saved;
+  });
+}
+
 /**
  * Save measurement results to disk
  */
@@ -143,7 +207,18 @@ export function saveResults(options: SaveResultsOptions): string {
     minScore,
     maxScore,
     rawScores,
+    runResults,
+    stats,
+    outlierPolicy,
+    adaptive,
+    warmupResults,
+    reports,
+    retriedRuns,
     overridesApplied,
+    overridesVerified,
+    variant,
+    device,
+    throttling,
     note,
     tags,
     scenarioId,
@@ -161,11 +236,18 @@ export function saveResults(options: SaveResultsOptions): string {
   const sessionDir = join(resultsDir, dirName);
   mkdirSync(sessionDir, { recursive: true });
   
+  const savedReports = reports && reports.length > 0 ? saveReports(sessionDir, reports) : undefined;
+  const invalidRuns = runResults ? runResults.filter(r => r.error).length : 0;
+  
   const summary: MeasurementSummary = {
     url,
     runs,
     timestamp,
     overridesApplied,
+    ...(overridesVerified !== undefined && { overridesVerified }),
+    ...(variant && { variant }),
+    ...(device && { device }),
+    ...(throttling && { throttling }),
     ...(note && { note }),
     averages,
     range: {
@@ -173,6 +255,14 @@ export function saveResults(options: SaveResultsOptions): string {
       maxScore,
     },
     rawScores,
+    ...(runResults && { runResults }),
+    ...(invalidRuns > 0 && { invalidRuns }),
+    ...(retriedRuns && retriedRuns.length > 0 && { retriedRuns }),
+    ...(stats && { stats }),
+    ...(outlierPolicy && outlierPolicy !== 'none' && { outlierPolicy }),
+    ...(adaptive && { adaptive }),
+    ...(warmupResults && warmupResults.length > 0 && { warmupResults }),
+    ...(savedReports && { reports: savedReports }),
   };
   
   // Save JSON summary
@@ -187,6 +277,49 @@ export function saveResults(options: SaveResultsOptions): string {
   return sessionDir;
 }
 
+/**
+ * Save an interleaved A/B result as paired.json in its own session directory
+ * Also appended to the paired JSONL log (measurements.paired.jsonl)
+ */
+export function savePairedResult(result: PairedResult): string {
+  const resultsDir = ensureResultsDir();
+  const sessionDir = join(resultsDir, `${result.timestamp}--ab`);
+  mkdirSync(sessionDir, { recursive: true });
+  writeFileSync(join(sessionDir, 'paired.json'), JSON.stringify(result, null, 2));
+  
+  const pairedLogPath = getJsonlLogPath().replace('.jsonl', '.paired.jsonl');
+  appendFileSync(pairedLogPath, JSON.stringify({ ...result, loggedAt: new Date().toISOString() }) + '\n');
+  logger.log(logger.dim(`  → ${pairedLogPath}`));
+  
+  logger.logSuccess(`Results saved to: ${sessionDir}/`);
+  
+  return sessionDir;
+}
+
+/**
+ * Load a paired A/B result from a paired.json file or its directory
+ */
+export function loadPairedResult(pathOrTimestamp: string): PairedResult | null {
+  let pairedPath = pathOrTimestamp;
+  
+  if (!pathOrTimestamp.includes('/') && !pathOrTimestamp.includes('\\')) {
+    pairedPath = join(getResultsPath(), pathOrTimestamp, 'paired.json');
+  } else if (!pathOrTimestamp.endsWith('.json')) {
+    pairedPath = join(pathOrTimestamp, 'paired.json');
+  }
+  
+  try {
+    if (existsSync(pairedPath)) {
+      const result = JSON.parse(readFileSync(pairedPath, 'utf-8'));
+      return result.type === 'paired' ? result : null;
+    }
+  } catch {
+    // Ignore parse errors
+  }
+  
+  return null;
+}
+
 /**
  * Load a measurement summary from a file or directory
  */
@@ -203,7 +336,7 @@ export function loadSummary(pathOrTimestamp: string): MeasurementSummary | null
   
   try {
     if (existsSync(summaryPath)) {
-      return JSON.parse(readFileSync(summaryPath, 'utf-8'));
+      return normalizeSummary(JSON.parse(readFileSync(summaryPath, 'utf-8')));
     }
   } catch {
     // Ignore parse errors
@@ -212,6 +345,47 @@ export function loadSummary(pathOrTimestamp: string): MeasurementSummary | null
   return null;
 }
 
+/**
+ * Fill in score fields from per-run data when present
+ * Older summaries without runResults are returned unchanged
+ */
+function normalizeSummary(summary: MeasurementSummary): MeasurementSummary {
+  const runMetrics = getRunMetrics(summary);
+  if (!runMetrics) {
+    return summary;
+  }
+  
+  const scores = runMetrics.map(m => m.score);
+  return {
+    ...summary,
+    rawScores: scores,
+    range: {
+      minScore: Math.min(...scores),
+      maxScore: Math.max(...scores),
+    },
+  };
+}
+
+/**
+ * Get every valid run's metrics from a summary
+ * Returns null for older summaries that only stored rawScores
+ */
+export function getRunMetrics(summary: MeasurementSummary): MeasurementResult[] | null {
+  const validRuns = summary.runResults?.filter(r => !r.error);
+  if (!validRuns || validRuns.length === 0) {
+    return null;
+  }
+  return validRuns.map(r => r.metrics);
+}
+
+/**
+ * Format the min-max spread of a metric across runs (e.g., "1800-2400")
+ */
+function formatRunSpread(runMetrics: MeasurementResult[], metric: MetricKey): string {
+  const values = runMetrics.map(m => m[metric] ?? 0);
+  return `${formatMetricValue(metric, Math.min(...values))}-${formatMetricValue(metric, Math.max(...values))}`;
+}
+
 /**
  * List all saved results
  */
@@ -221,7 +395,7 @@ export function listResults(): void {
   const dirs = readdirSync(resultsDir)
     .filter(name => {
       const summaryPath = join(resultsDir, name, 'summary.json');
-      return existsSync(summaryPath);
+      return existsSync(summaryPath) || existsSync(join(resultsDir, name, 'paired.json'));
     })
     .sort()
     .reverse();
@@ -242,10 +416,28 @@ export function listResults(): void {
       const score = Math.round(summary.averages.score);
       const scoreColor = logger.scoreColor(score);
       
+      // Per-run spread is only available for summaries with runResults
+      const runMetrics = getRunMetrics(summary);
+      const spread = runMetrics
+        ? ` [score ${formatRunSpread(runMetrics, 'score')}, LCP ${formatRunSpread(runMetrics, 'lcp')}ms]`
+        : '';
+      const invalid = summary.invalidRuns ? logger.yellow(` (${summary.invalidRuns} invalid)`) : '';
+      const variant = summary.variant ? logger.cyan(` [${summary.variant}]`) : '';
+      
       if (summary.note) {
-        logger.log(`  ${logger.green(dir)} - Score: ${scoreColor} (${summary.runs} runs) - ${logger.magenta(`"${summary.note}"`)}`);
+        logger.log(`  ${logger.green(dir)}${variant} - Score: ${scoreColor} (${summary.runs} runs)${invalid}${logger.dim(spread)} - ${logger.magenta(`"${summary.note}"`)}`);
       } else {
-        logger.log(`  ${logger.green(dir)} - Score: ${scoreColor} (${summary.runs} runs) - ${summary.url}`);
+        logger.log(`  ${logger.green(dir)}${variant} - Score: ${scoreColor} (${summary.runs} runs)${invalid}${logger.dim(spread)} - ${summary.url}`);
+      }
+      
+      if (summary.reports && summary.reports.length > 0) {
+        const count = summary.reports.length;
+        logger.log(logger.dim(`      ${count} report${count > 1 ? 's' : ''}: ${join(resultsDir, dir, summary.reports[0].html)}${count > 1 ? ', ...' : ''}`));
+      }
+    } else {
+      const paired = loadPairedResult(dir);
+      if (paired) {
+        logger.log(`  ${logger.green(dir)} - A/B: ${paired.a.label} vs ${paired.b.label} (${paired.validPairs} pairs) - ${paired.verdict}`);
       }
     }
   }
@@ -274,14 +466,235 @@ export function showLastResult(): void {
     logger.log(logger.cyan(`Last Result: ${lastDir}`));
     logger.newline();
     logger.log(JSON.stringify(summary, null, 2));
+    
+    if (summary.reports && summary.reports.length > 0) {
+      logger.newline();
+      logger.log(logger.cyan('Lighthouse Reports:'));
+      for (const report of summary.reports) {
+        logger.log(`  Run ${report.run}: ${join(resultsDir, lastDir, report.html)}`);
+        logger.log(logger.dim(`         ${join(resultsDir, lastDir, report.json)}`));
+      }
+    }
+  }
+}
+
+/**
+ * Build per-metric comparisons between two sets of metrics
+ * Only metrics present on both sides are compared
+ */
+export function buildComparisons(before: MeasurementResult, after: MeasurementResult): ComparisonResult[] {
+  return getPresentMetrics(before, after).map(({ key, label, higherIsBetter }) => {
+    const diff = after[key]! - before[key]!;
+    return {
+      metric: label,
+      key,
+      before: before[key]!,
+      after: after[key]!,
+      diff,
+      // No relative change from a zero baseline (e.g., TBT or CLS of 0)
+      percentChange: before[key] === 0 ? null : (diff / before[key]!) * 100,
+      improved: higherIsBetter ? diff > 0 : diff < 0,
+    };
+  });
+}
+
+/**
+ * Defaults for telling real changes from run-to-run noise
+ */
+export const DEFAULT_SIGNIFICANCE: Required<SignificanceConfig> = {
+  alpha: 0.05,
+  minEffectPercent: 1,
+};
+
+/**
+ * Test each comparison for significance using every valid run of both sides
+ * A change counts only when p < alpha and it is at least the minimum effect size
+ * From a zero baseline, where there is no percentage, any change meets the minimum effect
+ */
+export function testSignificance(
+  comparisons: ComparisonResult[],
+  beforeRuns: MeasurementResult[],
+  afterRuns: MeasurementResult[],
+  config: SignificanceConfig = {}
+): ComparisonResult[] {
+  const { alpha, minEffectPercent } = { ...DEFAULT_SIGNIFICANCE, ...config };
+  return comparisons.map(comp => {
+    const values = (runs: MeasurementResult[]) => runs.map(r => r[comp.key]).filter((v): v is number => typeof v === 'number');
+    const { pValue } = mannWhitneyU(values(beforeRuns), values(afterRuns));
+    const largeEnough = comp.percentChange === null ? comp.diff !== 0 : Math.abs(comp.percentChange) >= minEffectPercent;
+    return { ...comp, pValue, significant: pValue < alpha && largeEnough };
+  });
+}
+
+/**
+ * Print a paired A/B result: per-metric deltas (B - A) with 95% confidence intervals
+ */
+export function printPairedComparison(result: PairedResult): void {
+  const verdictColor = (verdict: string) =>
+    verdict === 'improved' ? logger.green : verdict === 'regressed' ? logger.red : verdict === 'mixed' ? logger.yellow : logger.gray;
+  
+  logger.header('A/B COMPARISON (INTERLEAVED)');
+  logger.newline();
+  
+  for (const [side, target] of [['A', result.a], ['B', result.b]] as const) {
+    const url = target.label === target.url ? '' : logger.dim(` (${target.url})`);
+    logger.log(`  ${logger.yellow(`${side}:`)} ${target.label}${url}`);
+  }
+  logger.log(`  ${logger.yellow('Pairs:')} ${result.validPairs} valid of ${result.pairs}${result.note ? ` - "${result.note}"` : ''}`);
+  logger.newline();
+  
+  logger.log(`  ${logger.bold('Metric'.padEnd(24))} ${logger.bold('A'.padStart(9))} ${logger.bold('B'.padStart(9))} ${logger.bold('B - A'.padStart(18))} ${logger.bold('95% CI'.padStart(20))}  ${logger.bold('Verdict')}`);
+  logger.separator();
+  
+  for (const d of result.deltas) {
+    const change = formatChange(d.key, d.meanDelta, d.key === 'cls' ? null : d.percentChange);
+    const ci = `[${formatMetricValue(d.key, d.ciLow)}, ${formatMetricValue(d.key, d.ciHigh)}]`;
+    const verdict = d.verdict === 'no-difference' ? 'no significant change' : d.verdict;
+    logger.log(`  ${d.metric.padEnd(24)} ${formatMetricValue(d.key, d.a).padStart(9)} ${formatMetricValue(d.key, d.b).padStart(9)} ${change.padStart(18)} ${ci.padStart(20)}  ${verdictColor(d.verdict)(verdict)}`);
   }
+  
+  logger.newline();
+  const overall = result.verdict === 'no-difference' ? 'no significant difference' : result.verdict;
+  logger.log(`  ${logger.bold('Verdict:')} B vs A - ${verdictColor(result.verdict)(overall)}`);
+  logger.newline();
+}
+
+/**
+ * Compare the headline metrics of two summaries
+ * Significance needs every run of both sides; older summaries are compared by averages only
+ */
+function compareSummaries(
+  before: MeasurementSummary,
+  after: MeasurementSummary,
+  aggregate: Aggregate,
+  significance: SignificanceConfig
+): ComparisonResult[] {
+  const comparisons = buildComparisons(getHeadlineMetrics(before, aggregate), getHeadlineMetrics(after, aggregate));
+  const beforeRuns = getRunMetrics(before);
+  const afterRuns = getRunMetrics(after);
+  return beforeRuns && afterRuns
+    ? testSignificance(comparisons, beforeRuns, afterRuns, significance)
+    : comparisons;
 }
 
 /**
- * Compare two measurement sessions
+ * Describe a compared result for a report
  */
-export function compareResults(path1: string, path2: string): void {
+function describeComparisonSide(result: string, summary: MeasurementSummary): ComparisonSide {
+  return {
+    result,
+    timestamp: summary.timestamp,
+    url: summary.url,
+    runs: summary.runs,
+    ...(summary.note && { note: summary.note }),
+    ...(summary.variant && { variant: summary.variant }),
+  };
+}
+
+/**
+ * Build a comparison report for machine-readable output
+ * A paired A/B result can be given alone; its deltas become the comparisons (A before, B after)
+ * Logs an error and returns null when a result cannot be loaded
+ */
+export function buildComparisonReport(
+  path1: string,
+  path2?: string,
+  aggregate: Aggregate = 'mean',
+  significance: SignificanceConfig = {}
+): ComparisonReport | null {
   const summary1 = loadSummary(path1);
+  const paired = summary1 ? null : loadPairedResult(path1);
+  
+  if (paired) {
+    const side = (target: PairedResult['a']): ComparisonSide => ({
+      result: path1,
+      timestamp: paired.timestamp,
+      url: target.url,
+      runs: paired.validPairs,
+      ...(paired.note && { note: paired.note }),
+      ...(target.variant && { variant: target.variant }),
+    });
+    return {
+      before: side(paired.a),
+      after: side(paired.b),
+      aggregate: 'mean',
+      comparisons: paired.deltas.map(d => ({
+        metric: d.metric,
+        key: d.key,
+        before: d.a,
+        after: d.b,
+        diff: d.meanDelta,
+        percentChange: d.percentChange,
+        improved: getMetricDefinition(d.key).higherIsBetter ? d.meanDelta > 0 : d.meanDelta < 0,
+        // The confidence interval of the paired deltas decides instead of a p-value
+        significant: d.verdict !== 'no-difference',
+      })),
+      warnings: [],
+    };
+  }
+  
+  if (!path2) {
+    logger.logError('Compare requires two results, or one paired A/B result');
+    return null;
+  }
+  
+  const summary2 = loadSummary(path2);
+  
+  if (!summary1) {
+    logger.logError(`Could not load results from: ${path1}`);
+    return null;
+  }
+  
+  if (!summary2) {
+    logger.logError(`Could not load results from: ${path2}`);
+    return null;
+  }
+  
+  const warnings: string[] = [];
+  if (!isSameDevice(summary1.device, summary2.device)) {
+    warnings.push(`Different device profiles: ${formatDevice(summary1.device)} vs ${formatDevice(summary2.device)}`);
+  }
+  if (!isSameThrottling(summary1.throttling, summary2.throttling)) {
+    warnings.push(`Different throttling: ${formatThrottling(summary1.throttling)} vs ${formatThrottling(summary2.throttling)}`);
+  }
+  
+  const tested = Boolean(getRunMetrics(summary1) && getRunMetrics(summary2));
+  return {
+    before: describeComparisonSide(path1, summary1),
+    after: describeComparisonSide(path2, summary2),
+    aggregate,
+    comparisons: compareSummaries(summary1, summary2, aggregate, significance),
+    ...(tested && { significance: { ...DEFAULT_SIGNIFICANCE, ...significance } }),
+    warnings,
+  };
+}
+
+/**
+ * Compare two measurement sessions, or show a paired A/B result
+ * @param path2 - Omitted when path1 is a paired A/B result
+ * @param aggregate - Which aggregate to compare (default: mean)
+ * @param significance - When a difference counts as a real change
+ */
+export function compareResults(
+  path1: string,
+  path2?: string,
+  aggregate: Aggregate = 'mean',
+  significance: SignificanceConfig = {}
+): void {
+  const summary1 = loadSummary(path1);
+  
+  // A paired result already holds both sides, measured interleaved
+  const paired = summary1 ? null : loadPairedResult(path1);
+  if (paired) {
+    printPairedComparison(paired);
+    return;
+  }
+  
+  if (!path2) {
+    logger.logError('Compare requires two results, or one paired A/B result');
+    return;
+  }
+  
   const summary2 = loadSummary(path2);
   
   if (!summary1) {
@@ -301,82 +714,68 @@ export function compareResults(path1: string, path2: string): void {
   logger.log(`  ${logger.yellow('After:')}  ${summary2.timestamp}${summary2.note ? ` ("${summary2.note}")` : ''}`);
   logger.newline();
   
-  logger.log(`  ${logger.bold('Metric'.padEnd(30))} ${logger.bold('Before'.padStart(10))} ${logger.bold('After'.padStart(10))} ${logger.bold('Change'.padStart(15))}`);
-  logger.separator();
+  // Metrics from different device profiles are not comparable (different viewport, scoring curves)
+  if (!isSameDevice(summary1.device, summary2.device)) {
+    logger.logWarn('Results were measured with different device profiles:');
+    logger.log(`    Before: ${formatDevice(summary1.device)}`);
+    logger.log(`    After:  ${formatDevice(summary2.device)}`);
+    logger.newline();
+  }
   
-  const comparisons: ComparisonResult[] = [
-    {
-      metric: 'Performance Score',
-      before: summary1.averages.score,
-      after: summary2.averages.score,
-      diff: summary2.averages.score - summary1.averages.score,
-      percentChange: ((summary2.averages.score - summary1.averages.score) / summary1.averages.score) * 100,
-      improved: summary2.averages.score > summary1.averages.score,
-    },
-    {
-      metric: 'FCP (ms)',
-      before: summary1.averages.fcp,
-      after: summary2.averages.fcp,
-      diff: summary2.averages.fcp - summary1.averages.fcp,
-      percentChange: ((summary2.averages.fcp - summary1.averages.fcp) / summary1.averages.fcp) * 100,
-      improved: summary2.averages.fcp < summary1.averages.fcp,
-    },
-    {
-      metric: 'LCP (ms)',
-      before: summary1.averages.lcp,
-      after: summary2.averages.lcp,
-      diff: summary2.averages.lcp - summary1.averages.lcp,
-      percentChange: ((summary2.averages.lcp - summary1.averages.lcp) / summary1.averages.lcp) * 100,
-      improved: summary2.averages.lcp < summary1.averages.lcp,
-    },
-    {
-      metric: 'TBT (ms)',
-      before: summary1.averages.tbt,
-      after: summary2.averages.tbt,
-      diff: summary2.averages.tbt - summary1.averages.tbt,
-      percentChange: ((summary2.averages.tbt - summary1.averages.tbt) / summary1.averages.tbt) * 100,
-      improved: summary2.averages.tbt < summary1.averages.tbt,
-    },
-    {
-      metric: 'CLS',
-      before: summary1.averages.cls,
-      after: summary2.averages.cls,
-      diff: summary2.averages.cls - summary1.averages.cls,
-      percentChange: ((summary2.averages.cls - summary1.averages.cls) / summary1.averages.cls) * 100,
-      improved: summary2.averages.cls < summary1.averages.cls,
-    },
-    {
-      metric: 'Speed Index (ms)',
-      before: summary1.averages.si,
-      after: summary2.averages.si,
-      diff: summary2.averages.si - summary1.averages.si,
-      percentChange: ((summary2.averages.si - summary1.averages.si) / summary1.averages.si) * 100,
-      improved: summary2.averages.si < summary1.averages.si,
-    },
-  ];
+  if (!isSameThrottling(summary1.throttling, summary2.throttling)) {
+    logger.logWarn('Results were measured with different throttling:');
+    logger.log(`    Before: ${formatThrottling(summary1.throttling)}`);
+    logger.log(`    After:  ${formatThrottling(summary2.throttling)}`);
+    logger.newline();
+  }
+  
+  if (aggregate !== 'mean') {
+    logger.log(logger.dim(`  Comparing ${aggregateLabel(aggregate)} values`));
+    logger.newline();
+  }
+  
+  const runMetrics1 = getRunMetrics(summary1);
+  const runMetrics2 = getRunMetrics(summary2);
+  const comparisons = compareSummaries(summary1, summary2, aggregate, significance);
+  
+  logger.log(`  ${logger.bold('Metric'.padEnd(30))} ${logger.bold('Before'.padStart(10))} ${logger.bold('After'.padStart(10))} ${logger.bold('Change'.padStart(15))}${runMetrics1 && runMetrics2 ? ` ${logger.bold('p-value'.padStart(9))}` : ''}`);
+  logger.separator();
   
   for (const comp of comparisons) {
-    const changeColor = comp.improved ? logger.green : comp.diff === 0 ? logger.gray : logger.red;
-    const sign = comp.diff > 0 ? '+' : '';
+    // Without run data, fall back to coloring the raw direction
+    const changeColor = comp.significant === false || comp.diff === 0
+      ? logger.gray
+      : comp.improved ? logger.green : logger.red;
     
-    let beforeStr: string;
-    let afterStr: string;
-    let diffStr: string;
+    const beforeStr = formatMetricValue(comp.key, comp.before);
+    const afterStr = formatMetricValue(comp.key, comp.after);
+    const diffStr = formatChange(comp.key, comp.diff, comp.key === 'cls' ? null : comp.percentChange);
+    const significanceStr = comp.pValue === undefined
+      ? ''
+      : ` ${formatPValue(comp.pValue).padStart(9)}${comp.significant ? '' : logger.gray('  no significant change')}`;
     
-    if (comp.metric === 'CLS') {
-      beforeStr = comp.before.toFixed(3);
-      afterStr = comp.after.toFixed(3);
-      diffStr = `${sign}${comp.diff.toFixed(3)}`;
-    } else {
-      beforeStr = Math.round(comp.before).toString();
-      afterStr = Math.round(comp.after).toString();
-      diffStr = `${sign}${Math.round(comp.diff)} (${sign}${comp.percentChange.toFixed(1)}%)`;
-    }
-    
-    logger.log(`  ${comp.metric.padEnd(30)} ${beforeStr.padStart(10)} ${afterStr.padStart(10)} ${changeColor(diffStr.padStart(15))}`);
+    logger.log(`  ${comp.metric.padEnd(30)} ${beforeStr.padStart(10)} ${afterStr.padStart(10)} ${changeColor(diffStr.padStart(15))}${significanceStr}`);
   }
   
   logger.newline();
+  
+  if (runMetrics1 && runMetrics2) {
+    const { alpha, minEffectPercent } = { ...DEFAULT_SIGNIFICANCE, ...significance };
+    logger.log(logger.dim(`  Mann-Whitney U test over ${runMetrics1.length} vs ${runMetrics2.length} runs; changes count at p < ${alpha} and at least ${minEffectPercent}%`));
+    logger.newline();
+  }
+  
+  // Show how much each metric varied between runs, so small differences can be judged
+  if (runMetrics1 && runMetrics2) {
+    logger.log(`  ${logger.bold('Per-run range'.padEnd(30))} ${logger.bold('Before'.padStart(15))} ${logger.bold('After'.padStart(15))}`);
+    logger.separator();
+    
+    for (const { label, key } of getPresentMetrics(...runMetrics1, ...runMetrics2)) {
+      logger.log(`  ${label.padEnd(30)} ${formatRunSpread(runMetrics1, key).padStart(15)} ${formatRunSpread(runMetrics2, key).padStart(15)}`);
+    }
+    
+    logger.newline();
+  }
 }
 
 /**
@@ -425,6 +824,343 @@ export function saveBatchResult(batchResult: BatchResult): void {
   }
 }
 
+/**
+ * Load a batch from the batch JSONL log (measurements.batch.jsonl) by its batch ID
+ * The last entry wins if a batch was logged more than once
+ */
+export function loadBatchResult(batchId: string): BatchResult | null {
+  const batchLogPath = getJsonlLogPath().replace('.jsonl', '.batch.jsonl');
+  if (!existsSync(batchLogPath)) {
+    return null;
+  }
+  
+  let found: BatchResult | null = null;
+  for (const line of readFileSync(batchLogPath, 'utf-8').split('\n').filter(Boolean)) {
+    try {
+      const entry = JSON.parse(line);
+      if (entry.type === 'batch' && entry.batchId === batchId) {
+        found = entry;
+      }
+    } catch {
+      // Ignore malformed lines
+    }
+  }
+  
+  return found && {
+    ...found,
+    results: found.results.map(r => (r.summary ? { ...r, summary: normalizeSummary(r.summary) } : r)),
+  };
+}
+
+/**
+ * Most recent batch IDs from the batch JSONL log, newest first
+ */
+export function listBatchIds(limit = 10): string[] {
+  const batchLogPath = getJsonlLogPath().replace('.jsonl', '.batch.jsonl');
+  if (!existsSync(batchLogPath)) {
+    return [];
+  }
+  
+  const ids: string[] = [];
+  for (const line of readFileSync(batchLogPath, 'utf-8').split('\n').filter(Boolean)) {
+    try {
+      const entry = JSON.parse(line);
+      if (entry.type === 'batch' && !ids.includes(entry.batchId)) {
+        ids.push(entry.batchId);
+      }
+    } catch {
+      // Ignore malformed lines
+    }
+  }
+  
+  return ids.reverse().slice(0, limit);
+}
+
+/**
+ * Compare two batches scenario by scenario, matched by scenario id
+ * A metric regresses when it got significantly worse; a scenario that only failed in the after batch counts as one regression
+ */
+export function compareBatches(
+  before: BatchResult,
+  after: BatchResult,
+  aggregate: Aggregate = 'mean',
+  significance: SignificanceConfig = {}
+): BatchComparison {
+  const failure = (result: BatchResult['results'][number]) => result.error || (result.summary ? undefined : 'No results');
+  const afterById = new Map(after.results.map(r => [r.scenario.id, r]));
+  const beforeIds = new Set(before.results.map(r => r.scenario.id));
+  
+  const scenarios: BatchScenarioComparison[] = before.results.map(b => {
+    const a = afterById.get(b.scenario.id);
+    if (!a) {
+      return { id: b.scenario.id, status: 'removed', comparisons: [], regressions: 0 };
+    }
+    
+    const beforeError = failure(b);
+    const afterError = failure(a);
+    if (beforeError || afterError) {
+      return {
+        id: b.scenario.id,
+        status: 'failed',
+        ...(beforeError && { beforeError }),
+        ...(afterError && { afterError }),
+        comparisons: [],
+        regressions: afterError && !beforeError ? 1 : 0,
+      };
+    }
+    
+    const comparisons = compareSummaries(b.summary!, a.summary!, aggregate, significance);
+    return {
+      id: b.scenario.id,
+      status: 'compared',
+      comparisons,
+      regressions: comparisons.filter(c => changeOutcome(c) === 'regressed').length,
+    };
+  });
+  
+  for (const a of after.results) {
+    if (!beforeIds.has(a.scenario.id)) {
+      const afterError = failure(a);
+      scenarios.push({ id: a.scenario.id, status: 'added', ...(afterError && { afterError }), comparisons: [], regressions: 0 });
+    }
+  }
+  
+  return {
+    before: before.batchId,
+    after: after.batchId,
+    aggregate,
+    scenarios,
+    regressions: scenarios.reduce((sum, s) => sum + s.regressions, 0),
+  };
+}
+
+/**
+ * Print a batch comparison: metric changes per scenario, then added, removed and failed scenarios
+ */
+export function printBatchComparison(comparison: BatchComparison): void {
+  logger.header('BATCH COMPARISON');
+  logger.newline();
+  
+  logger.log(`  ${logger.yellow('Before:')} ${comparison.before}`);
+  logger.log(`  ${logger.yellow('After:')}  ${comparison.after}`);
+  logger.newline();
+  
+  if (comparison.aggregate !== 'mean') {
+    logger.log(logger.dim(`  Comparing ${aggregateLabel(comparison.aggregate)} values`));
+    logger.newline();
+  }
+  
+  for (const scenario of comparison.scenarios.filter(s => s.status === 'compared')) {
+    const status = scenario.regressions > 0
+      ? logger.red(`${scenario.regressions} regression${scenario.regressions === 1 ? '' : 's'}`)
+      : logger.green('no regressions');
+    logger.log(`  ${logger.bold(scenario.id)} ${logger.dim('-')} ${status}`);
+    
+    for (const comp of scenario.comparisons) {
+      const outcome = changeOutcome(comp);
+      const color = outcome === 'improved' ? logger.green : outcome === 'regressed' ? logger.red : logger.gray;
+      const diffStr = comp.diff === 0 ? '0' : formatChange(comp.key, comp.diff, comp.percentChange);
+      logger.log(`    ${comp.metric.padEnd(28)} ${formatMetricValue(comp.key, comp.before).padStart(10)} ${formatMetricValue(comp.key, comp.after).padStart(10)} ${color(diffStr.padStart(15))}`);
+    }
+    logger.newline();
+  }
+  
+  const listed = (status: BatchScenarioStatus) => comparison.scenarios.filter(s => s.status === status);
+  
+  if (listed('added').length > 0) {
+    logger.log(logger.yellow('Added (only in after batch):'));
+    for (const s of listed('added')) {
+      logger.log(`  ${s.id}${s.afterError ? logger.red(` - FAILED: ${s.afterError}`) : ''}`);
+    }
+    logger.newline();
+  }
+  
+  if (listed('removed').length > 0) {
+    logger.log(logger.yellow('Removed (only in before batch):'));
+    for (const s of listed('removed')) {
+      logger.log(`  ${s.id}`);
+    }
+    logger.newline();
+  }
+  
+  if (listed('failed').length > 0) {
+    logger.log(logger.yellow('Failed:'));
+    for (const s of listed('failed')) {
+      const sides = [
+        s.beforeError && `before: ${s.beforeError}`,
+        s.afterError && `after: ${s.afterError}`,
+      ].filter(Boolean).join('; ');
+      logger.log(`  ${s.id} ${logger.red(`- ${sides}`)}`);
+    }
+    logger.newline();
+  }
+  
+  const compared = listed('compared').length;
+  const regressionText = `Regressions: ${comparison.regressions} (${compared} scenario${compared === 1 ? '' : 's'} compared)`;
+  logger.log(comparison.regressions > 0 ? logger.red(regressionText) : logger.green(regressionText));
+  logger.newline();
+}
+
+/**
+ * Compare several measurement sessions side by side, one column per result
+ * Every column after the baseline shows its change against it; the best value per metric is marked
+ * @param baseline - Index of the baseline column (default: the first result)
+ * @param aggregate - Which aggregate to compare (default: mean)
+ * @param significance - When a difference counts as a real change
+ */
+export function compareMultiple(
+  paths: string[],
+  baseline = 0,
+  aggregate: Aggregate = 'mean',
+  significance: SignificanceConfig = {}
+): void {
+  const summaries: MeasurementSummary[] = [];
+  for (const path of paths) {
+    const summary = loadSummary(path);
+    if (!summary) {
+      logger.logError(`Could not load results from: ${path}`);
+      return;
+    }
+    summaries.push(summary);
+  }
+  
+  const base = summaries[baseline];
+  
+  logger.header('COMPARISON RESULTS');
+  logger.newline();
+  
+  summaries.forEach((summary, i) => {
+    const label = `#${i + 1}${i === baseline ? ' (baseline)' : ''}`;
+    logger.log(`  ${logger.yellow(label.padEnd(14))} ${summary.timestamp}${summary.note ? ` ("${summary.note}")` : ''}`);
+  });
+  logger.newline();
+  
+  // Each result is only comparable to the baseline when measured the same way
+  summaries.forEach((summary, i) => {
+    if (!isSameDevice(base.device, summary.device)) {
+      logger.logWarn(`#${i + 1} was measured with a different device profile: ${formatDevice(summary.device)}`);
+    }
+    if (!isSameThrottling(base.throttling, summary.throttling)) {
+      logger.logWarn(`#${i + 1} was measured with different throttling: ${formatThrottling(summary.throttling)}`);
+    }
+  });
+  
+  if (aggregate !== 'mean') {
+    logger.log(logger.dim(`  Comparing ${aggregateLabel(aggregate)} values`));
+    logger.newline();
+  }
+  
+  const headline = summaries.map(summary => getHeadlineMetrics(summary, aggregate));
+  const comparisons = summaries.map((summary, i) => (i === baseline ? [] : compareSummaries(base, summary, aggregate, significance)));
+  const columnWidth = 20;
+  
+  logger.log(`  ${logger.bold('Metric'.padEnd(30))} ${summaries.map((_, i) => logger.bold(`#${i + 1}`.padStart(columnWidth))).join(' ')}`);
+  logger.separator();
+  
+  // Rows follow the metrics every result has
+  for (const { key, label, higherIsBetter } of getPresentMetrics(...headline)) {
+    const values = headline.map(metrics => metrics[key]!);
+    const best = higherIsBetter ? Math.max(...values) : Math.min(...values);
+    
+    const cells = values.map((value, i) => {
+      // Ties share the mark, unless every result has the same value
+      const mark = value === best && values.some(v => v !== best) ? '*' : ' ';
+      if (i === baseline) {
+        const cell = `${formatMetricValue(key, value)}${mark}`.padStart(columnWidth);
+        return mark === '*' ? logger.bold(cell) : cell;
+      }
+      
+      const comp = comparisons[i].find(c => c.key === key);
+      if (!comp) return '-'.padStart(columnWidth);
+      const cell = `${formatMetricValue(key, value)} (${formatRelativeChange(key, comp.diff, comp.percentChange)})${mark}`.padStart(columnWidth);
+      const color = comp.significant === false || comp.diff === 0 ? logger.gray : comp.improved ? logger.green : logger.red;
+      return mark === '*' ? logger.bold(color(cell)) : color(cell);
+    });
+    logger.log(`  ${label.padEnd(30)} ${cells.join(' ')}`);
+  }
+  
+  logger.newline();
+  logger.log(logger.dim(`  * best value; changes are against #${baseline + 1}, gray when not significant`));
+  logger.newline();
+}
+
+/**
+ * Print every variant of an experiment side by side
+ * Each value after the first column shows its change against the baseline variant
+ * @param aggregate - Which aggregate to compare (default: mean)
+ * @param significance - When a change counts as real (default: p < 0.05 and at least 1%)
+ */
+export function printExperimentComparison(
+  experiment: ExperimentResult,
+  aggregate: Aggregate = 'mean',
+  significance: SignificanceConfig = {}
+): void {
+  const measured = experiment.variants.filter(v => v.summary);
+  const baseline = measured.find(v => v.variant === experiment.baseline);
+  
+  logger.header('VARIANT COMPARISON');
+  logger.newline();
+  
+  for (const v of experiment.variants) {
+    const label = v.variant === experiment.baseline ? `${v.variant} (baseline)` : v.variant;
+    const detail = v.error ? logger.red(`FAILED - ${v.error}`) : v.description || '';
+    logger.log(`  ${logger.yellow(label.padEnd(24))} ${detail}`);
+  }
+  logger.newline();
+  
+  if (!baseline || measured.length < 2) {
+    logger.logWarn('Not enough variants measured to compare.');
+    return;
+  }
+  
+  if (aggregate !== 'mean') {
+    logger.log(logger.dim(`  Comparing ${aggregateLabel(aggregate)} values`));
+    logger.newline();
+  }
+  
+  const others = measured.filter(v => v !== baseline);
+  const comparisons = others.map(v => compareSummaries(baseline.summary!, v.summary!, aggregate, significance));
+  
+  logger.log(`  ${logger.bold('Metric'.padEnd(30))} ${measured.map(v => logger.bold(v.variant.padStart(20))).join(' ')}`);
+  logger.separator();
+  
+  // Rows follow the metrics every variant has
+  for (const row of comparisons[0]) {
+    const cells = comparisons.map(comps => {
+      const comp = comps.find(c => c.key === row.key);
+      if (!comp) return '-'.padStart(20);
+      const outcome = changeOutcome(comp);
+      const color = outcome === 'improved' ? logger.green : outcome === 'regressed' ? logger.red : logger.gray;
+      return color(`${formatMetricValue(comp.key, comp.after)} (${formatRelativeChange(comp.key, comp.diff, comp.percentChange)})`.padStart(20));
+    });
+    logger.log(`  ${row.metric.padEnd(30)} ${formatMetricValue(row.key, row.before).padStart(20)} ${cells.join(' ')}`);
+  }
+  
+  logger.newline();
+  logger.log(logger.dim(`  Changes are against ${baseline.variant}, gray when not significant`));
+  logger.newline();
+}
+
+/**
+ * Save an experiment to the experiment JSONL log (measurements.experiment.jsonl)
+ */
+export function saveExperimentResult(experiment: ExperimentResult): void {
+  const jsonlPath = getJsonlLogPath();
+  const jsonlDir = dirname(jsonlPath);
+  
+  if (!existsSync(jsonlDir)) {
+    mkdirSync(jsonlDir, { recursive: true });
+  }
+  
+  const experimentLogPath = jsonlPath.replace('.jsonl', '.experiment.jsonl');
+  appendFileSync(experimentLogPath, JSON.stringify({
+    type: 'experiment',
+    loggedAt: new Date().toISOString(),
+    ...experiment,
+  }) + '\n');
+  logger.log(logger.dim(`  → ${experimentLogPath}`));
+}
+
 /**
  * List log files by tags and scenarios
  */
@@ -52,8 +52,9 @@ export function findSettingsPath(): string | null {
 
 /**
  * Load user settings from file
+ * @param quiet - Skip logging where settings were loaded from, e.g. when stdout is machine-readable output
  */
-export function loadSettings(): UserSettings {
+export function loadSettings(quiet = false): UserSettings {
   if (cachedSettings) {
     return cachedSettings;
   }
@@ -65,7 +66,9 @@ export function loadSettings(): UserSettings {
       const content = readFileSync(settingsPath, 'utf-8');
       const userSettings = JSON.parse(content) as Partial<UserSettings>;
       cachedSettings = { ...DEFAULT_SETTINGS, ...userSettings };
-      logger.log(logger.dim(`Loaded settings from ${settingsPath}`));
+      if (!quiet) {
+        logger.log(logger.dim(`Loaded settings from ${settingsPath}`));
+      }
     } catch (e) {
       logger.logWarn(`Could not parse settings file: ${settingsPath}`);
       cachedSettings = { ...DEFAULT_SETTINGS };
@@ -150,6 +153,14 @@ export function createDefaultSettings(path?: string): void {
   logger.log('  3. Or set WEBPERF_CONFIG_PATH environment variable');
 }
 
+/**
+ * Describe a throttling setting for display
+ */
+function formatThrottlingSetting(setting: UserSettings['defaultThrottling']): string {
+  if (!setting) return '(default)';
+  return typeof setting === 'string' ? setting : JSON.stringify(setting);
+}
+
 /**
  * Print current settings
  */
@@ -175,6 +186,18 @@ export function printSettings(): void {
   logger.log(`  ${logger.dim('jsonlLogPath:')}     ${getJsonlLogPath()}`);
   logger.log(`  ${logger.dim('autoOpenResults:')}  ${settings.autoOpenResults}`);
   logger.log(`  ${logger.dim('notePrefix:')}       ${settings.notePrefix || '(none)'}`);
+  logger.log(`  ${logger.dim('defaultThrottling:')} ${formatThrottlingSetting(settings.defaultThrottling)}`);
+  logger.log(`  ${logger.dim('defaultThrottlingMethod:')} ${settings.defaultThrottlingMethod || '(simulate)'}`);
+  logger.log(`  ${logger.dim('outlierPolicy:')}    ${settings.outlierPolicy || '(none)'}`);
+  logger.log(`  ${logger.dim('headlineAggregate:')} ${settings.headlineAggregate || '(mean)'}`);
+  logger.log(`  ${logger.dim('adaptiveRuns:')}     ${settings.adaptiveRuns ? JSON.stringify(settings.adaptiveRuns) : '(defaults)'}`);
+  logger.log(`  ${logger.dim('saveReports:')}      ${settings.saveReports || '(none)'}`);
+  logger.log(`  ${logger.dim('maxInvalidRunPercent:')} ${settings.maxInvalidRunPercent ?? '(50)'}`);
+  logger.log(`  ${logger.dim('retry:')}            ${settings.retry ? JSON.stringify(settings.retry) : '(defaults)'}`);
+  logger.log(`  ${logger.dim('significance:')}     ${settings.significance ? JSON.stringify(settings.significance) : '(defaults)'}`);
+  logger.log(`  ${logger.dim('assertions:')}       ${settings.assertions ? JSON.stringify(settings.assertions) : '(none)'}`);
+  logger.log(`  ${logger.dim('regressions:')}      ${settings.regressions ? JSON.stringify(settings.regressions) : '(defaults)'}`);
+  logger.log(`  ${logger.dim('trackedMetrics:')}   ${settings.trackedMetrics?.length ? settings.trackedMetrics.join(', ') : '(core only)'}`);
 }
 
 /**
@@ -0,0 +1,259 @@
+import {
+  aggregateLabel,
+  comparePairs,
+  computeStats,
+  confidenceInterval,
+  findMedianRun,
+  getHeadlineMetrics,
+  mean,
+  mannWhitneyU,
+  median,
+  normalCdf,
+  pairedVerdict,
+  percentile,
+  rejectOutliers,
+  relativePrecision,
+  selectAggregate,
+  stddev,
+  summarizeValues,
+  tCritical95,
+} from './stats.js';
+import { describe, expect, it } from 'vitest';
+
+import type { MeasurementSummary } from './types.js';
+
+describe('stats', () => {
+  describe('basic statistics', () => {
+    it('should calculate mean and median', () => {
+      expect(mean([1, 2, 3, 10])).toBe(4);
+      expect(median([1, 2, 3, 10])).toBe(2.5);
+      expect(median([5, 1, 3])).toBe(3);
+    });
+
+    it('should return 0 for empty input', () => {
+      expect(mean([])).toBe(0);
+      expect(percentile([], 90)).toBe(0);
+      expect(stddev([])).toBe(0);
+    });
+
+    it('should interpolate percentiles', () => {
+      const values = [10, 20, 30, 40, 50];
+      expect(percentile(values, 0)).toBe(10);
+      expect(percentile(values, 75)).toBe(40);
+      expect(percentile(values, 90)).toBe(46);
+      expect(percentile(values, 100)).toBe(50);
+    });
+
+    it('should calculate sample standard deviation', () => {
+      expect(stddev([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(2.138, 3);
+      expect(stddev([5])).toBe(0);
+    });
+  });
+
+  describe('confidence intervals', () => {
+    it('should look up t critical values', () => {
+      expect(tCritical95(1)).toBe(12.706);
+      expect(tCritical95(9)).toBe(2.262);
+      expect(tCritical95(100)).toBe(1.96);
+      expect(tCritical95(0)).toBe(Infinity);
+    });
+
+    it('should calculate the 95% confidence interval of the mean', () => {
+      const ci = confidenceInterval([90, 92, 88, 90]);
+      expect(ci.mean).toBe(90);
+      expect(ci.halfWidth).toBeCloseTo(2.598, 3);
+      expect(ci.low).toBeCloseTo(87.402, 3);
+      expect(ci.high).toBeCloseTo(92.598, 3);
+    });
+
+    it('should have an unbounded interval for a single value', () => {
+      expect(confidenceInterval([90]).halfWidth).toBe(Infinity);
+    });
+
+    it('should express precision as a percentage of the mean', () => {
+      expect(relativePrecision([90, 92, 88, 90])).toBeCloseTo(2.887, 3);
+      expect(relativePrecision([5, 5, 5])).toBe(0);
+      expect(relativePrecision([-1, 1])).toBe(Infinity);
+    });
+  });
+
+  describe('rejectOutliers', () => {
+    const values = [1000, 1020, 990, 1010, 3000];
+
+    it('should keep every value without a policy', () => {
+      expect(rejectOutliers(values)).toEqual(values);
+      expect(rejectOutliers(values, 'none')).toEqual(values);
+    });
+
+    it('should drop values outside the IQR fences', () => {
+      expect(rejectOutliers(values, 'iqr')).toEqual([1000, 1020, 990, 1010]);
+    });
+
+    it('should drop values far from the median with MAD', () => {
+      expect(rejectOutliers(values, 'mad')).toEqual([1000, 1020, 990, 1010]);
+    });
+
+    it('should not filter too few runs', () => {
+      expect(rejectOutliers([1000, 1010, 3000], 'iqr')).toEqual([1000, 1010, 3000]);
+    });
+
+    it('should keep identical runs with MAD', () => {
+      expect(rejectOutliers([5, 5, 5, 5, 6], 'mad')).toEqual([5, 5, 5, 5, 6]);
+    });
+  });
+
+  describe('summarizeValues', () => {
+    it('should summarise values and count outliers', () => {
+      const stats = summarizeValues([1000, 1020, 990, 1010, 3000], 'iqr');
+      expect(stats.n).toBe(4);
+      expect(stats.outliers).toBe(1);
+      expect(stats.mean).toBe(1005);
+      expect(stats.max).toBe(1020);
+      expect(stats.cv).toBeCloseTo((stats.stddev / stats.mean) * 100);
+    });
+
+    it('should report a CV of 0 when the mean is 0', () => {
+      expect(summarizeValues([0, 0, 0]).cv).toBe(0);
+    });
+  });
+
+  describe('computeStats and selectAggregate', () => {
+    const runs = [
+      { score: 80, fcp: 1000, lcp: 2000, tbt: 100, cls: 0.04, si: 1600 },
+      { score: 90, fcp: 1400, lcp: 2200, tbt: 200, cls: 0.06, si: 2000 },
+      { score: 85, fcp: 1200, lcp: 2600, tbt: 150, cls: 0.05, si: 1800 },
+    ];
+
+    it('should compute statistics per metric', () => {
+      const stats = computeStats(runs);
+      expect(stats.score.median).toBe(85);
+      expect(stats.lcp.max).toBe(2600);
+      expect(stats.tbt.mean).toBe(150);
+    });
+
+    it('should select one aggregate for every metric', () => {
+      const medians = selectAggregate(computeStats(runs), 'median');
+      expect(medians).toEqual({ score: 85, fcp: 1200, lcp: 2200, tbt: 150, cls: 0.05, si: 1800 });
+    });
+  });
+
+  describe('getHeadlineMetrics', () => {
+    const summary: MeasurementSummary = {
+      url: 'https://example.com',
+      runs: 3,
+      timestamp: '2024-01-15T10-30-00',
+      overridesApplied: false,
+      averages: { score: 85, fcp: 1200, lcp: 2266, tbt: 150, cls: 0.05, si: 1800 },
+      range: { minScore: 80, maxScore: 90 },
+      rawScores: [80, 90, 85],
+    };
+
+    it('should fall back to averages for older summaries', () => {
+      expect(getHeadlineMetrics(summary, 'median')).toBe(summary.averages);
+    });
+
+    it('should compute aggregates from per-run data without stored stats', () => {
+      const withRuns: MeasurementSummary = {
+        ...summary,
+        runResults: [
+          { run: 1, startedAt: '', duration: 0, metrics: { score: 80, fcp: 1000, lcp: 2000, tbt: 100, cls: 0.04, si: 1600 } },
+          { run: 2, startedAt: '', duration: 0, metrics: { score: 90, fcp: 1400, lcp: 2200, tbt: 200, cls: 0.06, si: 2000 } },
+          { run: 3, startedAt: '', duration: 0, metrics: { score: 85, fcp: 1200, lcp: 2600, tbt: 150, cls: 0.05, si: 1800 } },
+        ],
+      };
+      expect(getHeadlineMetrics(withRuns, 'median').lcp).toBe(2200);
+    });
+
+    it('should use stored stats when present', () => {
+      const withStats: MeasurementSummary = {
+        ...summary,
+        stats: computeStats([{ score: 70, fcp: 1, lcp: 1, tbt: 1, cls: 0, si: 1 }]),
+      };
+      expect(getHeadlineMetrics(withStats, 'p90').score).toBe(70);
+    });
+  });
+
+  describe('findMedianRun', () => {
+    const run = (score: number, lcp: number) => ({ score, fcp: 1000, lcp, tbt: 100, cls: 0, si: 1500 });
+
+    it('should pick the run closest to the median score', () => {
+      expect(findMedianRun([run(70, 3000), run(90, 2000), run(82, 2500)])).toBe(2);
+    });
+
+    it('should break score ties by LCP', () => {
+      expect(findMedianRun([run(85, 3000), run(85, 2500), run(85, 2000)])).toBe(1);
+    });
+  });
+
+  describe('aggregateLabel', () => {
+    it('should format aggregate names', () => {
+      expect(aggregateLabel('median')).toBe('Median');
+      expect(aggregateLabel('p75')).toBe('P75');
+    });
+  });
+
+  describe('comparePairs', () => {
+    const run = (score: number, lcp: number) => ({ score, fcp: 1000, lcp, tbt: 100, cls: 0.01, si: 1500 });
+
+    it('should report significant differences in the right direction', () => {
+      const deltas = comparePairs([
+        [run(80, 2500), run(85, 2000)],
+        [run(82, 2600), run(86, 2050)],
+        [run(79, 2550), run(84, 2020)],
+      ]);
+
+      const lcp = deltas.find(d => d.key === 'lcp')!;
+      expect(lcp.meanDelta).toBeCloseTo(-526.67, 1);
+      expect(lcp.ciHigh).toBeLessThan(0);
+      expect(lcp.verdict).toBe('improved');
+      expect(deltas.find(d => d.key === 'score')!.verdict).toBe('improved');
+      // Identical values in every pair
+      expect(deltas.find(d => d.key === 'fcp')!.verdict).toBe('no-difference');
+    });
+
+    it('should not call noisy differences significant', () => {
+      const deltas = comparePairs([
+        [run(80, 2500), run(85, 2000)],
+        [run(85, 2000), run(80, 2550)],
+      ]);
+
+      expect(deltas.find(d => d.key === 'score')!.verdict).toBe('no-difference');
+    });
+  });
+
+  describe('pairedVerdict', () => {
+    const delta = (verdict: 'improved' | 'regressed' | 'no-difference') => ({
+      metric: 'LCP (ms)', key: 'lcp' as const, a: 0, b: 0, meanDelta: 0, ciLow: 0, ciHigh: 0, percentChange: 0, verdict,
+    });
+
+    it('should combine metric verdicts', () => {
+      expect(pairedVerdict([delta('improved'), delta('no-difference')])).toBe('improved');
+      expect(pairedVerdict([delta('regressed')])).toBe('regressed');
+      expect(pairedVerdict([delta('improved'), delta('regressed')])).toBe('mixed');
+      expect(pairedVerdict([delta('no-difference')])).toBe('no-difference');
+    });
+  });
+
+  describe('mannWhitneyU', () => {
+    it('should approximate the normal distribution', () => {
+      expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+      expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+      expect(normalCdf(-1.96)).toBeCloseTo(0.025, 3);
+    });
+
+    it('should find a clear separation significant', () => {
+      const { u, pValue } = mannWhitneyU([1, 2, 3, 4, 5], [6, 7, 8, 9, 10]);
+      expect(u).toBe(0);
+      expect(pValue).toBeCloseTo(0.0122, 3);
+    });
+
+    it('should not find overlapping samples significant', () => {
+      expect(mannWhitneyU([80, 82, 84], [81, 83, 85]).pValue).toBeGreaterThan(0.5);
+    });
+
+    it('should handle identical values and empty samples', () => {
+      expect(mannWhitneyU([90, 90], [90, 90]).pValue).toBe(1);
+      expect(mannWhitneyU([], [1]).pValue).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Statistics for aggregating Lighthouse runs
+ * Robust aggregates (median, percentiles) and optional outlier rejection
+ */
+
+import type {
+  Aggregate,
+  MeasurementResult,
+  MeasurementStats,
+  MeasurementSummary,
+  MetricStats,
+  OutlierPolicy,
+  PairedMetricDelta,
+  PairedVerdict,
+} from './types.js';
+import { getPresentMetrics } from './metrics.js';
+
+export const AGGREGATES: Aggregate[] = ['mean', 'median', 'p75', 'p90', 'min', 'max'];
+
+export const OUTLIER_POLICIES: OutlierPolicy[] = ['none', 'iqr', 'mad'];
+
+/**
+ * Fewer runs than this are never filtered - there is not enough data to call a run an outlier
+ */
+const MIN_RUNS_FOR_OUTLIERS = 4;
+
+/**
+ * Scale factor making MAD a consistent estimator of the standard deviation
+ */
+const MAD_SCALE = 1.4826;
+
+/**
+ * Calculate average of an array of numbers
+ */
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Calculate a percentile (0-100) with linear interpolation between closest ranks
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Calculate the median (50th percentile)
+ */
+export function median(values: number[]): number {
+  return percentile(values, 50);
+}
+
+/**
+ * Sample standard deviation (n - 1)
+ */
+export function stddev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Two-sided 95% Student's t critical values by degrees of freedom (1-30)
+ */
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+/**
+ * Two-sided 95% t critical value (normal approximation above 30 degrees of freedom)
+ */
+export function tCritical95(degreesOfFreedom: number): number {
+  if (degreesOfFreedom < 1) return Infinity;
+  return T_95[degreesOfFreedom - 1] ?? 1.96;
+}
+
+/**
+ * 95% confidence interval of the mean
+ */
+export function confidenceInterval(values: number[]): { mean: number; low: number; high: number; halfWidth: number } {
+  const avg = mean(values);
+  const halfWidth = values.length < 2 ? Infinity : tCritical95(values.length - 1) * stddev(values) / Math.sqrt(values.length);
+  return { mean: avg, low: avg - halfWidth, high: avg + halfWidth, halfWidth };
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz-Stegun 7.1.26, error below 1e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided Mann-Whitney U test (normal approximation with tie and continuity correction)
+ * Makes no assumption about the shape of the run distributions; needs ~5 runs per side to ever reach p < 0.05
+ */
+export function mannWhitneyU(a: number[], b: number[]): { u: number; pValue: number } {
+  const n1 = a.length;
+  const n2 = b.length;
+  if (n1 === 0 || n2 === 0) return { u: 0, pValue: 1 };
+  
+  // Rank both samples together, averaging the ranks of ties
+  const all = [...a.map(value => ({ value, first: true })), ...b.map(value => ({ value, first: false }))]
+    .sort((x, y) => x.value - y.value);
+  const ranks: number[] = new Array(all.length);
+  let tieTerm = 0;
+  for (let i = 0; i < all.length;) {
+    let j = i;
+    while (j + 1 < all.length && all[j + 1].value === all[i].value) j++;
+    const count = j - i + 1;
+    for (let k = i; k <= j; k++) ranks[k] = (i + j) / 2 + 1;
+    tieTerm += count ** 3 - count;
+    i = j + 1;
+  }
+  
+  const rankSum = all.reduce((sum, item, i) => (item.first ? sum + ranks[i] : sum), 0);
+  const u = rankSum - (n1 * (n1 + 1)) / 2;
+  const n = n1 + n2;
+  const variance = (n1 * n2 / 12) * ((n + 1) - tieTerm / (n * (n - 1)));
+  if (variance <= 0) return { u, pValue: 1 };
+  
+  const z = (Math.abs(u - (n1 * n2) / 2) - 0.5) / Math.sqrt(variance);
+  return { u, pValue: Math.min(1, 2 * (1 - normalCdf(Math.max(0, z)))) };
+}
+
+/**
+ * 95% confidence interval half-width as a percentage of the mean
+ * Identical values are perfectly precise; a zero mean with spread never is
+ */
+export function relativePrecision(values: number[]): number {
+  const { mean: avg, halfWidth } = confidenceInterval(values);
+  if (halfWidth === 0) return 0;
+  if (avg === 0) return Infinity;
+  return (halfWidth / Math.abs(avg)) * 100;
+}
+
+/**
+ * Remove outliers according to the policy
+ * Never removes everything - if all values would be rejected, all are kept
+ */
+export function rejectOutliers(values: number[], policy: OutlierPolicy = 'none'): number[] {
+  if (policy === 'none' || values.length < MIN_RUNS_FOR_OUTLIERS) {
+    return values;
+  }
+
+  let kept: number[];
+  if (policy === 'iqr') {
+    const q1 = percentile(values, 25);
+    const q3 = percentile(values, 75);
+    const iqr = q3 - q1;
+    kept = values.filter(v => v >= q1 - 1.5 * iqr && v <= q3 + 1.5 * iqr);
+  } else {
+    const med = median(values);
+    const mad = median(values.map(v => Math.abs(v - med))) * MAD_SCALE;
+    // Identical runs (MAD of 0) leave nothing to compare against
+    if (mad === 0) return values;
+    kept = values.filter(v => Math.abs(v - med) <= 3 * mad);
+  }
+
+  return kept.length > 0 ? kept : values;
+}
+
+/**
+ * Summarise one metric's values across runs
+ */
+export function summarizeValues(values: number[], policy: OutlierPolicy = 'none'): MetricStats {
+  const kept = rejectOutliers(values, policy);
+  const avg = mean(kept);
+  const sd = stddev(kept);
+  return {
+    mean: avg,
+    median: median(kept),
+    p75: percentile(kept, 75),
+    p90: percentile(kept, 90),
+    min: kept.length > 0 ? Math.min(...kept) : 0,
+    max: kept.length > 0 ? Math.max(...kept) : 0,
+    stddev: sd,
+    cv: avg !== 0 ? (sd / avg) * 100 : 0,
+    n: kept.length,
+    outliers: values.length - kept.length,
+  };
+}
+
+/**
+ * Summarise every metric across runs
+ * Each metric is filtered independently - a run can be an outlier for TBT but not for LCP
+ */
+export function computeStats(runs: MeasurementResult[], policy: OutlierPolicy = 'none'): MeasurementStats {
+  const metricKeys = (runs.length > 0 ? Object.keys(runs[0]) : []) as Array<keyof MeasurementResult>;
+  const stats = {} as MeasurementStats;
+  for (const key of metricKeys) {
+    stats[key] = summarizeValues(runs.map(r => r[key] ?? 0), policy);
+  }
+  return stats;
+}
+
+/**
+ * Index of the run closest to the median - by score, then by LCP
+ */
+export function findMedianRun(runs: MeasurementResult[]): number {
+  const medianScore = median(runs.map(r => r.score));
+  const medianLcp = median(runs.map(r => r.lcp));
+  let best = 0;
+  for (let i = 1; i < runs.length; i++) {
+    const scoreDistance = Math.abs(runs[i].score - medianScore) - Math.abs(runs[best].score - medianScore);
+    const lcpDistance = Math.abs(runs[i].lcp - medianLcp) - Math.abs(runs[best].lcp - medianLcp);
+    if (scoreDistance < 0 || (scoreDistance === 0 && lcpDistance < 0)) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Pick one aggregate for every metric (e.g., the median of each metric)
+ */
+export function selectAggregate(stats: MeasurementStats, aggregate: Aggregate): MeasurementResult {
+  const result = {} as MeasurementResult;
+  for (const key of Object.keys(stats) as Array<keyof MeasurementResult>) {
+    result[key] = stats[key][aggregate];
+  }
+  return result;
+}
+
+/**
+ * Get the headline metrics of a summary for an aggregate
+ * Falls back to per-run data, then to averages, for older summaries without stats
+ */
+export function getHeadlineMetrics(summary: MeasurementSummary, aggregate: Aggregate = 'mean'): MeasurementResult {
+  if (summary.stats) {
+    return selectAggregate(summary.stats, aggregate);
+  }
+  const validRuns = summary.runResults?.filter(r => !r.error) || [];
+  if (aggregate !== 'mean' && validRuns.length > 0) {
+    return selectAggregate(computeStats(validRuns.map(r => r.metrics)), aggregate);
+  }
+  return summary.averages;
+}
+
+/**
+ * Display label for an aggregate (e.g., "Median", "P75")
+ */
+export function aggregateLabel(aggregate: Aggregate): string {
+  return aggregate.startsWith('p') ? aggregate.toUpperCase() : aggregate.charAt(0).toUpperCase() + aggregate.slice(1);
+}
+
+/**
+ * Per-metric differences (B - A) across paired runs
+ * Pairing cancels drift that affects both runs of a pair (thermal throttling, background load)
+ */
+export function comparePairs(pairs: Array<[MeasurementResult, MeasurementResult]>): PairedMetricDelta[] {
+  const present = getPresentMetrics(...pairs.flat());
+  return present.map(({ key, label, higherIsBetter }) => {
+    const deltas = pairs.map(([a, b]) => b[key]! - a[key]!);
+    const ci = confidenceInterval(deltas);
+    const aMean = mean(pairs.map(([a]) => a[key]!));
+    const significant = ci.low > 0 || ci.high < 0;
+    const better = higherIsBetter ? ci.mean > 0 : ci.mean < 0;
+    return {
+      metric: label,
+      key,
+      a: aMean,
+      b: mean(pairs.map(([, b]) => b[key]!)),
+      meanDelta: ci.mean,
+      ciLow: ci.low,
+      ciHigh: ci.high,
+      percentChange: aMean === 0 ? null : (ci.mean / aMean) * 100,
+      verdict: !significant ? 'no-difference' : better ? 'improved' : 'regressed',
+    };
+  });
+}
+
+/**
+ * Overall verdict for B against A from the per-metric verdicts
+ */
+export function pairedVerdict(deltas: PairedMetricDelta[]): PairedVerdict {
+  const improved = deltas.some(d => d.verdict === 'improved');
+  const regressed = deltas.some(d => d.verdict === 'regressed');
+  if (improved && regressed) return 'mixed';
+  if (improved) return 'improved';
+  if (regressed) return 'regressed';
+  return 'no-difference';
+}
@@ -0,0 +1,82 @@
+import {
+  DEFAULT_THROTTLING,
+  THROTTLING_PRESETS,
+  formatThrottling,
+  getLighthouseThrottling,
+  isSameThrottling,
+  resolveThrottling,
+} from './throttling.js';
+import { describe, expect, it } from 'vitest';
+
+describe('throttling', () => {
+  describe('resolveThrottling', () => {
+    it('should default to the default preset with simulate', () => {
+      const throttling = resolveThrottling();
+      expect(throttling.name).toBe(DEFAULT_THROTTLING);
+      expect(throttling.method).toBe('simulate');
+      expect(throttling.cpuSlowdownMultiplier).toBe(1);
+    });
+
+    it('should resolve named presets with the requested method', () => {
+      const throttling = resolveThrottling('slow-4g', 'devtools');
+      expect(throttling).toEqual({ ...THROTTLING_PRESETS['slow-4g'], method: 'devtools' });
+    });
+
+    it('should always use the provided method for the none preset', () => {
+      expect(resolveThrottling('none', 'simulate').method).toBe('provided');
+    });
+
+    it('should apply custom values on top of a preset', () => {
+      const throttling = resolveThrottling({ preset: 'cable', rttMs: 100, cpuSlowdownMultiplier: 2 });
+      expect(throttling.name).toBe('custom');
+      expect(throttling.rttMs).toBe(100);
+      expect(throttling.cpuSlowdownMultiplier).toBe(2);
+      expect(throttling.throughputKbps).toBe(THROTTLING_PRESETS.cable.throughputKbps);
+    });
+
+    it('should keep the preset name when no custom values are set', () => {
+      expect(resolveThrottling({ preset: 'fast-4g' }).name).toBe('fast-4g');
+    });
+
+    it('should keep explicit custom names', () => {
+      expect(resolveThrottling({ name: 'office-wifi', rttMs: 10 }).name).toBe('office-wifi');
+    });
+
+    it('should throw for unknown presets and methods', () => {
+      expect(() => resolveThrottling('5g')).toThrow('Unknown throttling preset: 5g');
+      expect(() => resolveThrottling('cable', 'magic' as any)).toThrow('Unknown throttling method: magic');
+    });
+  });
+
+  describe('getLighthouseThrottling', () => {
+    it('should pass simulate and devtools values', () => {
+      const flags = getLighthouseThrottling(resolveThrottling('slow-4g', 'devtools'));
+      expect(flags.throttlingMethod).toBe('devtools');
+      expect(flags.throttling.rttMs).toBe(150);
+      expect(flags.throttling.requestLatencyMs).toBe(562.5);
+      expect(flags.throttling.downloadThroughputKbps).toBeCloseTo(1474.56);
+      expect(flags.throttling.cpuSlowdownMultiplier).toBe(4);
+    });
+  });
+
+  describe('isSameThrottling', () => {
+    it('should treat missing throttling as the default preset', () => {
+      expect(isSameThrottling(undefined, resolveThrottling())).toBe(true);
+    });
+
+    it('should detect different methods and values', () => {
+      expect(isSameThrottling(resolveThrottling('slow-4g'), resolveThrottling('slow-4g', 'devtools'))).toBe(false);
+      expect(isSameThrottling(resolveThrottling('cable'), resolveThrottling('fast-4g'))).toBe(false);
+    });
+  });
+
+  describe('formatThrottling', () => {
+    it('should describe network and CPU values', () => {
+      expect(formatThrottling(resolveThrottling('slow-4g'))).toBe('slow-4g via simulate (150ms, 1.6Mbps, 4x CPU)');
+    });
+
+    it('should describe unthrottled runs', () => {
+      expect(formatThrottling(resolveThrottling('none'))).toBe('none via provided (no throttling)');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Network and CPU throttling presets
+ * Values follow Lighthouse's own throttling constants where one exists
+ */
+
+import type { AppliedThrottling, ThrottlingMethod, ThrottlingProfile, ThrottlingSetting } from './types.js';
+
+/**
+ * DevTools throttling is applied per request, so Lighthouse scales RTT/throughput
+ * to approximate the same connection as simulation
+ */
+const DEVTOOLS_RTT_ADJUSTMENT_FACTOR = 3.75;
+const DEVTOOLS_THROUGHPUT_ADJUSTMENT_FACTOR = 0.9;
+
+/**
+ * Default preset - matches how measurements were taken before presets existed
+ */
+export const DEFAULT_THROTTLING = 'default';
+
+export const DEFAULT_THROTTLING_METHOD: ThrottlingMethod = 'simulate';
+
+export const THROTTLING_METHODS: ThrottlingMethod[] = ['simulate', 'devtools', 'provided'];
+
+/**
+ * Built-in throttling presets
+ */
+export const THROTTLING_PRESETS: Record<string, ThrottlingProfile> = {
+  // Lighthouse's slow 4G network without CPU slowdown
+  default: {
+    name: 'default',
+    rttMs: 150,
+    throughputKbps: 1.6 * 1024,
+    uploadThroughputKbps: 750,
+    cpuSlowdownMultiplier: 1,
+  },
+  // No throttling at all (always measured with the "provided" method)
+  none: {
+    name: 'none',
+    rttMs: 0,
+    throughputKbps: 0,
+    uploadThroughputKbps: 0,
+    cpuSlowdownMultiplier: 1,
+  },
+  // WebPageTest's cable profile
+  cable: {
+    name: 'cable',
+    rttMs: 28,
+    throughputKbps: 5 * 1024,
+    uploadThroughputKbps: 1024,
+    cpuSlowdownMultiplier: 1,
+  },
+  // Lighthouse's desktop (dense 4G) profile
+  'fast-4g': {
+    name: 'fast-4g',
+    rttMs: 40,
+    throughputKbps: 10 * 1024,
+    uploadThroughputKbps: 10 * 1024,
+    cpuSlowdownMultiplier: 1,
+  },
+  // Lighthouse's mobile profile, including the mid-tier phone CPU slowdown
+  'slow-4g': {
+    name: 'slow-4g',
+    rttMs: 150,
+    throughputKbps: 1.6 * 1024,
+    uploadThroughputKbps: 750,
+    cpuSlowdownMultiplier: 4,
+  },
+};
+
+/**
+ * Resolve a throttling setting and method to the effective throttling
+ * @throws Error for unknown presets or methods
+ */
+export function resolveThrottling(setting?: ThrottlingSetting, method?: ThrottlingMethod): AppliedThrottling {
+  if (method && !THROTTLING_METHODS.includes(method)) {
+    throw new Error(`Unknown throttling method: ${method} (available: ${THROTTLING_METHODS.join(', ')})`);
+  }
+
+  const presetName = typeof setting === 'string' ? setting : setting?.preset || DEFAULT_THROTTLING;
+  const preset = THROTTLING_PRESETS[presetName];
+  if (!preset) {
+    throw new Error(`Unknown throttling preset: ${presetName} (available: ${Object.keys(THROTTLING_PRESETS).join(', ')})`);
+  }
+
+  let profile: ThrottlingProfile = preset;
+  if (setting && typeof setting === 'object') {
+    const { preset: _preset, name, ...values } = setting;
+    const hasOverrides = Object.values(values).some(v => v !== undefined);
+    profile = {
+      ...preset,
+      ...Object.fromEntries(Object.entries(values).filter(([, v]) => v !== undefined)),
+      name: name || (hasOverrides ? 'custom' : preset.name),
+    };
+  }
+
+  // Nothing to simulate or emulate without throttling values
+  const effectiveMethod = profile.name === 'none' ? 'provided' : method || DEFAULT_THROTTLING_METHOD;
+
+  return { ...profile, method: effectiveMethod };
+}
+
+/**
+ * Build the Lighthouse throttling flags for the effective throttling
+ */
+export function getLighthouseThrottling(throttling: AppliedThrottling): {
+  throttlingMethod: ThrottlingMethod;
+  throttling: {
+    rttMs: number;
+    throughputKbps: number;
+    requestLatencyMs: number;
+    downloadThroughputKbps: number;
+    uploadThroughputKbps: number;
+    cpuSlowdownMultiplier: number;
+  };
+} {
+  return {
+    throttlingMethod: throttling.method,
+    throttling: {
+      // Used by simulate
+      rttMs: throttling.rttMs,
+      throughputKbps: throttling.throughputKbps,
+      // Used by devtools
+      requestLatencyMs: throttling.rttMs * DEVTOOLS_RTT_ADJUSTMENT_FACTOR,
+      downloadThroughputKbps: throttling.throughputKbps * DEVTOOLS_THROUGHPUT_ADJUSTMENT_FACTOR,
+      uploadThroughputKbps: throttling.uploadThroughputKbps * DEVTOOLS_THROUGHPUT_ADJUSTMENT_FACTOR,
+      cpuSlowdownMultiplier: throttling.cpuSlowdownMultiplier,
+    },
+  };
+}
+
+/**
+ * Check whether two summaries were measured with the same throttling
+ * Older summaries without throttling were always measured with the default preset
+ */
+export function isSameThrottling(a?: AppliedThrottling, b?: AppliedThrottling): boolean {
+  const left = a || resolveThrottling();
+  const right = b || resolveThrottling();
+  return left.method === right.method
+    && left.rttMs === right.rttMs
+    && left.throughputKbps === right.throughputKbps
+    && left.uploadThroughputKbps === right.uploadThroughputKbps
+    && left.cpuSlowdownMultiplier === right.cpuSlowdownMultiplier;
+}
+
+/**
+ * Short human-readable description (e.g., "slow-4g via simulate (150ms, 1.6Mbps, 4x CPU)")
+ */
+export function formatThrottling(throttling?: AppliedThrottling): string {
+  const resolved = throttling || resolveThrottling();
+  if (resolved.method === 'provided') {
+    return `${resolved.name} via provided (no throttling)`;
+  }
+  const mbps = (resolved.throughputKbps / 1024).toFixed(1);
+  return `${resolved.name} via ${resolved.method} (${resolved.rttMs}ms, ${mbps}Mbps, ${resolved.cpuSlowdownMultiplier}x CPU)`;
+}
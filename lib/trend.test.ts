@@ -0,0 +1,131 @@
+import type { HistoryEntry } from './types.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { filterHistory, findSetupChanges, lineChart, printTrend, sparkline } from './trend.js';
+
+// Mock logger
+vi.mock('./logger.js', () => ({
+  default: {
+    log: vi.fn(),
+    logWarn: vi.fn(),
+    header: vi.fn(),
+    newline: vi.fn(),
+    bold: (s: string) => s,
+    cyan: (s: string) => s,
+    dim: (s: string) => s,
+    gray: (s: string) => s,
+    green: (s: string) => s,
+    magenta: (s: string) => s,
+    red: (s: string) => s,
+    yellow: (s: string) => s,
+  },
+}));
+
+describe('trend', () => {
+  const entryAt = (day: number, lcp: number, extra: Partial<HistoryEntry> = {}): HistoryEntry => ({
+    timestamp: `2024-01-${String(day).padStart(2, '0')}T10-30-00`,
+    url: 'https://example.com',
+    runs: 3,
+    metrics: { score: 90, fcp: 1200, lcp, tbt: 150, cls: 0.05, si: 1800 },
+    ...extra,
+  });
+
+  const history = [
+    entryAt(1, 2500, { note: 'main' }),
+    entryAt(2, 2600, { note: 'main' }),
+    entryAt(3, 2400, { note: 'release', loggedAt: '2024-01-03T10:31:00.000Z' }),
+    entryAt(4, 3000, { note: 'release', overridesApplied: true }),
+  ];
+
+  const logLines = async () => {
+    const logger = await import('./logger.js');
+    return vi.mocked(logger.default.log).mock.calls.map(call => String(call[0]));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('sparkline', () => {
+    it('should scale values between the lowest and highest block', () => {
+      expect(sparkline([0, 50, 100])).toBe('▁▅█');
+    });
+
+    it('should draw constant values as a flat line', () => {
+      expect(sparkline([5, 5, 5])).toBe('▄▄▄');
+    });
+  });
+
+  describe('lineChart', () => {
+    it('should put every value in its own column, top row first', () => {
+      expect(lineChart([0, 100, 50], 3)).toEqual([' ●', '  ●', '●']);
+    });
+
+    it('should join values with a step of 2', () => {
+      expect(lineChart([0, 100, 100], 4, 2)).toEqual([
+        '  ●─●',
+        ' │',
+        ' │',
+        '●',
+      ]);
+    });
+  });
+
+  describe('findSetupChanges', () => {
+    it('should find where the note, overrides or variant changed', () => {
+      const changes = findSetupChanges([...history, entryAt(5, 2900, { note: 'release', overridesApplied: true, variant: 'flag-a' })]);
+
+      expect([...changes]).toEqual([
+        [2, ['note "release"']],
+        [3, ['overrides on']],
+        [4, ['variant flag-a']],
+      ]);
+    });
+  });
+
+  describe('filterHistory', () => {
+    it('should keep entries since a date, by loggedAt or timestamp', () => {
+      expect(filterHistory(history, { since: new Date('2024-01-02T00:00:00Z') }).map(e => e.timestamp)).toEqual([
+        '2024-01-02T10-30-00',
+        '2024-01-03T10-30-00',
+        '2024-01-04T10-30-00',
+      ]);
+    });
+
+    it('should keep the last N entries after the date filter', () => {
+      expect(filterHistory(history, { since: new Date('2024-01-02T00:00:00Z'), last: 2 }).map(e => e.timestamp)).toEqual([
+        '2024-01-03T10-30-00',
+        '2024-01-04T10-30-00',
+      ]);
+    });
+  });
+
+  describe('printTrend', () => {
+    it('should print a sparkline per metric with setup changes marked', async () => {
+      printTrend('homepage', 'scenario', history, { width: 80 });
+
+      const lines = await logLines();
+      expect(lines).toContain('  LCP           ▂▃▁█  2500 ms → 3000 ms (+20.0%) min 2400 ms, max 3000 ms');
+      expect(lines).toContain('                  ^^');
+      expect(lines).toContain('    2024-01-03T10-30-00  note "release"');
+      expect(lines).toContain('    2024-01-04T10-30-00  overrides on');
+    });
+
+    it('should draw line charts for the chosen metrics only', async () => {
+      printTrend('homepage', 'scenario', history, { metrics: ['lcp'], width: 80 });
+
+      const lines = await logLines();
+      expect(lines).toContain('  LCP  2500 ms → 3000 ms (+20.0%) min 2400 ms, max 3000 ms');
+      expect(lines).toContain('         3000 ms ┤      ●');
+      expect(lines).toContain('         2400 ms ┤    ●');
+      expect(lines.some(line => line.startsWith('  Score'))).toBe(false);
+    });
+
+    it('should warn when the filters leave nothing', async () => {
+      const logger = await import('./logger.js');
+
+      printTrend('homepage', 'scenario', history, { since: new Date('2025-01-01T00:00:00Z') });
+
+      expect(logger.default.logWarn).toHaveBeenCalledWith('No measurements match the filters');
+    });
+  });
+});
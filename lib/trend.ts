@@ -0,0 +1,189 @@
+/**
+ * Terminal trend view (trend command)
+ * Sparklines and line charts of a scenario's, tag's or URL's history
+ */
+
+import type { Aggregate, HistoryEntry, HistorySource, MetricKey } from './types.js';
+import { formatMetricWithUnit, getMetricDefinition, getPresentMetrics } from './metrics.js';
+import { aggregateLabel } from './stats.js';
+import { getEntryTime } from './history.js';
+import logger from './logger.js';
+
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+
+/**
+ * Options for filtering and drawing a trend
+ */
+export interface TrendOptions {
+  /** Only entries measured at or after this time */
+  since?: Date;
+  /** Only the last N entries (after --since) */
+  last?: number;
+  /** Metrics to draw as line charts (default: a sparkline for every metric) */
+  metrics?: MetricKey[];
+  /** Which aggregate the entries show, for the header (default: mean) */
+  aggregate?: Aggregate;
+  /** Columns available for the chart (default: terminal width) */
+  width?: number;
+}
+
+/**
+ * Filter a history by --since and --last
+ */
+export function filterHistory(entries: HistoryEntry[], options: Pick<TrendOptions, 'since' | 'last'> = {}): HistoryEntry[] {
+  const since = options.since;
+  const filtered = since ? entries.filter(e => getEntryTime(e) >= since) : entries;
+  return options.last !== undefined && options.last > 0 ? filtered.slice(-options.last) : filtered;
+}
+
+/**
+ * One block character per value, scaled between the smallest and largest value
+ */
+export function sparkline(values: number[]): string {
+  const min = Math.min(...values);
+  const span = Math.max(...values) - min;
+  return values
+    .map(v => SPARK_CHARS[span === 0 ? 3 : Math.round(((v - min) / span) * (SPARK_CHARS.length - 1))])
+    .join('');
+}
+
+/**
+ * Rows of a line chart, top row first, without axis labels
+ * Each value is a ● every `step` columns; with a step of 2 or more, the column before it joins it to the previous value
+ */
+export function lineChart(values: number[], height = 8, step = 1): string[] {
+  const min = Math.min(...values);
+  const span = Math.max(...values) - min;
+  const rowOf = (v: number) => span === 0 ? Math.floor(height / 2) : Math.round(((v - min) / span) * (height - 1));
+
+  const grid = Array.from({ length: height }, () => Array<string>((values.length - 1) * step + 1).fill(' '));
+  values.forEach((value, i) => {
+    const row = rowOf(value);
+    const column = i * step;
+    if (i > 0 && step > 1) {
+      const prev = rowOf(values[i - 1]);
+      if (prev === row) {
+        grid[row][column - 1] = '─';
+      }
+      for (let r = Math.min(prev, row) + 1; r < Math.max(prev, row); r++) {
+        grid[r][column - 1] = '│';
+      }
+    }
+    grid[row][column] = '●';
+  });
+  return grid.reverse().map(row => row.join('').trimEnd());
+}
+
+/**
+ * Entries where the note, overrides or variant changed from the entry before
+ * @returns What changed, by entry index
+ */
+export function findSetupChanges(entries: HistoryEntry[]): Map<number, string[]> {
+  const changes = new Map<number, string[]>();
+  for (let i = 1; i < entries.length; i++) {
+    const prev = entries[i - 1];
+    const entry = entries[i];
+    const changed: string[] = [];
+    if ((entry.note || '') !== (prev.note || '')) {
+      changed.push(entry.note ? `note "${entry.note}"` : 'no note');
+    }
+    if (Boolean(entry.overridesApplied) !== Boolean(prev.overridesApplied)) {
+      changed.push(entry.overridesApplied ? 'overrides on' : 'overrides off');
+    }
+    if ((entry.variant || '') !== (prev.variant || '')) {
+      changed.push(entry.variant ? `variant ${entry.variant}` : 'no variant');
+    }
+    if (changed.length > 0) {
+      changes.set(i, changed);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Marker row: ^ under every entry where the setup changed
+ */
+function markerRow(length: number, changes: Map<number, string[]>, step = 1): string {
+  return Array.from({ length }, (_, i) => (changes.has(i) ? '^' : ' ').padEnd(step)).join('').trimEnd();
+}
+
+/**
+ * Print a history as sparklines, or as line charts for the chosen metrics
+ */
+export function printTrend(target: string, source: HistorySource, history: HistoryEntry[], options: TrendOptions = {}): void {
+  const aggregate = options.aggregate || 'mean';
+  let entries = filterHistory(history, options);
+
+  logger.header(`TREND: ${target}`);
+  logger.newline();
+
+  if (entries.length === 0) {
+    logger.logWarn(history.length === 0 ? `No measurements logged for ${target}` : 'No measurements match the filters');
+    return;
+  }
+
+  const labelWidth = 16;
+  const width = Math.max(10, (options.width || process.stdout.columns || 80) - labelWidth - 4);
+  if (entries.length > width) {
+    logger.log(logger.dim(`  Showing the last ${width} of ${entries.length} measurements (fit to the terminal)`));
+    entries = entries.slice(-width);
+  }
+
+  logger.log(`  ${logger.yellow('Source:')} ${source} log, ${entries.length} measurement${entries.length === 1 ? '' : 's'}`
+    + (aggregate !== 'mean' ? ` (${aggregateLabel(aggregate)} values)` : ''));
+  logger.log(`  ${logger.yellow('From:')}   ${entries[0].timestamp}`);
+  logger.log(`  ${logger.yellow('To:')}     ${entries[entries.length - 1].timestamp}`);
+  logger.newline();
+
+  const changes = findSetupChanges(entries);
+  const present = getPresentMetrics(...entries.map(e => e.metrics)).map(m => m.key);
+  const metrics = options.metrics ? options.metrics.filter(key => present.includes(key)) : present;
+  const markers = markerRow(entries.length, changes);
+  // Spread out short histories so line charts stay readable
+  const step = entries.length * 2 - 1 <= width ? 2 : 1;
+  const chartMarkers = markerRow(entries.length, changes, step);
+
+  for (const key of metrics) {
+    const definition = getMetricDefinition(key);
+    const values = entries.map(e => e.metrics[key]!);
+    const first = values[0];
+    const last = values[values.length - 1];
+    const change = first === 0 ? 0 : ((last - first) / first) * 100;
+    const better = definition.higherIsBetter ? change > 0 : change < 0;
+    const changeColor = Math.abs(change) < 0.05 ? logger.gray : better ? logger.green : logger.red;
+    const summary = `${formatMetricWithUnit(key, first)} → ${formatMetricWithUnit(key, last)} ${changeColor(`(${change > 0 ? '+' : ''}${change.toFixed(1)}%)`)}`
+      + logger.dim(` min ${formatMetricWithUnit(key, Math.min(...values))}, max ${formatMetricWithUnit(key, Math.max(...values))}`);
+
+    if (options.metrics) {
+      logger.log(`  ${logger.bold(definition.short)}  ${summary}`);
+      const rows = lineChart(values, 8, step);
+      const top = formatMetricWithUnit(key, Math.max(...values));
+      const bottom = formatMetricWithUnit(key, Math.min(...values));
+      rows.forEach((row, i) => {
+        const label = i === 0 ? top : i === rows.length - 1 ? bottom : '';
+        logger.log(`  ${label.padStart(labelWidth - 2)} ┤${row}`);
+      });
+      if (chartMarkers) {
+        logger.log(`  ${' '.repeat(labelWidth - 2)}  ${logger.magenta(chartMarkers)}`);
+      }
+      logger.newline();
+    } else {
+      logger.log(`  ${definition.short.padEnd(labelWidth - 2)}${logger.cyan(sparkline(values))}  ${summary}`);
+      if (markers) {
+        logger.log(`  ${' '.repeat(labelWidth - 2)}${logger.magenta(markers)}`);
+      }
+    }
+  }
+
+  if (options.metrics && metrics.length === 0) {
+    logger.logWarn(`None of ${options.metrics.join(', ')} was measured in this history`);
+  }
+
+  if (changes.size > 0) {
+    if (!options.metrics) logger.newline();
+    logger.log(logger.magenta('  ^ Setup changed:'));
+    for (const [index, changed] of changes) {
+      logger.log(`    ${entries[index].timestamp}  ${changed.join(', ')}`);
+    }
+  }
+}
@@ -183,6 +183,7 @@ describe('types', () => {
     it('should track before/after comparison', () => {
       const comparison: ComparisonResult = {
         metric: 'TBT (ms)',
+        key: 'tbt',
         before: 500,
         after: 300,
         diff: -200,
@@ -234,6 +235,27 @@ describe('types', () => {
       expect(scenario.enabled).toBe(false);
     });
 
+    it('should allow named or custom device profiles', () => {
+      const named: TestScenario = {
+        id: 'mobile-home',
+        note: 'Homepage on mobile',
+        url: 'https://example.com',
+        device: 'moto-g-power',
+      };
+      const custom: TestScenario = {
+        id: 'tablet-home',
+        note: 'Homepage on tablet',
+        url: 'https://example.com',
+        device: {
+          name: 'tablet',
+          formFactor: 'mobile',
+          viewport: { width: 820, height: 1180, deviceScaleFactor: 2, mobile: true },
+        },
+      };
+      expect(named.device).toBe('moto-g-power');
+      expect(typeof custom.device === 'object' && custom.device.viewport?.width).toBe(820);
+    });
+
     it('should allow empty tags array', () => {
       const scenario: TestScenario = {
         id: 'untagged',
@@ -30,6 +30,285 @@ export interface MeasurementResult {
   cls: number;
   /** Speed Index in ms */
   si: number;
+  /** Time to First Byte (server response time) in ms - optional, see trackedMetrics */
+  ttfb?: number;
+  /** Time to Interactive in ms - optional */
+  tti?: number;
+  /** Max Potential First Input Delay in ms - optional */
+  maxFid?: number;
+  /** Total byte weight in bytes - optional */
+  totalBytes?: number;
+  /** Number of network requests - optional */
+  requests?: number;
+  /** Number of DOM elements - optional */
+  domSize?: number;
+  /** Main-thread work time in ms - optional */
+  mainThreadWork?: number;
+}
+
+/**
+ * Metric key of a measurement
+ */
+export type MetricKey = keyof MeasurementResult;
+
+/**
+ * Metrics that are only captured when tracked (see trackedMetrics)
+ */
+export type ExtraMetric = 'ttfb' | 'tti' | 'maxFid' | 'totalBytes' | 'requests' | 'domSize' | 'mainThreadWork';
+
+/**
+ * How a metric is extracted from Lighthouse and displayed
+ */
+export interface MetricDefinition {
+  key: MetricKey;
+  /** Full name (e.g., "Largest Contentful Paint (LCP)") */
+  name: string;
+  /** Label with unit, used in comparisons (e.g., "LCP (ms)") */
+  label: string;
+  /** Abbreviation for narrow tables (e.g., "LCP") */
+  short: string;
+  /** Display unit ("KB" values are stored in bytes) */
+  unit: '/100' | 'ms' | 'KB' | '';
+  /** Lighthouse audit the value is read from */
+  audit?: string;
+  higherIsBetter: boolean;
+  /** Decimal places shown */
+  decimals: number;
+}
+
+/**
+ * Which runs' full Lighthouse reports are saved
+ * - none: no reports (default)
+ * - all: every measured run
+ * - median: only the run closest to the median
+ */
+export type ReportMode = 'none' | 'all' | 'median';
+
+/**
+ * What an HTML report of the report command covers
+ */
+export type ReportKind = 'session' | 'batch' | 'scenario';
+
+/**
+ * Full Lighthouse report of one run, as rendered by Lighthouse
+ */
+export interface LighthouseReport {
+  /** Run number (1-based) */
+  run: number;
+  /** Report JSON (the full lhr) */
+  json: string;
+  /** Rendered HTML report */
+  html: string;
+}
+
+/**
+ * Report files saved in a session directory
+ */
+export interface SavedReport {
+  /** Run number (1-based) */
+  run: number;
+  /** JSON report file name, relative to the session directory */
+  json: string;
+  /** HTML report file name, relative to the session directory */
+  html: string;
+}
+
+/**
+ * Outlier rejection applied before aggregating runs
+ * - none: use every run
+ * - iqr: drop values outside 1.5x the interquartile range
+ * - mad: drop values more than 3 scaled median absolute deviations from the median
+ */
+export type OutlierPolicy = 'none' | 'iqr' | 'mad';
+
+/**
+ * Aggregate used as the headline number for a metric
+ */
+export type Aggregate = 'mean' | 'median' | 'p75' | 'p90' | 'min' | 'max';
+
+/**
+ * Summary statistics for one metric across runs
+ */
+export interface MetricStats {
+  mean: number;
+  median: number;
+  p75: number;
+  p90: number;
+  min: number;
+  max: number;
+  /** Sample standard deviation */
+  stddev: number;
+  /** Coefficient of variation in percent (stddev / mean * 100) */
+  cv: number;
+  /** Number of runs aggregated (after outlier rejection) */
+  n: number;
+  /** Number of runs rejected as outliers */
+  outliers: number;
+}
+
+/**
+ * Statistics for every metric of a measurement session
+ */
+export type MeasurementStats = { [K in MetricKey]: MetricStats };
+
+/**
+ * Adaptive run count: keep running until results are stable
+ */
+export interface AdaptiveRunsConfig {
+  /** Runs before the first stability check (default: 3) */
+  minRuns?: number;
+  /** Upper bound on runs (default: 20) */
+  maxRuns?: number;
+  /** Target 95% confidence interval half-width, in percent of the mean (default: 3) */
+  targetCv?: number;
+  /** Metrics that must be stable (default: ["score"]) */
+  metrics?: Array<keyof MeasurementResult>;
+}
+
+/**
+ * Why an adaptive measurement stopped
+ */
+export interface AdaptiveRunsOutcome {
+  /** converged: every checked metric reached the target; max-runs: the cap was hit first */
+  stopReason: 'converged' | 'max-runs';
+  minRuns: number;
+  maxRuns: number;
+  targetCv: number;
+  /** 95% confidence interval half-width (percent of the mean) per checked metric when stopping */
+  precision: Partial<Record<keyof MeasurementResult, number>>;
+}
+
+/**
+ * Why a run was invalid
+ */
+export interface RunError {
+  /** Lighthouse runtime error code (e.g., NO_FCP), MISSING_AUDITS or HTTP_<status> */
+  code: string;
+  message: string;
+}
+
+/**
+ * Retry policy for runs that crash or hang
+ */
+export interface RetryConfig {
+  /** Extra attempts per run after a transient failure (default: 2) */
+  retries?: number;
+  /** Wait before the first retry in ms, doubled for each further retry (default: 2000) */
+  backoffMs?: number;
+  /** Per-run timeout in ms (default: 120000) */
+  runTimeoutMs?: number;
+}
+
+/**
+ * A run that needed more than one attempt
+ */
+export interface RunRetryRecord {
+  /** Run number (1-based) */
+  run: number;
+  /** Attempts made, including the first */
+  attempts: number;
+  /** Error of each failed attempt (e.g., RUN_TIMEOUT, BROWSER_DISCONNECTED) */
+  errors: RunError[];
+  /** Every attempt failed and the run was skipped */
+  abandoned: boolean;
+}
+
+/**
+ * A retried or abandoned run of a paired A/B measurement
+ */
+export interface PairedRunRetryRecord extends RunRetryRecord {
+  /** Side of the pair the run measured (run is the pair number) */
+  side: 'A' | 'B';
+}
+
+/**
+ * A single Lighthouse run within a measurement session
+ */
+export interface MeasurementRun {
+  /** Run number (1-based) */
+  run: number;
+  /** ISO timestamp when the run started */
+  startedAt: string;
+  /** Run duration in ms */
+  duration: number;
+  /** Metrics from this run */
+  metrics: MeasurementResult;
+  /** Set when the run was invalid - its metrics are excluded from every aggregate */
+  error?: RunError;
+}
+
+/**
+ * Viewport emulation for a device profile
+ */
+export interface DeviceViewport {
+  /** CSS pixel width */
+  width: number;
+  /** CSS pixel height */
+  height: number;
+  /** Device pixel ratio */
+  deviceScaleFactor: number;
+  /** Whether to emulate a mobile (touch, meta viewport) device */
+  mobile: boolean;
+}
+
+/**
+ * Device emulation profile used for a measurement
+ */
+export interface DeviceProfile {
+  /** Profile name recorded with results (e.g., "desktop", "moto-g-power") */
+  name: string;
+  /** Lighthouse form factor, affects scoring curves */
+  formFactor: 'mobile' | 'desktop';
+  /** Emulated viewport; omitted means the browser's native viewport (no emulation) */
+  viewport?: DeviceViewport;
+  /** Emulated user agent; omitted keeps Chrome's own user agent */
+  userAgent?: string;
+}
+
+/**
+ * Device selection: a named profile (e.g., "moto-g-power") or a custom profile
+ */
+export type DeviceSetting = string | (Omit<DeviceProfile, 'name'> & { name?: string });
+
+/**
+ * How Lighthouse applies throttling
+ * - simulate: load unthrottled, then simulate the network/CPU (Lighthouse default)
+ * - devtools: throttle the real page load via DevTools protocol
+ * - provided: no throttling, measure the connection/CPU as they are
+ */
+export type ThrottlingMethod = 'simulate' | 'devtools' | 'provided';
+
+/**
+ * Network and CPU throttling profile
+ */
+export interface ThrottlingProfile {
+  /** Preset name recorded with results (e.g., "slow-4g", "custom") */
+  name: string;
+  /** Round trip time in ms */
+  rttMs: number;
+  /** Download throughput in Kbps */
+  throughputKbps: number;
+  /** Upload throughput in Kbps */
+  uploadThroughputKbps: number;
+  /** CPU slowdown multiplier (1 = no slowdown) */
+  cpuSlowdownMultiplier: number;
+}
+
+/**
+ * Throttling selection: a preset name or custom values on top of a preset
+ */
+export type ThrottlingSetting = string | (Partial<Omit<ThrottlingProfile, 'name'>> & {
+  /** Name recorded with results (default: "custom") */
+  name?: string;
+  /** Preset to start from (default: "default") */
+  preset?: string;
+});
+
+/**
+ * Effective throttling used for a measurement
+ */
+export interface AppliedThrottling extends ThrottlingProfile {
+  method: ThrottlingMethod;
 }
 
 /**
@@ -42,6 +321,12 @@ export interface MeasurementSummary {
   timestamp: string;
   /** Whether custom overrides were applied before measurement */
   overridesApplied: boolean;
+  /** Whether every run checked the overrides were in effect (missing without overrides or in older summaries) */
+  overridesVerified?: boolean;
+  /** Device profile used (missing in older summaries, which were always desktop) */
+  device?: DeviceProfile;
+  /** Effective throttling (missing in older summaries) */
+  throttling?: AppliedThrottling;
   note?: string;
   /** Average metrics across all runs */
   averages: MeasurementResult;
@@ -50,6 +335,24 @@ export interface MeasurementSummary {
     maxScore: number;
   };
   rawScores: number[];
+  /** Every run's metrics (missing in older summaries, which only kept rawScores) */
+  runResults?: MeasurementRun[];
+  /** Per-metric statistics (missing in older summaries) */
+  stats?: MeasurementStats;
+  /** Outlier policy used for stats and averages */
+  outlierPolicy?: OutlierPolicy;
+  /** Adaptive run count outcome (only for --runs auto) */
+  adaptive?: AdaptiveRunsOutcome;
+  /** Discarded warm-up runs, kept for transparency but excluded from every aggregate */
+  warmupResults?: MeasurementRun[];
+  /** Full Lighthouse reports saved next to summary.json */
+  reports?: SavedReport[];
+  /** Number of invalid runs (listed with their error in runResults) */
+  invalidRuns?: number;
+  /** Runs that were retried or abandoned after crashes or timeouts */
+  retriedRuns?: RunRetryRecord[];
+  /** Named override variant measured (see WebperfConfig.variants) */
+  variant?: string;
 }
 
 /**
@@ -69,6 +372,58 @@ export interface ProcessInfo {
 export interface PageForOverrides {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   evaluate: <T>(fn: (...args: any[]) => T, ...args: any[]) => Promise<T>;
+  /** Run a script before any page script on every navigation (the way to seed storage) */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  evaluateOnNewDocument: (fn: string | ((...args: any[]) => unknown), ...args: any[]) => Promise<unknown>;
+  /** Set cookies before navigating */
+  setCookie: (...cookies: OverrideCookie[]) => Promise<void>;
+}
+
+/**
+ * Cookie seeded before every measured navigation
+ */
+export interface OverrideCookie {
+  name: string;
+  value: string;
+  /** Defaults to the measured URL */
+  url?: string;
+  domain?: string;
+  path?: string;
+}
+
+/**
+ * Declarative overrides installed on every measured page before Lighthouse navigates
+ * Storage is written by a script that runs before page scripts, so a storage reset cannot wipe it
+ */
+export interface PageOverrides {
+  /** JavaScript evaluated before any page script on every measured navigation */
+  script?: string;
+  /** localStorage entries written before page scripts run */
+  localStorage?: Record<string, string>;
+  /** sessionStorage entries written before page scripts run */
+  sessionStorage?: Record<string, string>;
+  /** Cookies set before every measured navigation */
+  cookies?: OverrideCookie[];
+  /**
+   * Optional check on the measured page after each run
+   * Returning false marks the run invalid (OVERRIDES_NOT_APPLIED)
+   */
+  verify?: (page: PageForOverrides) => Promise<boolean>;
+}
+
+/**
+ * A named set of overrides, e.g. one arm of a feature flag experiment
+ * A variant without overrides measures the page as-is (a control)
+ */
+export interface OverrideVariant {
+  /** Shown in the variant comparison */
+  description?: string;
+  /** Custom setup on the measured page, like WebperfConfig.applyOverrides */
+  applyOverrides?: (page: PageForOverrides) => Promise<void>;
+  /** Check that applyOverrides took effect, like WebperfConfig.verifyOverrides */
+  verifyOverrides?: (page: PageForOverrides) => Promise<boolean>;
+  /** Declarative overrides, like WebperfConfig.overrides */
+  overrides?: PageOverrides;
 }
 
 /**
@@ -87,11 +442,29 @@ export interface WebperfConfig {
   
   /**
    * Optional: Custom function to apply overrides before measurement
-   * This is called with a Puppeteer page after navigating to the URL
-   * Use this for any pre-measurement setup (e.g., feature flags, local overrides)
+   * This is called with the page Lighthouse will measure, before each run navigates to the URL
+   * Use page.evaluateOnNewDocument or page.setCookie so the overrides are active during the load
    */
   applyOverrides?: (page: PageForOverrides) => Promise<void>;
   
+  /**
+   * Optional: Check on the measured page after each run that applyOverrides took effect
+   * Returning false marks the run invalid (OVERRIDES_NOT_APPLIED)
+   * Without it, measurements with applyOverrides are saved as not verified (overridesVerified: false)
+   */
+  verifyOverrides?: (page: PageForOverrides) => Promise<boolean>;
+  
+  /**
+   * Optional: Declarative overrides (storage, cookies, scripts) installed on every measured page
+   */
+  overrides?: PageOverrides;
+  
+  /**
+   * Optional: Named override variants, selected with --variant or a scenario's variant
+   * Each replaces applyOverrides and overrides for its measurement
+   */
+  variants?: Record<string, OverrideVariant>;
+  
   /**
    * Optional: Returns a script string to print for manual override application
    * Users can copy-paste this into browser console
@@ -107,6 +480,26 @@ export interface MeasureOptions {
   runs: number;
   note?: string;
   applyOverrides: boolean;
+  /** Device profile name or custom profile (default: desktop) */
+  device?: DeviceSetting;
+  /** Throttling preset or custom values (default: "default") */
+  throttling?: ThrottlingSetting;
+  /** Throttling method (default: simulate) */
+  throttlingMethod?: ThrottlingMethod;
+  /** Outlier rejection before aggregating runs (default: none) */
+  outlierPolicy?: OutlierPolicy;
+  /** Run until results are stable instead of a fixed count (runs is ignored) */
+  adaptive?: AdaptiveRunsConfig;
+  /** Unrecorded Lighthouse passes before the measured runs (default: 0) */
+  warmupRuns?: number;
+  /** Extra metrics to capture (default: none) */
+  metrics?: ExtraMetric[];
+  /** Which runs' full Lighthouse reports to return for saving (default: none) */
+  saveReports?: ReportMode;
+  /** Per-run timeout and retries for crashed or hung runs */
+  retry?: RetryConfig;
+  /** Named variant from WebperfConfig.variants, measured instead of the top-level overrides */
+  variant?: string;
 }
 
 export interface ServicesOptions {
@@ -119,12 +512,62 @@ export interface ServicesOptions {
  * Comparison result between two measurement sessions
  */
 export interface ComparisonResult {
+  /** Display label (e.g., "LCP (ms)") */
   metric: string;
+  /** Metric key (e.g., "lcp") */
+  key: MetricKey;
   before: number;
   after: number;
   diff: number;
-  percentChange: number;
+  /** diff in percent of before; null from a before value of 0, where there is no relative change */
+  percentChange: number | null;
   improved: boolean;
+  /** Two-sided Mann-Whitney U p-value over the runs (only when both sides have per-run data) */
+  pValue?: number;
+  /** Whether the change is both statistically significant and at least the minimum effect size */
+  significant?: boolean;
+}
+
+/**
+ * Output format of the compare command
+ */
+export type CompareFormat = 'text' | 'json' | 'markdown' | 'csv';
+
+/**
+ * One side of a comparison report
+ */
+export interface ComparisonSide {
+  /** Result as given on the command line (path or timestamp) */
+  result: string;
+  timestamp: string;
+  url: string;
+  runs: number;
+  note?: string;
+  variant?: string;
+}
+
+/**
+ * A comparison of two results, for machine-readable compare output
+ */
+export interface ComparisonReport {
+  before: ComparisonSide;
+  after: ComparisonSide;
+  aggregate: Aggregate;
+  comparisons: ComparisonResult[];
+  /** Thresholds used, when significance was tested (both sides have per-run data) */
+  significance?: Required<SignificanceConfig>;
+  /** E.g., different device profiles or throttling */
+  warnings: string[];
+}
+
+/**
+ * When a difference between two results counts as a real change
+ */
+export interface SignificanceConfig {
+  /** Significance level for the p-value (default: 0.05) */
+  alpha?: number;
+  /** Smallest change in percent that counts, however significant (default: 1) */
+  minEffectPercent?: number;
 }
 
 /**
@@ -137,14 +580,61 @@ export interface TestScenario {
   note: string;
   /** URL to test */
   url: string;
-  /** Number of runs (overrides default) */
-  runs?: number;
+  /** Number of runs, or "auto" for an adaptive run count (overrides default) */
+  runs?: number | 'auto';
+  /** Discarded warm-up runs before the measured runs (overrides --warmup) */
+  warmupRuns?: number;
   /** Whether to apply custom overrides for this scenario */
   applyOverrides?: boolean;
+  /** Named override variant to measure (overrides --variant) */
+  variant?: string;
+  /** Variants measured by the experiment command (default: every variant in config) */
+  variants?: string[];
+  /** Device profile name or custom profile (overrides --device) */
+  device?: DeviceSetting;
+  /** Throttling preset or custom values (overrides --throttling and settings) */
+  throttling?: ThrottlingSetting;
+  /** Throttling method (overrides --throttling-method and settings) */
+  throttlingMethod?: ThrottlingMethod;
   /** Whether this scenario is enabled (default: true) */
   enabled?: boolean;
   /** Tags for categorizing and filtering scenarios */
   tags?: string[];
+  /** Thresholds checked after the scenario (merged over the assertions in settings) */
+  assertions?: AssertionConfig;
+}
+
+/**
+ * Thresholds for one metric, checked against the headline aggregate
+ */
+export interface MetricThreshold {
+  /** Fail below this value (e.g., score min 85) */
+  min?: number;
+  /** Fail above this value (e.g., lcp max 2500) */
+  max?: number;
+  /** Fail when significantly worse than the baseline by more than this percentage */
+  maxRegressionPercent?: number;
+}
+
+/**
+ * Performance thresholds for batch scenarios
+ * @example { "score": { "min": 85 }, "lcp": { "max": 2500 }, "maxRegressionPercent": 10 }
+ */
+export type AssertionConfig = Partial<Record<MetricKey, MetricThreshold>> & {
+  /** Default maxRegressionPercent for every metric without its own */
+  maxRegressionPercent?: number;
+};
+
+/**
+ * Outcome of one assertion
+ */
+export interface AssertionOutcome {
+  key: MetricKey;
+  /** Readable assertion, e.g. "score >= 85" or "lcp regression <= 10%" */
+  assertion: string;
+  /** Measured value, or regression in percent (in the metric's units from a baseline of 0; missing when the scenario or metric was not measured) */
+  actual?: number;
+  passed: boolean;
 }
 
 /**
@@ -176,7 +666,308 @@ export interface BatchResult {
     startedAt?: string;
     /** ISO timestamp when this scenario completed */
     completedAt?: string;
+    /** Invalid runs in this scenario (too many fail the scenario) */
+    invalidRuns?: number;
+    /** Assertion outcomes (only for scenarios with assertions) */
+    assertions?: AssertionOutcome[];
   }>;
+  /** Invalid runs across all scenarios */
+  invalidRuns?: number;
+  /** Failed assertions across all scenarios (only when any scenario has assertions) */
+  failedAssertions?: number;
+}
+
+/**
+ * A saved session in the results directory
+ */
+export interface SessionInfo {
+  /** Directory name, usable wherever a result is expected (e.g., compare) */
+  id: string;
+  type: 'summary' | 'paired';
+  timestamp: string;
+  url: string;
+  note?: string;
+  /** Runs, or valid pairs of a paired result */
+  runs: number;
+  /** Headline score (summaries only) */
+  score?: number;
+  variant?: string;
+}
+
+/**
+ * A measurement from a JSONL log with its headline metrics, e.g. a point in a scenario's history
+ */
+export interface HistoryEntry {
+  timestamp: string;
+  /** ISO timestamp when the measurement was logged */
+  loggedAt?: string;
+  url: string;
+  note?: string;
+  scenarioId?: string;
+  tags?: string[];
+  runs: number;
+  /** Whether custom overrides were applied */
+  overridesApplied?: boolean;
+  /** Named override variant measured */
+  variant?: string;
+  /** Headline metrics (the configured aggregate) */
+  metrics: MeasurementResult;
+}
+
+/**
+ * Where a history was read from
+ */
+export type HistorySource = 'scenario' | 'tag' | 'url';
+
+/**
+ * Output format of the query command
+ */
+export type QueryFormat = 'table' | 'json' | 'csv';
+
+/**
+ * A metric condition of a query, e.g. lcp>3000 (raw units: ms, bytes)
+ */
+export interface MetricPredicate {
+  key: MetricKey;
+  operator: '<' | '<=' | '>' | '>=' | '=' | '!=';
+  value: number;
+}
+
+/**
+ * Filters of the query command (every given filter must match)
+ */
+export interface QueryFilter {
+  /** Glob (https://example.com/*) or /regex/ matched against the whole URL */
+  url?: string;
+  /** Logged with every one of these tags */
+  tags?: string[];
+  scenarioId?: string;
+  /** Text the note contains (case-insensitive) */
+  note?: string;
+  since?: Date;
+  until?: Date;
+  overridesApplied?: boolean;
+  where?: MetricPredicate[];
+}
+
+/**
+ * How query results are ordered
+ */
+export interface QuerySort {
+  /** timestamp, url, runs or a metric key */
+  field: string;
+  descending: boolean;
+}
+
+/**
+ * A measurement found by the query command
+ */
+export interface QueryRecord extends HistoryEntry {
+  /** Result directory name, when its summary.json is still there */
+  result?: string;
+}
+
+/**
+ * When the regressions command counts a shift in a scenario's history as real
+ */
+export interface RegressionConfig {
+  /** Measurements compared on each side of a possible shift (default: 5) */
+  window?: number;
+  /** Significance level for the p-value (default: 0.05) */
+  alpha?: number;
+  /** Smallest shift in percent of the median before it, however significant (default: 5) */
+  minEffectPercent?: number;
+  /** Check the batch's scenarios for new shifts after every batch (default: false) */
+  afterBatch?: boolean;
+}
+
+/**
+ * A step change in one metric of a scenario's history
+ */
+export interface ChangePoint {
+  key: MetricKey;
+  /** Index of the first measurement after the shift */
+  index: number;
+  /** The measurement where the shift began */
+  entry: HistoryEntry;
+  /** Median of the window before the shift */
+  before: number;
+  /** Median of the window from the shift on */
+  after: number;
+  /** Change in percent of before; null from a median of 0, where there is no relative change */
+  percentChange: number | null;
+  pValue: number;
+  regressed: boolean;
+}
+
+/**
+ * Change points found in one scenario's history
+ */
+export interface ScenarioChangePoints {
+  scenarioId: string;
+  measurements: number;
+  changePoints: ChangePoint[];
+}
+
+/**
+ * A result registered as the reference for a scenario or URL
+ */
+export interface Baseline {
+  /** Result as given to baseline set (session timestamp or path) */
+  result: string;
+  /** Timestamp of the result's session */
+  timestamp: string;
+  url: string;
+  note?: string;
+  /** ISO timestamp when the baseline was set */
+  setAt: string;
+}
+
+/**
+ * Baselines by scenario ID or URL (baselines.json in the results directory)
+ */
+export type BaselineRegistry = Record<string, Baseline>;
+
+/**
+ * How a scenario compares between two batches
+ * - compared: measured successfully in both
+ * - added/removed: only in the after/before batch
+ * - failed: failed in at least one of them
+ */
+export type BatchScenarioStatus = 'compared' | 'added' | 'removed' | 'failed';
+
+/**
+ * One scenario of a batch comparison, matched by scenario id
+ */
+export interface BatchScenarioComparison {
+  id: string;
+  status: BatchScenarioStatus;
+  /** Failure in the before batch */
+  beforeError?: string;
+  /** Failure in the after batch */
+  afterError?: string;
+  /** Metric changes (only for compared scenarios) */
+  comparisons: ComparisonResult[];
+  /** Metrics that got significantly worse */
+  regressions: number;
+}
+
+/**
+ * Comparison of two batches (compare-batch)
+ */
+export interface BatchComparison {
+  /** Batch IDs */
+  before: string;
+  after: string;
+  aggregate: Aggregate;
+  /** Before batch order, then scenarios added in the after batch */
+  scenarios: BatchScenarioComparison[];
+  /** Regressed metrics plus scenarios that only failed in the after batch */
+  regressions: number;
+}
+
+/**
+ * One side of an interleaved A/B measurement
+ */
+export interface PairedTarget {
+  /** Shown in output, e.g. the URL or variant name */
+  label: string;
+  url: string;
+  /** Whether to install the config's top-level overrides */
+  applyOverrides: boolean;
+  /** Named variant from WebperfConfig.variants */
+  variant?: string;
+}
+
+/**
+ * Options for an interleaved A/B measurement (runs is the number of AB pairs)
+ */
+export interface PairedMeasureOptions extends Omit<MeasureOptions, 'url' | 'applyOverrides' | 'variant' | 'adaptive' | 'saveReports'> {
+  a: PairedTarget;
+  b: PairedTarget;
+}
+
+/**
+ * Per-metric difference (B - A) across valid pairs, with a 95% confidence interval
+ */
+export interface PairedMetricDelta {
+  metric: string;
+  key: MetricKey;
+  /** Mean of A's and B's values over the valid pairs */
+  a: number;
+  b: number;
+  meanDelta: number;
+  ciLow: number;
+  ciHigh: number;
+  /** meanDelta in percent of A's mean; null when A's mean is 0 */
+  percentChange: number | null;
+  /** Only improved or regressed when the confidence interval excludes zero */
+  verdict: 'improved' | 'regressed' | 'no-difference';
+}
+
+/**
+ * Overall A/B verdict for B against A
+ */
+export type PairedVerdict = 'improved' | 'regressed' | 'mixed' | 'no-difference';
+
+/**
+ * Runs of one side of a paired result
+ */
+export interface PairedSide extends PairedTarget {
+  /** Whether every run checked the side's overrides were in effect (missing without overrides) */
+  overridesVerified?: boolean;
+  /** Every run, including invalid ones (run numbers are pair numbers) */
+  runResults: MeasurementRun[];
+  /** Per-metric statistics over the side's valid runs */
+  stats: MeasurementStats;
+}
+
+/**
+ * Interleaved A/B measurement saved as paired.json
+ */
+export interface PairedResult {
+  type: 'paired';
+  timestamp: string;
+  note?: string;
+  device: DeviceProfile;
+  throttling: AppliedThrottling;
+  /** Pairs run, and pairs where both runs were valid (deltas use only those) */
+  pairs: number;
+  validPairs: number;
+  a: PairedSide;
+  b: PairedSide;
+  deltas: PairedMetricDelta[];
+  verdict: PairedVerdict;
+  /** Runs that were retried or abandoned, by pair number and side */
+  retriedRuns?: PairedRunRetryRecord[];
+}
+
+/**
+ * One variant's outcome in an experiment
+ */
+export interface ExperimentVariantResult {
+  variant: string;
+  description?: string;
+  summary?: MeasurementSummary;
+  /** Session directory with the variant's summary.json */
+  resultDir?: string;
+  error?: string;
+}
+
+/**
+ * Every variant of one page measured in a single experiment command
+ */
+export interface ExperimentResult {
+  /** Same format as batch IDs */
+  experimentId: string;
+  startedAt: string;
+  completedAt: string;
+  url: string;
+  /** Scenario the experiment was run for (missing for ad-hoc URLs) */
+  scenarioId?: string;
+  /** Variant the others are compared against (the first one measured) */
+  baseline: string;
+  variants: ExperimentVariantResult[];
 }
 
 /**
@@ -201,4 +992,28 @@ export interface UserSettings {
   scenarios?: TestScenario[];
   /** Max concurrent scenarios to run in parallel */
   maxConcurrency?: number;
+  /** Default throttling preset or custom values */
+  defaultThrottling?: ThrottlingSetting;
+  /** Default throttling method */
+  defaultThrottlingMethod?: ThrottlingMethod;
+  /** Outlier rejection before aggregating runs (default: none) */
+  outlierPolicy?: OutlierPolicy;
+  /** Aggregate shown as the headline number in results, comparisons and batch summaries (default: mean) */
+  headlineAggregate?: Aggregate;
+  /** Defaults for adaptive run counts (--runs auto) */
+  adaptiveRuns?: AdaptiveRunsConfig;
+  /** Extra metrics captured on top of score, FCP, LCP, TBT, CLS and SI, or "all" (default: none) */
+  trackedMetrics?: Array<ExtraMetric | 'all'>;
+  /** Save full Lighthouse JSON and HTML reports: none, all or median (default: none) */
+  saveReports?: ReportMode;
+  /** A batch scenario fails when more than this percentage of its runs are invalid (default: 50) */
+  maxInvalidRunPercent?: number;
+  /** Per-run timeout and retries for crashed or hung runs */
+  retry?: RetryConfig;
+  /** When compare treats a difference as a real change */
+  significance?: SignificanceConfig;
+  /** Default thresholds for every batch scenario */
+  assertions?: AssertionConfig;
+  /** When the regressions command counts a shift as real, and whether batch checks for new ones */
+  regressions?: RegressionConfig;
 }
@@ -0,0 +1,121 @@
+import type { MeasurementSummary } from './lib/types.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { tmpdir } from 'os';
+
+const WEBPERF_DIR = dirname(fileURLToPath(import.meta.url));
+const TSX = join(WEBPERF_DIR, 'node_modules', '.bin', 'tsx');
+
+describe('perf CLI', () => {
+  let home: string;
+
+  const summaryAt = (timestamp: string, lcp: number): MeasurementSummary => ({
+    url: 'https://example.com',
+    runs: 3,
+    timestamp,
+    overridesApplied: false,
+    averages: { score: 90, fcp: 1200, lcp, tbt: 150, cls: 0.05, si: 1800 },
+    range: { minScore: 90, maxScore: 90 },
+    rawScores: [90, 90, 90],
+  });
+
+  // Runs perf.ts with settings from a temporary home directory, returning stdout only
+  const perf = (...args: string[]) => execFileSync(TSX, [join(WEBPERF_DIR, 'perf.ts'), ...args], {
+    env: { ...process.env, HOME: home, USERPROFILE: home, WEBPERF_CONFIG_PATH: '' },
+    encoding: 'utf-8',
+  });
+
+  beforeAll(() => {
+    home = mkdtempSync(join(tmpdir(), 'webperf-cli-'));
+    const resultsPath = join(home, 'results');
+    writeFileSync(join(home, '.webperf-settings.json'), JSON.stringify({ resultsPath }));
+    for (const [timestamp, lcp] of [['2024-01-15T10-30-00', 2500], ['2024-01-15T11-00-00', 2300]] as const) {
+      mkdirSync(join(resultsPath, timestamp), { recursive: true });
+      writeFileSync(join(resultsPath, timestamp, 'summary.json'), JSON.stringify(summaryAt(timestamp, lcp)));
+    }
+  });
+
+  afterAll(() => {
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  describe('compare --format', () => {
+    it('should write nothing but the JSON report to stdout', () => {
+      const stdout = perf('compare', '2024-01-15T10-30-00', '2024-01-15T11-00-00', '--format', 'json');
+
+      expect(JSON.parse(stdout).before.timestamp).toBe('2024-01-15T10-30-00');
+    });
+
+    it('should write nothing but the CSV report to stdout', () => {
+      const stdout = perf('compare', '2024-01-15T10-30-00', '2024-01-15T11-00-00', '--format', 'csv');
+
+      expect(stdout.split('\n')[0]).toMatch(/^metric,/);
+    });
+
+    it('should write nothing but the Markdown report to stdout', () => {
+      const stdout = perf('compare', '2024-01-15T10-30-00', '2024-01-15T11-00-00', '--format', 'markdown');
+
+      expect(stdout.startsWith('#')).toBe(true);
+      expect(stdout).not.toContain('Loaded settings');
+    });
+  });
+
+  describe('custom throttling', () => {
+    it('should reject values that are not numbers of 0 or more before measuring', () => {
+      for (const [flag, value] of [['--rtt', 'fast'], ['--throughput', '-1'], ['--cpu', '']]) {
+        const failure = (() => {
+          try {
+            perf('measure', 'https://example.com', flag, value);
+          } catch (e) {
+            return e as { status: number; stdout: string };
+          }
+        })();
+
+        expect(failure?.status).toBe(1);
+        expect(failure?.stdout).toContain(`Invalid ${flag}: ${value}`);
+      }
+    });
+  });
+
+  describe('--throttling-method', () => {
+    it('should reject unknown methods and list the available ones', () => {
+      const failure = (() => {
+        try {
+          perf('measure', 'https://example.com', '--throttling-method', 'fast');
+        } catch (e) {
+          return e as { status: number; stdout: string };
+        }
+      })();
+
+      expect(failure?.status).toBe(1);
+      expect(failure?.stdout).toContain('Unknown throttling method: fast (available: simulate, devtools, provided)');
+      expect(failure?.stdout).not.toContain('Loaded settings');
+    });
+  });
+
+  describe('baseline', () => {
+    it('should not read flag values as the baseline key or result', () => {
+      const stdout = perf('baseline', 'set', '--note', 'x', 'https://example.com', '2024-01-15T10-30-00');
+
+      expect(stdout).toContain('Baseline for https://example.com: 2024-01-15T10-30-00');
+    });
+  });
+
+  describe('--adaptive-metrics', () => {
+    it('should reject unknown metrics and list the available ones', () => {
+      const failure = (() => {
+        try {
+          perf('measure', 'https://example.com', '--runs', 'auto', '--adaptive-metrics', 'score,fid');
+        } catch (e) {
+          return e as { status: number; stdout: string };
+        }
+      })();
+
+      expect(failure?.status).toBe(1);
+      expect(failure?.stdout).toMatch(/Unknown metric: fid \(available: score, fcp, lcp/);
+    });
+  });
+});
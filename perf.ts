@@ -3,19 +3,73 @@
  * Webperf CLI - Cross-platform web performance measurement tool
  * 
  * Usage:
- *   npx tsx perf.ts measure [url] [--runs N] [--note "text"]
+ *   npx tsx perf.ts measure [url] [--runs N|auto] [--warmup N] [--note "text"] [--device name]
  *   npx tsx perf.ts batch [--tag name]        # Run all scenarios from settings
+ *   npx tsx perf.ts experiment [scenario]     # Measure every override variant and compare
+ *   npx tsx perf.ts ab <a> <b> [url]          # Interleaved A/B runs with confidence intervals
  *   npx tsx perf.ts start                     # Start all services from config
  *   npx tsx perf.ts start-measure [--runs N]  # Start services + measure with overrides
  *   npx tsx perf.ts stop                      # Stop all services
  *   npx tsx perf.ts status                    # Check service status
  *   npx tsx perf.ts results                   # List saved results
- *   npx tsx perf.ts compare <file1> <file2>
+ *   npx tsx perf.ts compare <file1> <file2> [--format json|markdown|csv] [--output file]
+ *   npx tsx perf.ts compare <a> <b> <c> ... [--baseline n]  # Side by side
+ *   npx tsx perf.ts compare-batch <batchIdA> <batchIdB>      # Per-scenario changes, exits 1 on regressions
+ *   npx tsx perf.ts baseline set|list|clear   # Results that measure and batch compare against
+ *   npx tsx perf.ts hub [--port N]            # Local dashboard over the results directory
+ *   npx tsx perf.ts report [result|batch <id>|scenario <id>]  # Self-contained HTML report
+ *   npx tsx perf.ts trend <scenarioId|tag|url> [--since 7d] [--last N] [--metric lcp]  # History in the terminal
+ *   npx tsx perf.ts query [--url glob] [--where "lcp>3000"] [--sort lcp:desc] [--format csv]  # Find measurements
+ *   npx tsx perf.ts regressions [scenarioId...] [--since 30d] [--window N]  # Step changes in scenario histories
  */
 
-import type { BatchResult, MeasureOptions, MeasurementSummary, TestScenario, WebperfConfig } from './lib/types.js';
-import { compareResults, listLogFiles, listResults, saveResults, showLastResult } from './lib/results.js';
-import { createDefaultSettings, getConfigPath, loadSettings, printSettings } from './lib/settings.js';
+import type {
+  AdaptiveRunsConfig,
+  BatchResult,
+  CompareFormat,
+  ComparisonResult,
+  ExperimentResult,
+  ExtraMetric,
+  MeasureOptions,
+  MeasurementSummary,
+  MetricKey,
+  MetricPredicate,
+  PairedMeasureOptions,
+  PairedResult,
+  PairedTarget,
+  QueryFormat,
+  QuerySort,
+  RegressionConfig,
+  ReportKind,
+  ReportMode,
+  RetryConfig,
+  SignificanceConfig,
+  TestScenario,
+  ThrottlingMethod,
+  ThrottlingSetting,
+  UserSettings,
+  WebperfConfig,
+} from './lib/types.js';
+import {
+  buildComparisonReport,
+  compareBatches,
+  compareMultiple,
+  compareResults,
+  generateTimestamp,
+  listBatchIds,
+  listLogFiles,
+  listResults,
+  loadBatchResult,
+  loadSummary,
+  printBatchComparison,
+  printExperimentComparison,
+  printPairedComparison,
+  saveExperimentResult,
+  savePairedResult,
+  saveResults,
+  showLastResult,
+} from './lib/results.js';
+import { createDefaultSettings, getConfigPath, getResultsPath, loadSettings, printSettings } from './lib/settings.js';
 import {
   ensurePortsFree,
   printOverrides,
@@ -25,9 +79,36 @@ import {
   waitForPort,
   waitForServices,
 } from './lib/process-manager.js';
-import { printResults, runMeasurements } from './lib/lighthouse-runner.js';
+import { DEFAULT_DEVICE, DEVICE_PROFILES } from './lib/devices.js';
+import { EXTRA_METRICS, METRICS, resolveTrackedMetrics } from './lib/metrics.js';
+import { DEFAULT_THROTTLING, THROTTLING_METHODS, THROTTLING_PRESETS } from './lib/throttling.js';
+import { getHeadlineMetrics, selectAggregate } from './lib/stats.js';
+import { printResults, runMeasurements, runPairedMeasurements } from './lib/lighthouse-runner.js';
+import { hasOverrides, resolveVariant } from './lib/overrides.js';
+import { COMPARE_FORMATS, formatComparison, inferCompareFormat } from './lib/formats.js';
+import { clearBaseline, findBaseline, printBaselines, setBaseline } from './lib/baselines.js';
+import { evaluateAssertions, printAssertionResults, resolveAssertions } from './lib/assertions.js';
+import { formatJUnitReport } from './lib/junit.js';
+import { DEFAULT_HUB_PORT, startHub } from './lib/hub.js';
+import { getDefaultReportPath, openInBrowser, renderBatchReport, renderScenarioReport, renderSessionReport, writeReport } from './lib/report.js';
+import { findHistory, listSessions, loadScenarioHistory, loadUrlHistory, parseSince } from './lib/history.js';
+import { printTrend } from './lib/trend.js';
+import { findRegressions, printRegressions } from './lib/regressions.js';
+import {
+  QUERY_FORMATS,
+  filterRecords,
+  formatQueryCsv,
+  formatQueryJson,
+  inferQueryFormat,
+  loadQueryRecords,
+  parseMetricPredicate,
+  parseQuerySort,
+  printQueryTable,
+  sortRecords,
+} from './lib/query.js';
 
-import { existsSync } from 'fs';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { basename, dirname, relative, resolve } from 'path';
 import logger from './lib/logger.js';
 
 /**
@@ -39,8 +120,10 @@ import logger from './lib/logger.js';
  * 3. Default minimal config (measure-only mode, no services)
  * 
  * This design ensures sensitive project data is NEVER stored in this repo.
+ * 
+ * @param quiet - Skip informational logs, e.g. when stdout is machine-readable output
  */
-async function loadConfig(): Promise<WebperfConfig> {
+async function loadConfig(quiet = false): Promise<WebperfConfig> {
   const settings = loadSettings();
   
   // Check environment variable first
@@ -71,7 +154,7 @@ async function loadConfig(): Promise<WebperfConfig> {
     
     try {
       const externalConfig = await import(externalConfigPath);
-      logger.log(logger.dim(`Config loaded from: ${externalConfigPath}`));
+      if (!quiet) logger.log(logger.dim(`Config loaded from: ${externalConfigPath}`));
       return { 
         ...defaultConfig, 
         ...externalConfig.default,
@@ -86,11 +169,38 @@ async function loadConfig(): Promise<WebperfConfig> {
   }
   
   // No external config - measure-only mode
-  logger.log(logger.dim('No external config - running in measure-only mode'));
-  logger.log(logger.dim('  To use services, set WEBPERF_CONFIG_PATH or configPath in settings.json'));
+  if (!quiet) {
+    logger.log(logger.dim('No external config - running in measure-only mode'));
+    logger.log(logger.dim('  To use services, set WEBPERF_CONFIG_PATH or configPath in settings.json'));
+  }
   return defaultConfig;
 }
 
+/**
+ * Parse a custom throttling value (--rtt, --throughput, --cpu), exiting unless it is a number of 0 or more
+ */
+function parseThrottlingValue(flag: string, value: string | undefined): number {
+  const number = Number(value);
+  if (value === undefined || value.trim() === '' || !Number.isFinite(number) || number < 0) {
+    logger.logError(`Invalid ${flag}: ${value} (expected a number of 0 or more)`);
+    process.exit(1);
+  }
+  return number;
+}
+
+/**
+ * Parse a comma-separated list of metric keys (--metric, --adaptive-metrics), exiting on an unknown one
+ */
+function parseMetricKeys(value: string): MetricKey[] {
+  return value.split(',').map(m => m.trim()).map(key => {
+    if (!METRICS.some(m => m.key === key)) {
+      logger.logError(`Unknown metric: ${key} (available: ${METRICS.map(m => m.key).join(', ')})`);
+      process.exit(1);
+    }
+    return key as MetricKey;
+  });
+}
+
 /**
  * Parse CLI arguments
  */
@@ -99,30 +209,201 @@ function parseArgs(): {
   url?: string;
   runs: number;
   note?: string;
-  file1?: string;
-  file2?: string;
+  /** Results (or batch IDs) to compare, or the baseline subcommand and its arguments */
+  files: string[];
+  /** Baseline column of an N-way compare: a 1-based position or one of the compared results */
+  baseline?: string;
   settingsPath?: string;
   tags: string[];
   concurrency?: number;
   scenarioId?: string;
+  device?: string;
+  throttling?: ThrottlingSetting;
+  throttlingMethod?: ThrottlingMethod;
+  /** Set by --runs auto, with any --min-runs/--max-runs/--target-cv/--adaptive-metrics values */
+  adaptive?: AdaptiveRunsConfig;
+  warmupRuns?: number;
+  /** Extra metrics from --metrics (e.g., ttfb,tti or all) */
+  metrics?: Array<ExtraMetric | 'all'>;
+  saveReports?: ReportMode;
+  /** From --retries and --run-timeout */
+  retry?: RetryConfig;
+  /** Named override variant from config */
+  variant?: string;
+  /** Variants for the experiment command (e.g., off,flag-a) */
+  variants?: string[];
+  /** The two ab targets */
+  targets: string[];
+  /** Smallest change in percent that compare counts as real */
+  minEffectPercent?: number;
+  /** Output format for compare */
+  format?: CompareFormat;
+  /** File to write compare output to */
+  output?: string;
+  /** File to write a batch's JUnit XML report to */
+  junit?: string;
+  /** Port for the hub */
+  port?: number;
+  /** Only history measured since then (trend) */
+  since?: Date;
+  /** Only the last N measurements (trend) */
+  last?: number;
+  /** Metrics to chart (trend) */
+  metric?: MetricKey[];
+  /** URL glob or /regex/ (query) */
+  urlPattern?: string;
+  /** Only measurements until then (query) */
+  until?: Date;
+  /** Only measurements with (true) or without (false) overrides (query) */
+  overrides?: boolean;
+  /** Metric conditions (query) */
+  where?: MetricPredicate[];
+  sort?: QuerySort;
+  /** Maximum number of query results */
+  limit?: number;
+  /** Output format for query */
+  queryFormat?: QueryFormat;
+  /** Measurements compared on each side of a possible shift (regressions) */
+  window?: number;
+  /** Check the batch's scenarios for new shifts */
+  regressions?: boolean;
 } {
   const args = process.argv.slice(2);
-  const settings = loadSettings();
   const result: ReturnType<typeof parseArgs> = {
     command: args[0] || 'help',
-    runs: settings.defaultRuns || 5,
+    // Set from settings after parsing, unless given
+    runs: 0,
     tags: [],
+    targets: [],
+    files: [],
   };
   
   // Get command
   const command = args[0];
   
+  // Throttling preset plus optional custom values on top of it
+  let throttlingPreset: string | undefined;
+  const customThrottling: { rttMs?: number; throughputKbps?: number; cpuSlowdownMultiplier?: number } = {};
+  
+  // Adaptive run count settings (only used with --runs auto)
+  let autoRuns = false;
+  const adaptiveOverrides: AdaptiveRunsConfig = {};
+  
   // Parse remaining args
   for (let i = 1; i < args.length; i++) {
     const arg = args[i];
     
     if (arg === '--runs' || arg === '-r') {
-      result.runs = parseInt(args[++i], 10) || 5;
+      const value = args[++i];
+      if (value === 'auto') {
+        autoRuns = true;
+      } else {
+        result.runs = parseInt(value, 10) || 5;
+      }
+    } else if (arg === '--warmup' || arg === '--warmup-runs') {
+      result.warmupRuns = parseInt(args[++i], 10) || 0;
+    } else if (arg === '--save-reports') {
+      // Optional value: --save-reports [all|median|none]
+      const value = args[i + 1];
+      if (value === 'all' || value === 'median' || value === 'none') {
+        result.saveReports = value;
+        i++;
+      } else {
+        result.saveReports = 'all';
+      }
+    } else if (arg === '--retries') {
+      result.retry = { ...result.retry, retries: parseInt(args[++i], 10) || 0 };
+    } else if (arg === '--run-timeout') {
+      // Seconds on the command line, ms in the options
+      const seconds = parseFloat(args[++i]);
+      if (seconds > 0) result.retry = { ...result.retry, runTimeoutMs: seconds * 1000 };
+    } else if (arg === '--variant') {
+      result.variant = args[++i];
+    } else if (arg === '--variants') {
+      result.variants = args[++i].split(',').map(v => v.trim()).filter(Boolean);
+    } else if (arg === '--min-effect') {
+      // Accepts "2" or "2%"
+      result.minEffectPercent = parseFloat(args[++i]);
+    } else if ((arg === '--format' || arg === '-f') && command === 'query') {
+      const value = args[++i];
+      if (!QUERY_FORMATS.includes(value as QueryFormat)) {
+        logger.logError(`Unknown format: ${value} (expected ${QUERY_FORMATS.join(', ')})`);
+        process.exit(1);
+      }
+      result.queryFormat = value as QueryFormat;
+    } else if (arg === '--format' || arg === '-f') {
+      const value = args[++i];
+      if (!COMPARE_FORMATS.includes(value as CompareFormat)) {
+        logger.logError(`Unknown format: ${value} (expected ${COMPARE_FORMATS.join(', ')})`);
+        process.exit(1);
+      }
+      result.format = value as CompareFormat;
+    } else if (arg === '--output' || arg === '-o') {
+      result.output = args[++i];
+    } else if (arg === '--since') {
+      const value = args[++i];
+      const since = parseSince(value);
+      if (!since) {
+        logger.logError(`Invalid --since: ${value} (expected a date like 2024-01-15 or an age like 7d, 12h)`);
+        process.exit(1);
+      }
+      result.since = since;
+    } else if (arg === '--until') {
+      const value = args[++i];
+      const until = parseSince(value);
+      if (!until) {
+        logger.logError(`Invalid --until: ${value} (expected a date like 2024-01-15 or an age like 7d, 12h)`);
+        process.exit(1);
+      }
+      // A bare date includes that whole day
+      result.until = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(until.getTime() + 24 * 60 * 60 * 1000 - 1) : until;
+    } else if (arg === '--url') {
+      result.urlPattern = args[++i];
+    } else if (arg === '--overrides') {
+      result.overrides = true;
+    } else if (arg === '--no-overrides') {
+      result.overrides = false;
+    } else if (arg === '--where' || arg === '--sort') {
+      // Can be specified multiple times: --where "lcp>3000" --where "score<50"
+      const value = args[++i];
+      try {
+        if (arg === '--where') {
+          result.where = [...(result.where || []), parseMetricPredicate(value)];
+        } else {
+          result.sort = parseQuerySort(value);
+        }
+      } catch (e) {
+        logger.logError((e as Error).message);
+        process.exit(1);
+      }
+    } else if (arg === '--window') {
+      result.window = parseInt(args[++i], 10) || undefined;
+    } else if (arg === '--regressions') {
+      result.regressions = true;
+    } else if (arg === '--limit') {
+      result.limit = parseInt(args[++i], 10) || undefined;
+    } else if (arg === '--last') {
+      result.last = parseInt(args[++i], 10) || undefined;
+    } else if (arg === '--metric') {
+      // Can be specified multiple times or as a list: --metric lcp --metric tbt, --metric lcp,tbt
+      result.metric = [...(result.metric || []), ...parseMetricKeys(args[++i])];
+    } else if (arg === '--port') {
+      result.port = parseInt(args[++i], 10) || undefined;
+    } else if (arg === '--junit') {
+      result.junit = args[++i];
+    } else if (arg === '--baseline') {
+      result.baseline = args[++i];
+    } else if (arg === '--metrics') {
+      result.metrics = args[++i].split(',').map(m => m.trim()) as Array<ExtraMetric | 'all'>;
+    } else if (arg === '--min-runs') {
+      adaptiveOverrides.minRuns = parseInt(args[++i], 10) || undefined;
+    } else if (arg === '--max-runs') {
+      adaptiveOverrides.maxRuns = parseInt(args[++i], 10) || undefined;
+    } else if (arg === '--target-cv') {
+      // Accepts "3" or "3%"
+      adaptiveOverrides.targetCv = parseFloat(args[++i]) || undefined;
+    } else if (arg === '--adaptive-metrics') {
+      adaptiveOverrides.metrics = parseMetricKeys(args[++i]);
     } else if (arg === '--note' || arg === '-n') {
       result.note = args[++i];
     } else if (arg === '--tag' || arg === '-t') {
@@ -132,29 +413,73 @@ function parseArgs(): {
       result.concurrency = parseInt(args[++i], 10) || 1;
     } else if (arg === '--scenario' || arg === '-s') {
       result.scenarioId = args[++i];
+    } else if (arg === '--device' || arg === '-d') {
+      result.device = args[++i];
+    } else if (arg === '--throttling') {
+      throttlingPreset = args[++i];
+    } else if (arg === '--throttling-method') {
+      const method = args[++i] as ThrottlingMethod;
+      if (!THROTTLING_METHODS.includes(method)) {
+        logger.logError(`Unknown throttling method: ${method} (available: ${THROTTLING_METHODS.join(', ')})`);
+        process.exit(1);
+      }
+      result.throttlingMethod = method;
+    } else if (arg === '--rtt') {
+      customThrottling.rttMs = parseThrottlingValue('--rtt', args[++i]);
+    } else if (arg === '--throughput') {
+      customThrottling.throughputKbps = parseThrottlingValue('--throughput', args[++i]);
+    } else if (arg === '--cpu') {
+      customThrottling.cpuSlowdownMultiplier = parseThrottlingValue('--cpu', args[++i]);
     } else if (arg === '--help' || arg === '-h') {
       result.command = 'help';
     } else if (arg.startsWith('--')) {
       // Unknown flag, ignore
     } else {
       // Positional argument
-      if (command === 'compare') {
-        if (!result.file1) {
-          result.file1 = arg;
-        } else {
-          result.file2 = arg;
-        }
+      if (command === 'compare' || command === 'compare-batch' || command === 'report' || command === 'trend' || command === 'regressions' || command === 'baseline') {
+        result.files.push(arg);
       } else if (command === 'measure' && !result.url) {
         result.url = arg;
+      } else if (command === 'ab' && result.targets.length < 2) {
+        result.targets.push(arg);
+      } else if (command === 'experiment' && !arg.startsWith('http') && !result.scenarioId) {
+        result.scenarioId = arg;
       } else if (!result.url && arg.startsWith('http')) {
         result.url = arg;
       }
     }
   }
   
+  if (autoRuns) {
+    result.adaptive = Object.fromEntries(
+      Object.entries(adaptiveOverrides).filter(([, v]) => v !== undefined)
+    );
+  }
+  
+  if (Object.keys(customThrottling).length > 0) {
+    result.throttling = { preset: throttlingPreset, ...customThrottling };
+  } else if (throttlingPreset) {
+    result.throttling = throttlingPreset;
+  }
+  
+  const settings = loadSettings(isMachineOutput(result));
+  if (!result.runs) {
+    result.runs = settings.defaultRuns || 5;
+  }
+  
   return result;
 }
 
+/**
+ * Whether the command prints machine-readable output (JSON, CSV, Markdown) to stdout, which informational logs would corrupt
+ */
+function isMachineOutput(args: Pick<ReturnType<typeof parseArgs>, 'command' | 'format' | 'queryFormat' | 'output'>): boolean {
+  return !args.output && (
+    (args.command === 'compare' && args.format !== undefined && args.format !== 'text')
+    || (args.command === 'query' && args.queryFormat !== undefined && args.queryFormat !== 'table')
+  );
+}
+
 /**
  * Print usage help
  */
@@ -171,6 +496,8 @@ function printHelp(): void {
   logger.log(logger.yellow('Commands:'));
   logger.log('  measure [url]         Run Lighthouse performance tests');
   logger.log('  batch                 Run all scenarios from settings in parallel');
+  logger.log('  experiment [scenario] Measure every override variant of a scenario or URL and compare');
+  logger.log('  ab <a> <b> [url]      Interleaved A/B runs of two URLs, variants or overrides/no-overrides');
   logger.log('  start                 Start all services from config');
   logger.log('  start-measure         Start services + measure with custom overrides');
   logger.log('  stop                  Stop all running services');
@@ -179,29 +506,93 @@ function printHelp(): void {
   logger.log('  results               List saved results');
   logger.log('  logs                  List log files by group/scenario');
   logger.log('  last                  Show last result');
-  logger.log('  compare <f1> <f2>     Compare two result files');
+  logger.log('  compare <f1> [f2]     Compare two result files, or show a paired A/B result');
+  logger.log('  compare <f1> <f2> <f3> ... Compare several results side by side');
+  logger.log('  compare-batch <a> <b> Compare two batches by scenario (exit code 1 on regressions)');
+  logger.log(`  hub [--port n]        Browse results in a local web dashboard (default port: ${DEFAULT_HUB_PORT})`);
+  logger.log('  report [result]       Write a self-contained HTML report of a result (default: the last one)');
+  logger.log('  report batch [id]     Write an HTML report of a batch (default: the last one)');
+  logger.log('  report scenario <id>  Write an HTML report of a scenario\'s history');
+  logger.log('  trend <target>        Chart the history of a scenario ID, tag or URL in the terminal');
+  logger.log('  query                 Find measurements by URL, tag, scenario, note, date, overrides and metrics');
+  logger.log('  regressions [id...]   Find step changes in scenario histories (default: every scenario)');
+  logger.log('  baseline set <key> <result> Set the baseline for a scenario ID or URL');
+  logger.log('  baseline list         Show baselines (measure and batch compare against them)');
+  logger.log('  baseline clear [key]  Remove one baseline, or all');
   logger.log('  settings              Show current settings');
   logger.log('  settings init         Create a settings.json file');
   logger.log('  help                  Show this help');
   logger.newline();
   
   logger.log(logger.yellow('Options:'));
-  logger.log(`  --runs, -r <n>        Number of test runs (default: ${settings.defaultRuns})`);
-  logger.log('  --note, -n "text"     Add annotation to this run');
-  logger.log('  --tag, -t "name"      Filter batch by tag (can use multiple times)');
-  logger.log('  --scenario, -s "id"   Run only this scenario from batch');
+  logger.log(`  --runs, -r <n|auto>   Number of test runs, or auto until stable (default: ${settings.defaultRuns})`);
+  logger.log('  --warmup <n>          Discarded warm-up runs before measuring (default: 0)');
+  logger.log('  --save-reports [mode] Save Lighthouse JSON/HTML reports: all (default) or median');
+  logger.log('  --retries <n>         Retries per run after a crash or timeout (default: 2)');
+  logger.log('  --run-timeout <sec>   Per-run timeout in seconds (default: 120)');
+  logger.log(`  --metrics <list>      Extra metrics to capture: ${EXTRA_METRICS.join(', ')} or all`);
+  logger.log('  --min-runs <n>        Runs before checking stability with --runs auto (default: 3)');
+  logger.log('  --max-runs <n>        Maximum runs with --runs auto (default: 20)');
+  logger.log('  --target-cv <pct>     Target 95% CI half-width in % of the mean (default: 3%)');
+  logger.log('  --adaptive-metrics <list> Metrics that must be stable, e.g. score,lcp (default: score)');
+  logger.log('  --variant <name>      Measure with a named override variant from config');
+  logger.log('  --variants <list>     Variants for experiment, e.g. off,flag-a (default: all in config)');
+  logger.log('  --min-effect <pct>    Smallest change compare (default: 1%) or regressions (default: 5%) counts as real');
+  logger.log('  --junit <path>        Write a JUnit XML report of the batch');
+  logger.log('  --regressions         Check the batch\'s scenarios for new step changes afterwards');
+  logger.log('  --window <n>          Measurements compared on each side of a step change (default: 5)');
+  logger.log('  --baseline <n|result> Baseline column when comparing several results (default: 1)');
+  logger.log(`  --format, -f <fmt>    Compare output format: ${COMPARE_FORMATS.join(', ')} (default: text)`);
+  logger.log(`                        Query output format: ${QUERY_FORMATS.join(', ')} (default: table)`);
+  logger.log('  --output, -o <file>   Write compare output or a report to a file (compare format from extension by default)');
+  logger.log('  --since <date|age>    Trend only since a date or age, e.g. 2024-01-15, 7d, 12h (regressions: shifts since)');
+  logger.log('  --last <n>            Trend only the last N measurements');
+  logger.log('  --metric <list>       Trend these metrics as line charts, e.g. lcp,tbt (default: sparklines of all)');
+  logger.log('                        Regressions: only check these metrics');
+  logger.log('  --url <glob|/regex/>  Query measurements of matching URLs, e.g. "https://example.com/*"');
+  logger.log('  --where <condition>   Query by metric, e.g. "lcp>3000" (raw ms/bytes; can use multiple times)');
+  logger.log('  --until <date|age>    Query only until a date or age (with --since for a range)');
+  logger.log('  --overrides           Query only measurements with overrides (--no-overrides: without)');
+  logger.log('  --sort <field[:desc]> Sort query results by timestamp, url, runs or a metric (default: newest first)');
+  logger.log('  --limit <n>           Show at most N query results');
+  logger.log('  --note, -n "text"     Add annotation to this run (query: note contains text)');
+  logger.log('  --tag, -t "name"      Filter batch or query by tag (can use multiple times)');
+  logger.log('  --scenario, -s "id"   Run only this scenario from batch (query: only this scenario)');
   logger.log('  --concurrency, -c <n> Max parallel scenarios (default: 1 sequential)');
+  logger.log(`  --device, -d <name>   Device profile: ${Object.keys(DEVICE_PROFILES).join(', ')} (default: ${DEFAULT_DEVICE})`);
+  logger.log(`  --throttling <name>   Throttling preset: ${Object.keys(THROTTLING_PRESETS).join(', ')} (default: ${DEFAULT_THROTTLING})`);
+  logger.log(`  --throttling-method <m> Throttling method: ${THROTTLING_METHODS.join(', ')}`);
+  logger.log('  --rtt <ms>            Custom round trip time (on top of --throttling preset)');
+  logger.log('  --throughput <kbps>   Custom download throughput (on top of --throttling preset)');
+  logger.log('  --cpu <n>             Custom CPU slowdown multiplier (on top of --throttling preset)');
   logger.log('  --help, -h            Show help');
   logger.newline();
   
   logger.log(logger.yellow('Examples:'));
   logger.log('  npx tsx perf.ts measure https://example.com');
   logger.log('  npx tsx perf.ts measure --runs 10 --note "baseline"');
+  logger.log('  npx tsx perf.ts measure --runs auto --max-runs 20 --target-cv 3%');
+  logger.log('  npx tsx perf.ts measure --warmup 1 --runs 5');
+  logger.log('  npx tsx perf.ts measure --metrics ttfb,totalBytes,requests');
+  logger.log('  npx tsx perf.ts measure --save-reports median');
+  logger.log('  npx tsx perf.ts measure https://example.com --device moto-g-power --throttling slow-4g');
   logger.log('  npx tsx perf.ts batch --tag production');
   logger.log('  npx tsx perf.ts batch --tag production --tag critical');
   logger.log('  npx tsx perf.ts batch --concurrency 5');
+  logger.log('  npx tsx perf.ts batch --tag critical --junit reports/webperf.xml');
+  logger.log('  npx tsx perf.ts measure --variant flag-a');
+  logger.log('  npx tsx perf.ts experiment homepage --variants off,flag-a,flag-b');
+  logger.log('  npx tsx perf.ts ab https://example.com https://staging.example.com --runs 10');
+  logger.log('  npx tsx perf.ts ab no-overrides overrides http://localhost:3000');
   logger.log('  npx tsx perf.ts start-measure --runs 5 --note "with optimizations"');
   logger.log('  npx tsx perf.ts compare 2024-01-15T10-30-00 2024-01-15T11-00-00');
+  logger.log('  npx tsx perf.ts compare 2024-01-15T10-30-00 2024-01-15T11-00-00 --output comparison.md');
+  logger.log('  npx tsx perf.ts compare 2024-01-15T10-30-00 2024-01-15T11-00-00 2024-01-15T11-30-00 --baseline 2');
+  logger.log('  npx tsx perf.ts report batch --output reports/nightly.html');
+  logger.log('  npx tsx perf.ts trend homepage --since 30d --metric lcp');
+  logger.log('  npx tsx perf.ts query --url "https://example.com/*" --where "lcp>3000" --sort lcp:desc --limit 10');
+  logger.log('  npx tsx perf.ts regressions homepage --since 30d --metric lcp,tbt');
+  logger.log('  npx tsx perf.ts batch --regressions');
   logger.newline();
   
   logger.log(logger.yellow('Configuration:'));
@@ -218,12 +609,194 @@ function printHelp(): void {
   logger.log('  The measure command works without config (just measures any URL).');
 }
 
+/**
+ * Parse an ab target: a URL, "overrides" / "no-overrides", or a variant name from config
+ * Targets that are not URLs measure the given URL
+ */
+function parsePairedTarget(spec: string, url: string): PairedTarget {
+  if (/^https?:\/\//.test(spec)) return { label: spec, url: spec, applyOverrides: false };
+  if (spec === 'overrides') return { label: spec, url, applyOverrides: true };
+  if (spec === 'no-overrides') return { label: spec, url, applyOverrides: false };
+  return { label: spec, url, applyOverrides: false, variant: spec };
+}
+
+/**
+ * Measure options for a scenario
+ * Scenario values take precedence over CLI flags, which take precedence over settings
+ */
+function getScenarioOptions(
+  scenario: TestScenario,
+  args: ReturnType<typeof parseArgs>,
+  settings: UserSettings
+): MeasureOptions {
+  // "auto" in the scenario, or --runs auto for scenarios without a fixed count
+  const scenarioAdaptive = scenario.runs === 'auto' || (!scenario.runs && args.adaptive)
+    ? { ...settings.adaptiveRuns, ...args.adaptive }
+    : undefined;
+  const notePrefix = settings.notePrefix || '';
+  const fullNote = scenario.note 
+    ? (notePrefix ? `${notePrefix} ${scenario.note}` : scenario.note)
+    : undefined;
+  
+  return {
+    url: scenario.url,
+    runs: typeof scenario.runs === 'number' ? scenario.runs : args.runs,
+    note: fullNote,
+    applyOverrides: scenario.applyOverrides || false,
+    variant: scenario.variant || args.variant,
+    device: scenario.device || args.device,
+    throttling: scenario.throttling || args.throttling || settings.defaultThrottling,
+    throttlingMethod: scenario.throttlingMethod || args.throttlingMethod || settings.defaultThrottlingMethod,
+    outlierPolicy: settings.outlierPolicy,
+    adaptive: scenarioAdaptive,
+    warmupRuns: scenario.warmupRuns ?? args.warmupRuns,
+    metrics: resolveTrackedMetrics(args.metrics || settings.trackedMetrics),
+    saveReports: args.saveReports || settings.saveReports,
+    retry: { ...settings.retry, ...args.retry },
+  };
+}
+
+/**
+ * Whether a variant installs overrides on measured pages (a control variant does not)
+ */
+function variantHasOverrides(config: WebperfConfig, variant?: string): boolean {
+  return variant !== undefined && hasOverrides(resolveVariant(config, variant));
+}
+
+/**
+ * Significance thresholds from settings, with --min-effect on top
+ */
+function getSignificance(settings: UserSettings, minEffectPercent?: number): SignificanceConfig {
+  return {
+    ...settings.significance,
+    ...(minEffectPercent !== undefined && !isNaN(minEffectPercent) && { minEffectPercent }),
+  };
+}
+
+/**
+ * Regression detection thresholds from settings, with --window and --min-effect on top
+ */
+function getRegressionConfig(settings: UserSettings, window?: number, minEffectPercent?: number): RegressionConfig {
+  return {
+    ...settings.regressions,
+    ...(window !== undefined && { window }),
+    ...(minEffectPercent !== undefined && !isNaN(minEffectPercent) && { minEffectPercent }),
+  };
+}
+
+/**
+ * Compare a saved result against the baseline for its scenario or URL, if one is set
+ * @param keys - Baseline keys to look up in order (e.g., scenario ID, then URL)
+ */
+function compareWithBaseline(
+  resultDir: string,
+  keys: Array<string | undefined>,
+  settings: UserSettings,
+  minEffectPercent?: number
+): void {
+  const found = findBaseline(...keys);
+  if (!found) return;
+  
+  logger.newline();
+  logger.log(logger.cyan(`Baseline for ${found.key}: ${found.baseline.result}`));
+  compareResults(found.baseline.result, resultDir, settings.headlineAggregate, getSignificance(settings, minEffectPercent));
+}
+
+/**
+ * Metric changes of a saved scenario result against its baseline, for regression assertions
+ */
+function getBaselineComparisons(
+  scenario: TestScenario,
+  resultDir: string,
+  settings: UserSettings,
+  minEffectPercent?: number
+): ComparisonResult[] | undefined {
+  const found = findBaseline(scenario.id, scenario.url);
+  if (!found) return undefined;
+  
+  const report = buildComparisonReport(found.baseline.result, resultDir, settings.headlineAggregate, getSignificance(settings, minEffectPercent));
+  return report?.comparisons;
+}
+
+/**
+ * Render and write the HTML report of a session, a batch or a scenario's history
+ * @param id - Result directory name, batch ID or scenario ID
+ * @returns The report's path, or null when there is nothing to report
+ */
+function writeResultsReport(kind: ReportKind, id: string, settings: UserSettings, output?: string): string | null {
+  const aggregate = settings.headlineAggregate;
+  const path = resolve(output || getDefaultReportPath(kind, id));
+  
+  if (kind === 'session') {
+    const summary = loadSummary(id);
+    if (!summary) {
+      logger.logError(`Result not found: ${id}`);
+      return null;
+    }
+    // The trend ends at this session
+    const history = loadUrlHistory(summary.url, aggregate).filter(entry => entry.timestamp <= summary.timestamp);
+    const reportsDir = relative(dirname(path), resolve(getResultsPath(), id));
+    return writeReport(path, renderSessionReport(summary, history, { aggregate, reportsDir }));
+  }
+  
+  if (kind === 'batch') {
+    const batch = loadBatchResult(id);
+    if (!batch) {
+      logger.logError(`Batch not found: ${id}`);
+      return null;
+    }
+    const histories = Object.fromEntries(batch.results.map(r => [r.scenario.id, loadScenarioHistory(r.scenario.id, aggregate)]));
+    return writeReport(path, renderBatchReport(batch, histories, { aggregate }));
+  }
+  
+  const history = loadScenarioHistory(id, aggregate);
+  if (history.length === 0) {
+    logger.logError(`No measurements logged for scenario: ${id}`);
+    return null;
+  }
+  return writeReport(path, renderScenarioReport(id, history, { aggregate }));
+}
+
+/**
+ * Write the report of a finished measure or batch and open it, when autoOpenResults is set
+ */
+function autoOpenReport(kind: ReportKind, id: string, settings: UserSettings): void {
+  if (!settings.autoOpenResults) return;
+  
+  const path = writeResultsReport(kind, id, settings);
+  if (path) {
+    logger.log(logger.dim(`  → ${path}`));
+    openInBrowser(path);
+  }
+}
+
+/**
+ * After a measure or start-measure result is saved: compare it with the URL's baseline and open its report
+ */
+function finishMeasurement(resultDir: string, url: string, settings: UserSettings, minEffectPercent?: number): void {
+  compareWithBaseline(resultDir, [url], settings, minEffectPercent);
+  autoOpenReport('session', basename(resultDir), settings);
+}
+
+/**
+ * Index of the baseline column for an N-way compare
+ * @param baseline - 1-based position or one of the compared results (default: the first)
+ * @returns undefined when the baseline matches no column
+ */
+function resolveBaselineColumn(files: string[], baseline?: string): number | undefined {
+  if (!baseline) return 0;
+  const byName = files.indexOf(baseline);
+  if (byName !== -1) return byName;
+  const position = /^\d+$/.test(baseline) ? parseInt(baseline, 10) : NaN;
+  return position >= 1 && position <= files.length ? position - 1 : undefined;
+}
+
 /**
  * Main entry point
  */
 async function main(): Promise<void> {
   const args = parseArgs();
-  const config = await loadConfig();
+  const config = await loadConfig(isMachineOutput(args));
   
   switch (args.command) {
     case 'measure': {
@@ -239,22 +812,45 @@ async function main(): Promise<void> {
         runs: args.runs,
         note: fullNote,
         applyOverrides: false,
+        variant: args.variant,
+        device: args.device,
+        throttling: args.throttling || settings.defaultThrottling,
+        throttlingMethod: args.throttlingMethod || settings.defaultThrottlingMethod,
+        outlierPolicy: settings.outlierPolicy,
+        adaptive: args.adaptive && { ...settings.adaptiveRuns, ...args.adaptive },
+        warmupRuns: args.warmupRuns,
+        metrics: resolveTrackedMetrics(args.metrics || settings.trackedMetrics),
+        saveReports: args.saveReports || settings.saveReports,
+        retry: { ...settings.retry, ...args.retry },
       };
       
-      const { metrics, averages, minScore, maxScore } = await runMeasurements(options, config);
+      const { metrics, runs: runResults, averages, stats, minScore, maxScore, device, throttling, adaptive, warmup, reports, retried, overridesVerified } = await runMeasurements(options, config);
       
-      printResults(averages, minScore, maxScore, args.runs, fullNote);
+      printResults(averages, minScore, maxScore, metrics.length, fullNote, stats, settings.headlineAggregate);
       
-      saveResults({
+      const resultDir = saveResults({
         url,
-        runs: args.runs,
+        runs: metrics.length,
         averages,
         minScore,
         maxScore,
         rawScores: metrics.map(m => m.score),
-        overridesApplied: false,
+        runResults,
+        stats,
+        outlierPolicy: settings.outlierPolicy,
+        overridesApplied: variantHasOverrides(config, args.variant),
+        overridesVerified,
+        variant: args.variant,
+        adaptive,
+        warmupResults: warmup,
+        reports,
+        retriedRuns: retried,
+        device,
+        throttling,
         note: fullNote,
       });
+      
+      finishMeasurement(resultDir, url, settings, args.minEffectPercent);
       break;
     }
     
@@ -338,22 +934,18 @@ async function main(): Promise<void> {
         duration: 0,
         results: [],
       };
+      // Saved result directories, for comparing against baselines after the batch
+      const resultDirs = new Map<string, string>();
+      // Failed scenarios with assertions, which fail the batch like failed assertions do
+      let failedAssertedScenarios = 0;
       
       // Run scenarios with concurrency limit
       const runScenario = async (scenario: TestScenario): Promise<void> => {
         const scenarioStartedAt = new Date().toISOString();
-        const scenarioRuns = scenario.runs || args.runs;
-        const notePrefix = settings.notePrefix || '';
-        const fullNote = scenario.note 
-          ? (notePrefix ? `${notePrefix} ${scenario.note}` : scenario.note)
-          : undefined;
-        
-        const options: MeasureOptions = {
-          url: scenario.url,
-          runs: scenarioRuns,
-          note: fullNote,
-          applyOverrides: scenario.applyOverrides || false,
-        };
+        const options = getScenarioOptions(scenario, args, settings);
+        const fullNote = options.note;
+        const overridesApplied = options.applyOverrides || variantHasOverrides(config, options.variant);
+        const assertions = resolveAssertions(settings.assertions, scenario.assertions);
         
         try {
           const tagsLabel = scenario.tags && scenario.tags.length > 0 
@@ -361,44 +953,90 @@ async function main(): Promise<void> {
             : 'untagged';
           logger.log(logger.cyan(`Starting: ${scenario.id} [${tagsLabel}]`));
           
-          const { metrics, averages, minScore, maxScore } = await runMeasurements(options, config);
+          const { metrics, runs: runResults, averages, stats, minScore, maxScore, device, throttling, adaptive, warmup, reports, retried, overridesVerified } = await runMeasurements(options, config);
           
           const scenarioCompletedAt = new Date().toISOString();
+          const invalidRuns = runResults.filter(r => r.error).length;
           
           const summary: MeasurementSummary = {
             url: scenario.url,
-            runs: scenarioRuns,
+            runs: metrics.length,
             timestamp: scenarioCompletedAt,
-            overridesApplied: scenario.applyOverrides || false,
+            overridesApplied,
+            ...(overridesVerified !== undefined && { overridesVerified }),
+            ...(options.variant && { variant: options.variant }),
+            device,
+            throttling,
             note: fullNote,
             averages,
             range: { minScore, maxScore },
             rawScores: metrics.map(m => m.score),
+            runResults,
+            ...(invalidRuns > 0 && { invalidRuns }),
+            ...(retried.length > 0 && { retriedRuns: retried }),
+            stats,
+            ...(settings.outlierPolicy && settings.outlierPolicy !== 'none' && { outlierPolicy: settings.outlierPolicy }),
+            ...(adaptive && { adaptive }),
+            ...(warmup.length > 0 && { warmupResults: warmup }),
           };
           
           // Save results with tags and scenarioId for separate logging
-          saveResults({
+          const resultDir = saveResults({
             url: scenario.url,
-            runs: scenarioRuns,
+            runs: metrics.length,
             averages,
             minScore,
             maxScore,
             rawScores: metrics.map(m => m.score),
-            overridesApplied: scenario.applyOverrides || false,
+            runResults,
+            stats,
+            outlierPolicy: settings.outlierPolicy,
+            overridesApplied,
+            overridesVerified,
+            variant: options.variant,
+            adaptive,
+            warmupResults: warmup,
+            reports,
+            retriedRuns: retried,
+            device,
+            throttling,
             note: fullNote,
             tags: scenario.tags,
             scenarioId: scenario.id,
           });
+          resultDirs.set(scenario.id, resultDir);
+          
+          // Results from mostly failed page loads are not trustworthy, even if some runs succeeded
+          const invalidPercent = (invalidRuns / runResults.length) * 100;
+          const tooManyInvalid = invalidPercent > (settings.maxInvalidRunPercent ?? 50);
+          
+          // Failed scenarios report their error instead of assertions
+          const outcomes = assertions && !tooManyInvalid && evaluateAssertions(
+            assertions,
+            getHeadlineMetrics(summary, settings.headlineAggregate),
+            getBaselineComparisons(scenario, resultDir, settings, args.minEffectPercent)
+          );
           
           batchResult.results.push({ 
             scenario, 
             summary,
+            ...(tooManyInvalid && { error: `Too many invalid runs: ${invalidRuns}/${runResults.length}` }),
             startedAt: scenarioStartedAt,
             completedAt: scenarioCompletedAt,
+            ...(invalidRuns > 0 && { invalidRuns }),
+            ...(outcomes && { assertions: outcomes }),
           });
-          batchResult.completed++;
+          batchResult.invalidRuns = (batchResult.invalidRuns || 0) + invalidRuns;
           
-          logger.log(logger.green(`✓ Completed: ${scenario.id} - Score: ${averages.score.toFixed(0)}`));
+          if (tooManyInvalid) {
+            batchResult.failed++;
+            if (assertions) failedAssertedScenarios++;
+            logger.logError(`✗ Failed: ${scenario.id} - ${invalidRuns} of ${runResults.length} runs were invalid`);
+          } else {
+            batchResult.completed++;
+            const headline = selectAggregate(stats, settings.headlineAggregate || 'mean');
+            logger.log(logger.green(`✓ Completed: ${scenario.id} - Score: ${headline.score.toFixed(0)}`));
+          }
         } catch (error) {
           const err = error as Error;
           batchResult.results.push({ 
@@ -408,6 +1046,7 @@ async function main(): Promise<void> {
             completedAt: new Date().toISOString(),
           });
           batchResult.failed++;
+          if (assertions) failedAssertedScenarios++;
           logger.logError(`✗ Failed: ${scenario.id} - ${err.message}`);
         }
       };
@@ -447,14 +1086,17 @@ async function main(): Promise<void> {
       logger.log(`  Total scenarios:  ${batchResult.totalScenarios}`);
       logger.log(`  Completed:        ${logger.green(String(batchResult.completed))}`);
       logger.log(`  Failed:           ${batchResult.failed > 0 ? logger.red(String(batchResult.failed)) : '0'}`);
+      if (batchResult.invalidRuns) {
+        logger.log(`  Invalid runs:     ${logger.yellow(String(batchResult.invalidRuns))}`);
+      }
       logger.log(`  Duration:         ${(batchResult.duration / 1000).toFixed(1)}s`);
       logger.newline();
       
       if (batchResult.results.length > 0) {
         logger.log(logger.yellow('Results:'));
         for (const result of batchResult.results) {
-          if (result.summary) {
-            const score = result.summary.averages.score;
+          if (result.summary && !result.error) {
+            const score = getHeadlineMetrics(result.summary, settings.headlineAggregate).score;
             const scoreColor = score >= 90 ? logger.green : score >= 50 ? logger.yellow : logger.red;
             logger.log(`  ${result.scenario.id}: ${scoreColor(score.toFixed(0))} - ${result.scenario.note || ''}`);
           } else {
@@ -463,10 +1105,204 @@ async function main(): Promise<void> {
         }
       }
       
+      const failedAssertions = printAssertionResults(batchResult.results);
+      if (batchResult.results.some(r => r.assertions)) {
+        batchResult.failedAssertions = failedAssertions;
+      }
+      
       // Save batch summary to JSONL
       const { saveBatchResult } = await import('./lib/results.js');
       saveBatchResult(batchResult);
       
+      if (args.junit) {
+        mkdirSync(dirname(resolve(args.junit)), { recursive: true });
+        writeFileSync(args.junit, formatJUnitReport(batchResult, settings.headlineAggregate));
+        logger.logSuccess(`JUnit report written to ${args.junit}`);
+      }
+      
+      // Scenarios are compared in batch order, after the summary, so concurrent runs do not interleave output
+      for (const result of batchResult.results) {
+        const resultDir = resultDirs.get(result.scenario.id);
+        if (resultDir && !result.error) {
+          compareWithBaseline(resultDir, [result.scenario.id, result.scenario.url], settings, args.minEffectPercent);
+        }
+      }
+      
+      if (args.regressions || settings.regressions?.afterBatch) {
+        const measured = batchResult.results.filter(r => !r.error).map(r => r.scenario.id);
+        if (measured.length > 0) {
+          logger.newline();
+          // --min-effect is for the baseline comparison here
+          const regressionConfig = getRegressionConfig(settings, args.window);
+          printRegressions(
+            findRegressions(measured, settings.headlineAggregate, regressionConfig, { recentOnly: true }),
+            regressionConfig,
+            settings.headlineAggregate
+          );
+        }
+      }
+      
+      autoOpenReport('batch', batchResult.batchId, settings);
+      
+      // Non-zero exit code for CI gating; a scenario with assertions that failed to measure cannot pass them
+      if (failedAssertions > 0 || failedAssertedScenarios > 0) {
+        process.exit(1);
+      }
+      break;
+    }
+    
+    case 'ab': {
+      const settings = loadSettings();
+      
+      if (args.targets.length < 2) {
+        logger.logError('ab requires two targets');
+        logger.log('  Usage: npx tsx perf.ts ab <a> <b> [url] [--runs N]');
+        logger.log('  Targets: a URL, a variant name from config, overrides or no-overrides');
+        process.exit(1);
+      }
+      
+      // A confidence interval needs at least two pairs
+      if (args.runs < 2) {
+        logger.logError('ab needs at least 2 pairs (--runs 2 or more)');
+        process.exit(1);
+      }
+      
+      const url = args.url || config.defaultUrl;
+      const notePrefix = settings.notePrefix || '';
+      const fullNote = args.note 
+        ? (notePrefix ? `${notePrefix} ${args.note}` : args.note)
+        : undefined;
+      
+      const options: PairedMeasureOptions = {
+        a: parsePairedTarget(args.targets[0], url),
+        b: parsePairedTarget(args.targets[1], url),
+        runs: args.runs,
+        note: fullNote,
+        device: args.device,
+        throttling: args.throttling || settings.defaultThrottling,
+        throttlingMethod: args.throttlingMethod || settings.defaultThrottlingMethod,
+        outlierPolicy: settings.outlierPolicy,
+        warmupRuns: args.warmupRuns,
+        metrics: resolveTrackedMetrics(args.metrics || settings.trackedMetrics),
+        retry: { ...settings.retry, ...args.retry },
+      };
+      
+      const measured = await runPairedMeasurements(options, config);
+      const result: PairedResult = {
+        type: 'paired',
+        timestamp: generateTimestamp(),
+        ...(fullNote && { note: fullNote }),
+        ...measured,
+      };
+      
+      logger.newline();
+      printPairedComparison(result);
+      savePairedResult(result);
+      break;
+    }
+    
+    case 'experiment': {
+      const settings = loadSettings();
+      const scenarios = settings.scenarios || [];
+      const scenario = args.scenarioId ? scenarios.find(s => s.id === args.scenarioId) : undefined;
+      
+      if (args.scenarioId && !scenario) {
+        logger.logError(`Scenario not found: ${args.scenarioId}`);
+        logger.log('  Available scenarios: ' + scenarios.map(s => s.id).join(', '));
+        process.exit(1);
+      }
+      
+      // Without a scenario, measure the URL like the measure command does
+      const target: TestScenario = scenario || { id: 'adhoc', note: args.note || '', url: args.url || config.defaultUrl };
+      const variantNames = args.variants || target.variants || Object.keys(config.variants || {});
+      
+      if (variantNames.length < 2) {
+        logger.logError('An experiment needs at least two variants.');
+        logger.log('');
+        logger.log('  Add variants to your config:');
+        logger.log('');
+        logger.log('  variants: {');
+        logger.log("    off: { description: 'Flag off' },");
+        logger.log("    on: { description: 'Flag on', overrides: { localStorage: { 'my-flag': 'true' } } },");
+        logger.log('  }');
+        process.exit(1);
+      }
+      
+      // Fail before measuring anything if a variant does not exist
+      try {
+        variantNames.forEach(name => resolveVariant(config, name));
+      } catch (error) {
+        logger.logError((error as Error).message);
+        process.exit(1);
+      }
+      
+      const experiment: ExperimentResult = {
+        experimentId: new Date().toISOString().replace(/[:.]/g, '-'),
+        startedAt: new Date().toISOString(),
+        completedAt: '', // Will be set after completion
+        url: target.url,
+        ...(scenario && { scenarioId: scenario.id }),
+        baseline: variantNames[0],
+        variants: [],
+      };
+      
+      logger.boxHeader(`Variant Experiment (${variantNames.length} variants)`);
+      logger.newline();
+      logger.log(logger.dim(`  Experiment ID: ${experiment.experimentId}`));
+      logger.log(logger.dim(`  Target: ${scenario ? scenario.id : target.url}`));
+      logger.log(logger.dim(`  Variants: ${variantNames.join(', ')} (baseline: ${experiment.baseline})`));
+      logger.newline();
+      
+      // Variants run one after another, like a sequential batch
+      for (const variant of variantNames) {
+        const options: MeasureOptions = { ...getScenarioOptions(target, args, settings), variant };
+        const description = config.variants![variant].description;
+        
+        try {
+          logger.log(logger.cyan(`Starting variant: ${variant}`));
+          
+          const { metrics, runs: runResults, averages, stats, minScore, maxScore, device, throttling, adaptive, warmup, reports, retried, overridesVerified } = await runMeasurements(options, config);
+          
+          printResults(averages, minScore, maxScore, metrics.length, options.note, stats, settings.headlineAggregate);
+          
+          const resultDir = saveResults({
+            url: target.url,
+            runs: metrics.length,
+            averages,
+            minScore,
+            maxScore,
+            rawScores: metrics.map(m => m.score),
+            runResults,
+            stats,
+            outlierPolicy: settings.outlierPolicy,
+            overridesApplied: variantHasOverrides(config, variant),
+            overridesVerified,
+            variant,
+            adaptive,
+            warmupResults: warmup,
+            reports,
+            retriedRuns: retried,
+            device,
+            throttling,
+            note: options.note,
+            tags: scenario?.tags,
+            scenarioId: scenario?.id,
+          });
+          
+          experiment.variants.push({ variant, ...(description && { description }), summary: loadSummary(resultDir) ?? undefined, resultDir });
+        } catch (error) {
+          const err = error as Error;
+          experiment.variants.push({ variant, ...(description && { description }), error: err.message });
+          logger.logError(`✗ Failed: ${variant} - ${err.message}`);
+        }
+      }
+      
+      experiment.completedAt = new Date().toISOString();
+      
+      logger.newline();
+      printExperimentComparison(experiment, settings.headlineAggregate, getSignificance(settings));
+      saveExperimentResult(experiment);
+      
       break;
     }
     
@@ -550,7 +1386,7 @@ async function main(): Promise<void> {
       
       logger.newline();
       
-      // Run measurements with overrides (if config has applyOverrides function)
+      // Run measurements with overrides (if config has applyOverrides or overrides)
       const settings = loadSettings();
       const url = args.url || config.defaultUrl;
       const notePrefix = settings.notePrefix || '';
@@ -563,23 +1399,46 @@ async function main(): Promise<void> {
         runs: args.runs,
         note: fullNote,
         applyOverrides: true,
+        variant: args.variant,
+        device: args.device,
+        throttling: args.throttling || settings.defaultThrottling,
+        throttlingMethod: args.throttlingMethod || settings.defaultThrottlingMethod,
+        outlierPolicy: settings.outlierPolicy,
+        adaptive: args.adaptive && { ...settings.adaptiveRuns, ...args.adaptive },
+        warmupRuns: args.warmupRuns,
+        metrics: resolveTrackedMetrics(args.metrics || settings.trackedMetrics),
+        saveReports: args.saveReports || settings.saveReports,
+        retry: { ...settings.retry, ...args.retry },
       };
       
-      const { metrics, averages, minScore, maxScore } = await runMeasurements(options, config);
+      const { metrics, runs: runResults, averages, stats, minScore, maxScore, device, throttling, adaptive, warmup, reports, retried, overridesVerified } = await runMeasurements(options, config);
       
-      printResults(averages, minScore, maxScore, args.runs, fullNote);
+      printResults(averages, minScore, maxScore, metrics.length, fullNote, stats, settings.headlineAggregate);
       
-      saveResults({
+      const resultDir = saveResults({
         url,
-        runs: args.runs,
+        runs: metrics.length,
         averages,
         minScore,
         maxScore,
         rawScores: metrics.map(m => m.score),
-        overridesApplied: true,
+        runResults,
+        stats,
+        outlierPolicy: settings.outlierPolicy,
+        overridesApplied: args.variant ? variantHasOverrides(config, args.variant) : true,
+        overridesVerified,
+        variant: args.variant,
+        adaptive,
+        warmupResults: warmup,
+        reports,
+        retriedRuns: retried,
+        device,
+        throttling,
         note: fullNote,
       });
       
+      finishMeasurement(resultDir, url, settings, args.minEffectPercent);
+      
       logger.newline();
       logger.log(logger.yellow('Services are still running. Stop with:'));
       logger.log('  npx tsx perf.ts stop');
@@ -617,12 +1476,232 @@ async function main(): Promise<void> {
     }
     
     case 'compare': {
-      if (!args.file1 || !args.file2) {
-        logger.logError('Compare requires two file paths or timestamps');
-        logger.log('  Usage: npx tsx perf.ts compare <file1> <file2>');
+      const [file1, file2] = args.files;
+      if (!file1) {
+        logger.logError('Compare requires two file paths or timestamps, or one paired A/B result');
+        logger.log('  Usage: npx tsx perf.ts compare <file1> [file2 ...]');
+        process.exit(1);
+      }
+      const settings = loadSettings();
+      const significance = getSignificance(settings, args.minEffectPercent);
+      
+      if (args.files.length > 2) {
+        if (args.format || args.output) {
+          logger.logError('--format and --output compare two results; leave them out to compare more side by side');
+          process.exit(1);
+        }
+        const baseline = resolveBaselineColumn(args.files, args.baseline);
+        if (baseline === undefined) {
+          logger.logError(`Unknown baseline: ${args.baseline} (use 1-${args.files.length} or one of the compared results)`);
+          process.exit(1);
+        }
+        compareMultiple(args.files, baseline, settings.headlineAggregate, significance);
+        break;
+      }
+      
+      const format = args.format || (args.output ? inferCompareFormat(args.output) : 'text');
+      if (format === 'text') {
+        compareResults(file1, file2, settings.headlineAggregate, significance);
+        break;
+      }
+      
+      const report = buildComparisonReport(file1, file2, settings.headlineAggregate, significance);
+      if (!report) {
+        process.exit(1);
+      }
+      const output = formatComparison(report, format);
+      if (args.output) {
+        writeFileSync(args.output, output);
+        logger.logSuccess(`Comparison written to ${args.output}`);
+      } else {
+        process.stdout.write(output);
+      }
+      break;
+    }
+    
+    case 'hub': {
+      const settings = loadSettings();
+      const port = args.port ?? DEFAULT_HUB_PORT;
+      try {
+        await startHub({ port, aggregate: settings.headlineAggregate, significance: settings.significance });
+      } catch (e) {
+        const error = e as NodeJS.ErrnoException;
+        logger.logError(error.code === 'EADDRINUSE'
+          ? `Port ${port} is already in use (choose another with --port)`
+          : `Could not start the hub: ${error.message}`);
+        process.exit(1);
+      }
+      logger.logSuccess(`Hub running at http://127.0.0.1:${port}`);
+      logger.log(logger.dim(`  Results directory: ${getResultsPath()}`));
+      logger.log(logger.dim('  Press Ctrl+C to stop'));
+      // The server keeps the process running
+      break;
+    }
+    
+    case 'report': {
+      const settings = loadSettings();
+      const [first, second] = args.files;
+      const kind: ReportKind = first === 'batch' || first === 'scenario' ? first : 'session';
+      let id: string | undefined = kind === 'session' ? first : second;
+      
+      if (!id && kind === 'scenario') {
+        logger.logError('report scenario requires a scenario ID');
+        logger.log('  Usage: npx tsx perf.ts report scenario <scenarioId>');
+        process.exit(1);
+      }
+      if (!id) {
+        id = kind === 'batch' ? listBatchIds(1)[0] : listSessions().find(s => s.type === 'summary')?.id;
+      }
+      if (!id) {
+        logger.logWarn(kind === 'batch' ? 'No batches found yet.' : 'No results found yet.');
+        process.exit(1);
+      }
+      
+      const path = writeResultsReport(kind, id, settings, args.output);
+      if (!path) {
+        process.exit(1);
+      }
+      logger.logSuccess(`Report written to ${path}`);
+      if (settings.autoOpenResults) {
+        openInBrowser(path);
+      }
+      break;
+    }
+    
+    case 'trend': {
+      const settings = loadSettings();
+      const target = args.files[0];
+      if (!target) {
+        logger.logError('trend requires a scenario ID, tag or URL');
+        logger.log('  Usage: npx tsx perf.ts trend <scenarioId|tag|url> [--since 7d] [--last N] [--metric lcp]');
+        process.exit(1);
+      }
+      
+      const history = findHistory(target, settings.headlineAggregate);
+      if (!history) {
+        logger.logError(`No scenario or tag log found for ${target}`);
+        logger.log(logger.dim('  See available logs with: npx tsx perf.ts logs'));
+        process.exit(1);
+      }
+      
+      printTrend(target, history.source, history.entries, {
+        since: args.since,
+        last: args.last,
+        metrics: args.metric,
+        aggregate: settings.headlineAggregate,
+      });
+      break;
+    }
+    
+    case 'query': {
+      const settings = loadSettings();
+      const format = args.queryFormat || (args.output ? inferQueryFormat(args.output) : 'table');
+      if (format === 'table' && args.output) {
+        logger.logError('--output writes json or csv (use a .json or .csv file, or --format)');
+        process.exit(1);
+      }
+      
+      const records = filterRecords(loadQueryRecords(settings.headlineAggregate), {
+        url: args.urlPattern,
+        tags: args.tags.length > 0 ? args.tags : undefined,
+        scenarioId: args.scenarioId,
+        note: args.note,
+        since: args.since,
+        until: args.until,
+        overridesApplied: args.overrides,
+        where: args.where,
+      });
+      const sorted = sortRecords(records, args.sort);
+      const limited = args.limit ? sorted.slice(0, args.limit) : sorted;
+      
+      if (format === 'table') {
+        printQueryTable(limited, records.length);
+        break;
+      }
+      const output = format === 'json' ? formatQueryJson(limited) : formatQueryCsv(limited);
+      if (args.output) {
+        mkdirSync(dirname(resolve(args.output)), { recursive: true });
+        writeFileSync(args.output, output);
+        logger.logSuccess(`${limited.length} measurement${limited.length === 1 ? '' : 's'} written to ${args.output}`);
+      } else {
+        process.stdout.write(output);
+      }
+      break;
+    }
+    
+    case 'regressions': {
+      const settings = loadSettings();
+      const regressionConfig = getRegressionConfig(settings, args.window, args.minEffectPercent);
+      const results = findRegressions(args.files, settings.headlineAggregate, regressionConfig, {
+        since: args.since,
+        metrics: args.metric,
+      });
+      printRegressions(results, regressionConfig, settings.headlineAggregate);
+      break;
+    }
+    
+    case 'compare-batch': {
+      if (args.files.length < 2) {
+        logger.logError('compare-batch requires two batch IDs');
+        logger.log('  Usage: npx tsx perf.ts compare-batch <batchIdA> <batchIdB>');
+        const recent = listBatchIds(5);
+        if (recent.length > 0) {
+          logger.log(logger.dim(`  Recent batches: ${recent.join(', ')}`));
+        }
+        process.exit(1);
+      }
+      
+      const [beforeId, afterId] = args.files;
+      const before = loadBatchResult(beforeId);
+      if (!before) {
+        logger.logError(`Batch not found: ${beforeId}`);
+        process.exit(1);
+      }
+      const after = loadBatchResult(afterId);
+      if (!after) {
+        logger.logError(`Batch not found: ${afterId}`);
+        process.exit(1);
+      }
+      
+      const settings = loadSettings();
+      const comparison = compareBatches(before, after, settings.headlineAggregate, getSignificance(settings, args.minEffectPercent));
+      printBatchComparison(comparison);
+      
+      // Non-zero exit code for CI gating
+      if (comparison.regressions > 0) {
+        process.exit(1);
+      }
+      break;
+    }
+    
+    case 'baseline': {
+      const [subcommand, key, result] = args.files;
+      
+      if (subcommand === 'set') {
+        if (!key || !result) {
+          logger.logError('baseline set requires a scenario ID or URL and a result');
+          logger.log('  Usage: npx tsx perf.ts baseline set <scenarioId|url> <resultId>');
+          process.exit(1);
+        }
+        const baseline = setBaseline(key, result);
+        if (!baseline) {
+          process.exit(1);
+        }
+        logger.logSuccess(`Baseline for ${key}: ${result} (${baseline.url})`);
+      } else if (subcommand === 'clear') {
+        const removed = clearBaseline(key);
+        if (key && removed === 0) {
+          logger.logWarn(`No baseline set for ${key}`);
+        } else {
+          logger.logSuccess(key ? `Baseline for ${key} cleared` : `${removed} baseline${removed === 1 ? '' : 's'} cleared`);
+        }
+      } else if (!subcommand || subcommand === 'list') {
+        printBaselines();
+      } else {
+        logger.logError(`Unknown baseline command: ${subcommand}`);
+        logger.log('  Usage: npx tsx perf.ts baseline set|list|clear');
         process.exit(1);
       }
-      compareResults(args.file1, args.file2);
       break;
     }
     
@@ -648,6 +1727,10 @@ async function main(): Promise<void> {
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
   logger.newline();
+  // The hub only reads results; services started separately keep running
+  if (process.argv[2] === 'hub') {
+    process.exit(0);
+  }
   logger.log(logger.yellow('Received SIGINT, stopping services...'));
   const config = await loadConfig();
   await stopAll(config);
@@ -655,6 +1738,9 @@ process.on('SIGINT', async () => {
 });
 
 process.on('SIGTERM', async () => {
+  if (process.argv[2] === 'hub') {
+    process.exit(0);
+  }
   const config = await loadConfig();
   await stopAll(config);
   process.exit(0);